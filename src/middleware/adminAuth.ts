@@ -0,0 +1,82 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest, resolveSessionUser } from './auth';
+import { AdminAuthService, AdminIdentity, AdminRole } from '../services/AdminAuthService';
+
+// Расширяем тип Request для авторизованного администратора
+export interface AdminRequest extends AuthenticatedRequest {
+  admin?: AdminIdentity;
+}
+
+/**
+ * Определить администратора по заголовку X-Admin-Api-Key или по сессии пользователя
+ */
+const authenticateAdmin = async (req: AdminRequest, res: Response): Promise<AdminIdentity | null> => {
+  const apiKey = req.header('X-Admin-Api-Key');
+
+  if (apiKey) {
+    const identity = await AdminAuthService.authenticateApiKey(apiKey);
+    if (!identity) {
+      res.status(401).json({
+        success: false,
+        error: 'Недействительный API ключ'
+      });
+      return null;
+    }
+    return identity;
+  }
+
+  const session = await resolveSessionUser(req);
+  if (!session.user) {
+    res.status(session.status || 401).json({
+      success: false,
+      error: session.error
+    });
+    return null;
+  }
+
+  req.user = session.user;
+
+  const identity = AdminAuthService.resolveUserIdentity(session.user);
+  if (!identity) {
+    res.status(403).json({
+      success: false,
+      error: 'Доступ запрещен. Требуются права администратора'
+    });
+    return null;
+  }
+
+  return identity;
+};
+
+/**
+ * Middleware для проверки роли администратора
+ * Без аргумента требует права суперадмина (users.is_admin = true)
+ */
+export const requireAdminRole = (role?: AdminRole) => {
+  return async (req: AdminRequest, res: Response, next: NextFunction) => {
+    try {
+      const identity = await authenticateAdmin(req, res);
+      if (!identity) {
+        return;
+      }
+
+      const allowed = role ? AdminAuthService.hasRole(identity, role) : identity.isSuperAdmin;
+      if (!allowed) {
+        console.warn(`⚠️ [ADMIN_AUTH] ${AdminAuthService.describe(identity)} без роли ${role || 'superadmin'}: ${req.method} ${req.originalUrl}`);
+        return res.status(403).json({
+          success: false,
+          error: `Доступ запрещен. Требуется роль: ${role || 'superadmin'}`
+        });
+      }
+
+      req.admin = identity;
+      next();
+    } catch (error) {
+      console.error('❌ [ADMIN_AUTH] Ошибка проверки прав доступа:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Внутренняя ошибка сервера'
+      });
+    }
+  };
+};
@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import { User } from '../models/index';
+import { AuthService } from '../services/AuthService';
+import { AbuseProtectionService } from '../services/AbuseProtectionService';
+
+// Расширяем тип Request для авторизованного пользователя
+export interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+/**
+ * Извлечь Bearer токен из заголовка Authorization
+ */
+export const extractBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = header.substring('Bearer '.length).trim();
+  return token.length > 0 ? token : null;
+};
+
+export interface SessionResolution {
+  user?: User;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * Определить пользователя по Bearer токену
+ * Возвращает либо пользователя, либо HTTP статус и текст ошибки
+ */
+export const resolveSessionUser = async (req: Request): Promise<SessionResolution> => {
+  const token = extractBearerToken(req);
+
+  if (!token) {
+    return { status: 401, error: 'Необходима авторизация' };
+  }
+
+  const verification = AuthService.verifyToken(token, 'access');
+  if (!verification.success || !verification.payload) {
+    return { status: 401, error: verification.error || 'Недействительный токен' };
+  }
+
+  const user = await User.findByPk(verification.payload.sub);
+  if (!user || Number(user.telegram_id) !== verification.payload.tg) {
+    return { status: 401, error: 'Пользователь не найден' };
+  }
+
+  if (!AuthService.isCurrentVersion(verification.payload, user)) {
+    return { status: 401, error: 'Сессия завершена' };
+  }
+
+  await AbuseProtectionService.liftExpiredBlock(user);
+  if (user.status === 'blocked') {
+    return { status: 403, error: 'Пользователь заблокирован' };
+  }
+
+  return { user };
+};
+
+/**
+ * Middleware для проверки сессии пользователя
+ * Определяет пользователя по токену, выданному /api/auth/telegram, и кладет его в req.user
+ */
+export const requireAuth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const session = await resolveSessionUser(req);
+
+    if (!session.user) {
+      return res.status(session.status || 401).json({
+        success: false,
+        error: session.error
+      });
+    }
+
+    req.user = session.user;
+    next();
+  } catch (error) {
+    console.error('❌ [AUTH] Ошибка проверки сессии:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+};
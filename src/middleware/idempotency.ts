@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { IdempotencyService } from '../services/IdempotencyService';
+
+// Расширяем тип Request для запроса с ключом идемпотентности
+export interface IdempotentRequest extends AuthenticatedRequest {
+  idempotencyKeyId?: number;
+}
+
+/**
+ * Загруженные multer файлы запроса (single, array или fields)
+ */
+const getUploadedFiles = (req: AuthenticatedRequest): Express.Multer.File[] => {
+  const files: Express.Multer.File[] = [];
+  if (req.file) {
+    files.push(req.file);
+  }
+  if (Array.isArray(req.files)) {
+    files.push(...req.files);
+  } else if (req.files) {
+    files.push(...Object.values(req.files).flat());
+  }
+  return files;
+};
+
+/**
+ * Отпечаток запроса: путь, поля тела и содержимое загруженных файлов
+ * Одинаковый ключ с другим отпечатком — это другой запрос
+ */
+const fingerprintRequest = (req: AuthenticatedRequest): string => {
+  const hash = crypto.createHash('sha256');
+  hash.update(`${req.method} ${req.baseUrl}${req.path}\n`);
+
+  const body = req.body || {};
+  for (const field of Object.keys(body).sort()) {
+    hash.update(`${field}=${JSON.stringify(body[field])}\n`);
+  }
+
+  for (const file of getUploadedFiles(req)) {
+    hash.update(`${file.fieldname}:`);
+    hash.update(file.path ? fs.readFileSync(file.path) : file.buffer);
+    hash.update('\n');
+  }
+
+  return hash.digest('hex');
+};
+
+/**
+ * Удалить временные файлы повторного запроса, который не будет выполняться
+ */
+const removeUploadedFiles = (req: AuthenticatedRequest): void => {
+  for (const file of getUploadedFiles(req)) {
+    try {
+      if (file.path && fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    } catch (error) {
+      console.error('❌ [IDEMPOTENCY] Ошибка при удалении временного файла:', error);
+    }
+  }
+};
+
+/**
+ * Middleware идемпотентности для платных эндпоинтов
+ * Подключается после requireAuth и multer. Без заголовка Idempotency-Key запрос выполняется как обычно
+ */
+export const idempotent = async (req: IdempotentRequest, res: Response, next: NextFunction) => {
+  const key = req.header('Idempotency-Key')?.trim();
+  if (!key) {
+    return next();
+  }
+
+  try {
+    if (key.length > IdempotencyService.MAX_KEY_LENGTH) {
+      removeUploadedFiles(req);
+      return res.status(400).json({
+        success: false,
+        error: `Idempotency-Key не должен быть длиннее ${IdempotencyService.MAX_KEY_LENGTH} символов`
+      });
+    }
+
+    const endpoint = `${req.method} ${req.baseUrl}${req.path}`;
+    const { outcome, record } = await IdempotencyService.begin(req.user!.id, key, endpoint, fingerprintRequest(req));
+
+    if (outcome === 'conflict') {
+      removeUploadedFiles(req);
+      return res.status(409).json({
+        success: false,
+        error: 'Idempotency-Key уже использован с другими параметрами запроса'
+      });
+    }
+
+    if (outcome === 'in_progress') {
+      removeUploadedFiles(req);
+      return res.status(409).json({
+        success: false,
+        error: 'Запрос с этим Idempotency-Key еще выполняется'
+      });
+    }
+
+    if (outcome === 'replay') {
+      console.log(`🔁 [IDEMPOTENCY] Повтор запроса ${endpoint} с ключом ${key}, отдаем сохраненный ответ`);
+      removeUploadedFiles(req);
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(record.response_status || 200).json(record.response_body);
+    }
+
+    // Новый ключ: выполняем запрос и сохраняем ответ
+    req.idempotencyKeyId = record.id;
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      // Внутреннюю ошибку не сохраняем: клиент может повторить запрос с тем же ключом
+      const saving = res.statusCode >= 500
+        ? IdempotencyService.abandon(record.id)
+        : IdempotencyService.complete(record.id, res.statusCode, body);
+      saving.catch(error => console.error('❌ [IDEMPOTENCY] Ошибка сохранения ответа:', error));
+      return originalJson(body);
+    };
+
+    next();
+  } catch (error) {
+    console.error('❌ [IDEMPOTENCY] Ошибка обработки Idempotency-Key:', error);
+    removeUploadedFiles(req);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+};
@@ -0,0 +1,72 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { AbuseProtectionService } from '../services/AbuseProtectionService';
+
+/**
+ * Ответ об отказе по лимиту; повторяющиеся отказы ведут к временной блокировке пользователя
+ */
+const rejectRequest = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  error: string,
+  reason: string,
+  retryAfterMs?: number
+) => {
+  const user = req.user!;
+  console.warn(`🚦 [RATE_LIMIT] ${req.method} ${req.path}: отказ пользователю ${user.id} (IP ${req.ip}) — ${reason}`);
+
+  if (await AbuseProtectionService.recordViolation(user, reason)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Пользователь заблокирован'
+    });
+  }
+
+  if (retryAfterMs) {
+    res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+  }
+  return res.status(429).json({
+    success: false,
+    error
+  });
+};
+
+/**
+ * Лимиты для эндпоинтов обработки и загрузки файлов
+ * Подключается после requireAuth и до multer, чтобы отклоненный запрос не загружал файлы
+ */
+export const processingRateLimit = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user!;
+
+    const ipCheck = AbuseProtectionService.hit(`ip:${req.ip}`, AbuseProtectionService.IP_REQUESTS_PER_MINUTE);
+    if (!ipCheck.allowed) {
+      return rejectRequest(req, res, 'Слишком много запросов, попробуйте чуть позже', 'лимит запросов с IP', ipCheck.retryAfterMs);
+    }
+
+    const userCheck = AbuseProtectionService.hit(`user:${user.id}`, AbuseProtectionService.USER_REQUESTS_PER_MINUTE);
+    if (!userCheck.allowed) {
+      return rejectRequest(req, res, 'Слишком много запросов, попробуйте чуть позже', 'лимит запросов пользователя', userCheck.retryAfterMs);
+    }
+
+    if (AbuseProtectionService.MAX_CONCURRENT_JOBS > 0) {
+      const activeJobs = await AbuseProtectionService.countActiveJobs(user.id);
+      if (activeJobs >= AbuseProtectionService.MAX_CONCURRENT_JOBS) {
+        return rejectRequest(
+          req,
+          res,
+          `Одновременно можно обрабатывать не больше ${AbuseProtectionService.MAX_CONCURRENT_JOBS} запросов, дождитесь завершения текущих`,
+          `лимит одновременных задач (${activeJobs})`
+        );
+      }
+    }
+
+    next();
+  } catch (error) {
+    console.error('❌ [RATE_LIMIT] Ошибка проверки лимитов:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+};
@@ -7,6 +7,8 @@ import { up as seedPoetsData } from './migrations/20250115_seed_poets_data';
 import { up as seedPoetStylePrompts } from './migrations/20250115_seed_poet_style_prompts';
 import { up as addPoetStylePrice } from './migrations/20250115_add_poet_style_price';
 import { up as updatePoetSelfiePrompt } from './migrations/20250916_update_poet_selfie_prompt';
+import { up as seedLedgerOpeningBalances } from './migrations/20251019_seed_ledger_opening_balances';
+import { up as seedDefaultSignupCampaign } from './migrations/20251020_seed_default_signup_campaign';
 
 
 async function runMigrations() {
@@ -101,6 +103,14 @@ async function runMigrations() {
       console.error('Ошибка при обновлении промпта для селфи с поэтами:', error);
       throw error;
     }
+
+    // Переносим текущие балансы в журнал операций
+    console.log('Начало заполнения начальных остатков журнала...');
+    await seedLedgerOpeningBalances(sequelize.getQueryInterface());
+
+    // Переносим приветственный бонус из кода в кампании
+    console.log('Начало создания кампании приветственного бонуса...');
+    await seedDefaultSignupCampaign(sequelize.getQueryInterface());
     
     console.log('Все миграции успешно применены!');
     process.exit(0);
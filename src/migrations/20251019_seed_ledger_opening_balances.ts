@@ -0,0 +1,54 @@
+import { QueryInterface, QueryTypes } from 'sequelize';
+import { LedgerService } from '../services/LedgerService';
+
+/**
+ * Переносит текущие users.balance в журнал операций проводкой opening_balance
+ * Записывается разница между users.balance и суммой по журналу: у пользователя могут уже быть записи,
+ * сделанные до запуска миграции. Пользователи с проводкой opening_balance пропускаются, поэтому миграцию можно запускать повторно
+ */
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  console.log('🔄 [MIGRATION] Заполняем начальные остатки журнала операций...');
+
+  const users = await queryInterface.sequelize.query<{ id: number }>(
+    `SELECT u.id
+     FROM users u
+     WHERE NOT EXISTS (
+         SELECT 1 FROM ledger_entries l
+         WHERE l.account = CONCAT('user:', u.id) AND l.entry_type = 'opening_balance'
+       )
+       AND (u.balance <> 0 OR EXISTS (SELECT 1 FROM ledger_entries l WHERE l.account = CONCAT('user:', u.id)))`,
+    { type: QueryTypes.SELECT }
+  );
+
+  let seeded = 0;
+  for (const user of users) {
+    await queryInterface.sequelize.transaction(async (t) => {
+      // Блокировка пользователя: баланс и журнал не меняются, пока считается разница
+      const [row] = await queryInterface.sequelize.query<{ balance: string }>(
+        'SELECT balance FROM users WHERE id = :id FOR UPDATE',
+        { replacements: { id: user.id }, type: QueryTypes.SELECT, transaction: t }
+      );
+      const difference = Math.round((Number(row.balance) - await LedgerService.getUserBalance(user.id, t)) * 100) / 100;
+      if (difference === 0) {
+        return;
+      }
+
+      await LedgerService.post({
+        userId: user.id,
+        amount: difference,
+        entryType: 'opening_balance',
+        description: 'Начальный остаток при переходе на журнал операций',
+        referenceId: `opening_balance_${user.id}`
+      }, t);
+      seeded++;
+    });
+  }
+
+  console.log(`✅ [MIGRATION] Начальные остатки записаны для ${seeded} пользователей`);
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.bulkDelete('ledger_entries', {
+    entry_type: 'opening_balance'
+  }, {});
+};
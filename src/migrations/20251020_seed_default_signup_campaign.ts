@@ -0,0 +1,35 @@
+import { QueryInterface, QueryTypes } from 'sequelize';
+
+/**
+ * Создает кампанию приветственного бонуса, которая раньше была зашита в код (20 RUB всем новым пользователям)
+ * Если кампании уже заведены, ничего не делает, поэтому миграцию можно запускать повторно
+ */
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  console.log('🔄 [MIGRATION] Проверяем кампании приветственного бонуса...');
+
+  const [{ count }] = await queryInterface.sequelize.query<{ count: number }>(
+    'SELECT COUNT(*) AS count FROM signup_campaigns',
+    { type: QueryTypes.SELECT }
+  );
+  if (Number(count) > 0) {
+    console.log('ℹ️  [MIGRATION] Кампании приветственного бонуса уже существуют');
+    return;
+  }
+
+  await queryInterface.bulkInsert('signup_campaigns', [{
+    name: 'Приветственный бонус',
+    bonus_amount: 20,
+    priority: 0,
+    is_active: true,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  }]);
+
+  console.log('✅ [MIGRATION] Создана кампания приветственного бонуса 20 RUB');
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.bulkDelete('signup_campaigns', {
+    name: 'Приветственный бонус'
+  }, {});
+};
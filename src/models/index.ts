@@ -26,10 +26,15 @@ interface UserAttributes {
   last_name?: string;
   balance: number;
   status: 'active' | 'blocked' | 'pending';
+  blocked_reason?: string | null; // причина блокировки, видна администраторам
+  blocked_until?: Date | null; // окончание временной блокировки; null — до снятия администратором
   reg_date: Date;
   last_activity: Date;
   leadtech_contact_id?: number;
   is_admin: boolean;
+  admin_roles?: ('viewer' | 'operator' | 'finance')[] | null;
+  signup_campaign_id?: number | null; // кампания, по которой начислен приветственный бонус
+  token_version?: number; // версия сессий: увеличивается при выходе, токены со старой версией не принимаются
 }
 
 interface UserCreationAttributes extends Optional<UserAttributes, 'id' | 'reg_date' | 'last_activity'> {}
@@ -38,13 +43,17 @@ interface PaymentAttributes {
   id: number;
   user_id: number;
   amount: number;
-  payment_method: 'card' | 'qiwi' | 'yoomoney' | 'sberpay' | 'tinkoff';
+  payment_method: 'card' | 'qiwi' | 'yoomoney' | 'sberpay' | 'tinkoff' | 'telegram_stars';
   transaction_type: 'credit' | 'debit';
   payment_id?: string;
-  status: 'pending' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'refunded';
   payment_date: Date;
   description?: string;
   reference_id?: string;
+  provider?: string | null; // null у зачислений без провайдера (перенос из LeadTech, возвраты за задачи)
+  provider_payment_id?: string;
+  refunded_amount?: number; // возвращено провайдером по пополнению, RUB
+  refund_count?: number; // число попыток возврата: номер возврата входит в ключ идемпотентности у провайдера
 }
 
 interface PaymentCreationAttributes extends Optional<PaymentAttributes, 'id' | 'payment_date'> {}
@@ -78,6 +87,7 @@ interface ApiRequestAttributes {
   status: 'pending' | 'processing' | 'completed' | 'failed';
   cost: number;
   external_task_id?: string;
+  hold_id?: number;
   request_date: Date;
   completed_date?: Date;
   error_message?: string;
@@ -132,6 +142,229 @@ interface PoetAttributes {
 
 interface PoetCreationAttributes extends Optional<PoetAttributes, 'id' | 'created_at' | 'updated_at'> {}
 
+interface AdminApiKeyAttributes {
+  id: number;
+  name: string;
+  key_hash: string;
+  key_prefix: string;
+  roles: ('viewer' | 'operator' | 'finance')[];
+  is_active: boolean;
+  created_by?: number;
+  last_used_at?: Date;
+}
+
+interface AdminApiKeyCreationAttributes extends Optional<AdminApiKeyAttributes, 'id' | 'is_active'> {}
+
+interface AdminAuditLogAttributes {
+  id: number;
+  actor_type: 'user' | 'api_key';
+  actor_id: number;
+  actor_name: string;
+  action: string;
+  entity_type: string;
+  entity_id?: string;
+  before_data?: any;
+  after_data?: any;
+  ip_address?: string;
+  created_at: Date;
+}
+
+interface AdminAuditLogCreationAttributes extends Optional<AdminAuditLogAttributes, 'id' | 'created_at'> {}
+
+interface BalanceHoldAttributes {
+  id: number;
+  user_id: number;
+  amount: number;
+  status: 'held' | 'captured' | 'released';
+  description: string;
+  expires_at: Date;
+  captured_at?: Date;
+  released_at?: Date;
+  payment_id?: number; // списание (payments), созданное при captureHold
+  subscription_id?: number | null; // запрос покрыт квотой подписки, сумма резерва 0
+  service_type?: string | null; // тип услуги, по которому расходуется квота
+  user_pack_id?: number | null; // запрос оплачен купленным пакетом, сумма резерва 0
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface BalanceHoldCreationAttributes extends Optional<BalanceHoldAttributes, 'id' | 'status' | 'createdAt' | 'updatedAt'> {}
+
+type LedgerEntryType = 'opening_balance' | 'welcome_bonus' | 'promo_bonus' | 'referral_bonus' | 'leadtech_transfer' | 'top_up' | 'top_up_refund' | 'job_charge' | 'subscription_charge' | 'pack_charge' | 'refund' | 'admin_adjustment';
+
+interface LedgerEntryAttributes {
+  id: number;
+  transaction_id: string;
+  account: string;
+  user_id?: number;
+  entry_type: LedgerEntryType;
+  amount: number;
+  description: string;
+  reference_id?: string;
+  payment_id?: number;
+  created_at: Date;
+}
+
+interface LedgerEntryCreationAttributes extends Optional<LedgerEntryAttributes, 'id' | 'created_at'> {}
+
+interface IdempotencyKeyAttributes {
+  id: number;
+  user_id: number;
+  idempotency_key: string;
+  endpoint: string;
+  request_hash: string;
+  status: 'processing' | 'completed';
+  response_status?: number;
+  response_body?: any;
+  api_request_id?: number;
+  expires_at: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface JobAttributes {
+  id: number;
+  api_request_id: number;
+  type: string;
+  payload: any;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_by?: string | null;
+  lease_expires_at?: Date | null;
+  last_error?: string;
+  completed_at?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface JobCreationAttributes extends Optional<JobAttributes, 'id' | 'status' | 'attempts' | 'run_at' | 'createdAt' | 'updatedAt'> {}
+
+interface IdempotencyKeyCreationAttributes extends Optional<IdempotencyKeyAttributes, 'id' | 'status' | 'createdAt' | 'updatedAt'> {}
+
+interface PromoCodeAttributes {
+  id: number;
+  code: string; // хранится в верхнем регистре
+  bonus_type: 'amount' | 'percent'; // amount — зачисление суммы, percent — бонус к следующему пополнению
+  value: number; // сумма в рублях или процент
+  max_bonus_amount?: number | null; // ограничение бонуса для percent
+  expires_at?: Date | null;
+  max_redemptions?: number | null; // null — без ограничения
+  per_user_limit: number;
+  redemptions_count: number;
+  is_active: boolean;
+  description?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PromoCodeCreationAttributes extends Optional<PromoCodeAttributes, 'id' | 'per_user_limit' | 'redemptions_count' | 'is_active' | 'createdAt' | 'updatedAt'> {}
+
+interface PromoRedemptionAttributes {
+  id: number;
+  promo_code_id: number;
+  user_id: number;
+  status: 'pending' | 'applied'; // pending — процентный бонус ждет пополнения
+  bonus_amount?: number | null;
+  payment_id?: number | null; // зачисление бонуса (payments)
+  applied_at?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PromoRedemptionCreationAttributes extends Optional<PromoRedemptionAttributes, 'id' | 'createdAt' | 'updatedAt'> {}
+
+interface ReferralAttributes {
+  id: number;
+  referrer_id: number; // пригласивший пользователь
+  referee_id: number; // приглашенный пользователь
+  status: 'pending' | 'rewarded'; // rewarded — бонусы начислены после первой оплаченной задачи приглашенного
+  referrer_bonus?: number | null;
+  referee_bonus?: number | null;
+  api_request_id?: number | null; // первая оплаченная задача приглашенного
+  rewarded_at?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ReferralCreationAttributes extends Optional<ReferralAttributes, 'id' | 'status' | 'createdAt' | 'updatedAt'> {}
+
+interface SignupCampaignAttributes {
+  id: number;
+  name: string;
+  bonus_amount: number; // приветственный бонус в рублях
+  starts_at?: Date | null; // null — без ограничения
+  ends_at?: Date | null;
+  language_codes?: string[] | null; // language_code пользователя из Telegram; null — любой язык
+  signup_source?: string | null; // referral, organic или значение start_param; null — любой источник
+  priority: number; // из подходящих кампаний выбирается кампания с наибольшим приоритетом
+  is_active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface SignupCampaignCreationAttributes extends Optional<SignupCampaignAttributes, 'id' | 'priority' | 'is_active' | 'createdAt' | 'updatedAt'> {}
+
+interface SubscriptionPlanAttributes {
+  id: number;
+  code: string;
+  name: string;
+  description?: string | null;
+  price: number; // стоимость периода в рублях
+  period_days: number;
+  quotas: Record<string, number>; // service_type -> число запросов за период
+  is_active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface SubscriptionPlanCreationAttributes extends Optional<SubscriptionPlanAttributes, 'id' | 'period_days' | 'is_active' | 'createdAt' | 'updatedAt'> {}
+
+interface SubscriptionAttributes {
+  id: number;
+  user_id: number; // у пользователя одна подписка, продление сдвигает период
+  plan_id: number;
+  current_period_start: Date;
+  current_period_end: Date; // подписка действует, пока период не закончился
+  last_payment_id?: number | null; // оплата (payments), продлившая подписку
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface SubscriptionCreationAttributes extends Optional<SubscriptionAttributes, 'id' | 'createdAt' | 'updatedAt'> {}
+
+interface PricingRuleAttributes {
+  id: number;
+  name: string;
+  rule_type: 'sale' | 'tier' | 'pack';
+  service_type?: string | null; // null — правило действует для всех услуг (кроме пакетов)
+  discount_percent: number; // скидка от базовой цены услуги
+  min_lifetime_spend?: number | null; // tier: сумма оплат пользователя за все время, с которой действует скидка
+  pack_size?: number | null; // pack: число запросов в пакете
+  starts_at?: Date | null;
+  ends_at?: Date | null;
+  is_active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PricingRuleCreationAttributes extends Optional<PricingRuleAttributes, 'id' | 'is_active' | 'createdAt' | 'updatedAt'> {}
+
+interface UserPackAttributes {
+  id: number;
+  user_id: number;
+  pricing_rule_id: number;
+  service_type: string;
+  quantity: number; // куплено запросов; остаток считается по резервам пакета
+  price: number; // оплаченная сумма
+  payment_id?: number | null; // списание (payments) за пакет
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface UserPackCreationAttributes extends Optional<UserPackAttributes, 'id' | 'createdAt' | 'updatedAt'> {}
+
 // Модели
 class User extends Model<UserAttributes, UserCreationAttributes> implements UserAttributes {
   public id!: number;
@@ -141,10 +374,15 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
   public last_name?: string;
   public balance!: number;
   public status!: 'active' | 'blocked' | 'pending';
+  public blocked_reason?: string | null;
+  public blocked_until?: Date | null;
   public reg_date!: Date;
   public last_activity!: Date;
   public leadtech_contact_id?: number;
   public is_admin!: boolean;
+  public admin_roles?: ('viewer' | 'operator' | 'finance')[] | null;
+  public signup_campaign_id?: number | null;
+  public token_version?: number;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -154,13 +392,17 @@ class Payment extends Model<PaymentAttributes, PaymentCreationAttributes> implem
   public id!: number;
   public user_id!: number;
   public amount!: number;
-  public payment_method!: 'card' | 'qiwi' | 'yoomoney' | 'sberpay' | 'tinkoff';
+  public payment_method!: 'card' | 'qiwi' | 'yoomoney' | 'sberpay' | 'tinkoff' | 'telegram_stars';
   public transaction_type!: 'credit' | 'debit';
   public payment_id?: string;
-  public status!: 'pending' | 'completed' | 'failed' | 'cancelled';
+  public status!: 'pending' | 'completed' | 'failed' | 'cancelled' | 'refunded';
   public payment_date!: Date;
   public description?: string;
   public reference_id?: string;
+  public provider?: string | null;
+  public provider_payment_id?: string;
+  public refunded_amount?: number;
+  public refund_count?: number;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -196,12 +438,16 @@ class ApiRequest extends Model<ApiRequestAttributes, ApiRequestCreationAttribute
   public status!: 'pending' | 'processing' | 'completed' | 'failed';
   public cost!: number;
   public external_task_id?: string;
+  public hold_id?: number;
   public request_date!: Date;
   public completed_date?: Date;
   public error_message?: string;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
+
+  public job?: Job; // include { as: 'job' }
+  public photo?: Photo; // include { as: 'photo' }
 }
 
 class ServicePrice extends Model<ServicePriceAttributes, ServicePriceCreationAttributes> implements ServicePriceAttributes {
@@ -247,6 +493,217 @@ class Poet extends Model<PoetAttributes, PoetCreationAttributes> implements Poet
   public updated_at!: Date;
 }
 
+class AdminApiKey extends Model<AdminApiKeyAttributes, AdminApiKeyCreationAttributes> implements AdminApiKeyAttributes {
+  public id!: number;
+  public name!: string;
+  public key_hash!: string;
+  public key_prefix!: string;
+  public roles!: ('viewer' | 'operator' | 'finance')[];
+  public is_active!: boolean;
+  public created_by?: number;
+  public last_used_at?: Date;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+class AdminAuditLog extends Model<AdminAuditLogAttributes, AdminAuditLogCreationAttributes> implements AdminAuditLogAttributes {
+  public id!: number;
+  public actor_type!: 'user' | 'api_key';
+  public actor_id!: number;
+  public actor_name!: string;
+  public action!: string;
+  public entity_type!: string;
+  public entity_id?: string;
+  public before_data?: any;
+  public after_data?: any;
+  public ip_address?: string;
+  public created_at!: Date;
+}
+
+class LedgerEntry extends Model<LedgerEntryAttributes, LedgerEntryCreationAttributes> implements LedgerEntryAttributes {
+  public id!: number;
+  public transaction_id!: string;
+  public account!: string;
+  public user_id?: number;
+  public entry_type!: LedgerEntryType;
+  public amount!: number;
+  public description!: string;
+  public reference_id?: string;
+  public payment_id?: number;
+  public created_at!: Date;
+}
+
+class Job extends Model<JobAttributes, JobCreationAttributes> implements JobAttributes {
+  public id!: number;
+  public api_request_id!: number;
+  public type!: string;
+  public payload!: any;
+  public status!: 'queued' | 'running' | 'completed' | 'failed';
+  public attempts!: number;
+  public max_attempts!: number;
+  public run_at!: Date;
+  public locked_by?: string | null;
+  public lease_expires_at?: Date | null;
+  public last_error?: string;
+  public completed_at?: Date;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+class IdempotencyKey extends Model<IdempotencyKeyAttributes, IdempotencyKeyCreationAttributes> implements IdempotencyKeyAttributes {
+  public id!: number;
+  public user_id!: number;
+  public idempotency_key!: string;
+  public endpoint!: string;
+  public request_hash!: string;
+  public status!: 'processing' | 'completed';
+  public response_status?: number;
+  public response_body?: any;
+  public api_request_id?: number;
+  public expires_at!: Date;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+class PromoCode extends Model<PromoCodeAttributes, PromoCodeCreationAttributes> implements PromoCodeAttributes {
+  public id!: number;
+  public code!: string;
+  public bonus_type!: 'amount' | 'percent';
+  public value!: number;
+  public max_bonus_amount?: number | null;
+  public expires_at?: Date | null;
+  public max_redemptions?: number | null;
+  public per_user_limit!: number;
+  public redemptions_count!: number;
+  public is_active!: boolean;
+  public description?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+class PromoRedemption extends Model<PromoRedemptionAttributes, PromoRedemptionCreationAttributes> implements PromoRedemptionAttributes {
+  public id!: number;
+  public promo_code_id!: number;
+  public user_id!: number;
+  public status!: 'pending' | 'applied';
+  public bonus_amount?: number | null;
+  public payment_id?: number | null;
+  public applied_at?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  public promoCode?: PromoCode; // include { as: 'promoCode' }
+}
+
+class Referral extends Model<ReferralAttributes, ReferralCreationAttributes> implements ReferralAttributes {
+  public id!: number;
+  public referrer_id!: number;
+  public referee_id!: number;
+  public status!: 'pending' | 'rewarded';
+  public referrer_bonus?: number | null;
+  public referee_bonus?: number | null;
+  public api_request_id?: number | null;
+  public rewarded_at?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+class SignupCampaign extends Model<SignupCampaignAttributes, SignupCampaignCreationAttributes> implements SignupCampaignAttributes {
+  public id!: number;
+  public name!: string;
+  public bonus_amount!: number;
+  public starts_at?: Date | null;
+  public ends_at?: Date | null;
+  public language_codes?: string[] | null;
+  public signup_source?: string | null;
+  public priority!: number;
+  public is_active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+class SubscriptionPlan extends Model<SubscriptionPlanAttributes, SubscriptionPlanCreationAttributes> implements SubscriptionPlanAttributes {
+  public id!: number;
+  public code!: string;
+  public name!: string;
+  public description?: string | null;
+  public price!: number;
+  public period_days!: number;
+  public quotas!: Record<string, number>;
+  public is_active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+class Subscription extends Model<SubscriptionAttributes, SubscriptionCreationAttributes> implements SubscriptionAttributes {
+  public id!: number;
+  public user_id!: number;
+  public plan_id!: number;
+  public current_period_start!: Date;
+  public current_period_end!: Date;
+  public last_payment_id?: number | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  public plan?: SubscriptionPlan; // include { as: 'plan' }
+}
+
+class PricingRule extends Model<PricingRuleAttributes, PricingRuleCreationAttributes> implements PricingRuleAttributes {
+  public id!: number;
+  public name!: string;
+  public rule_type!: 'sale' | 'tier' | 'pack';
+  public service_type?: string | null;
+  public discount_percent!: number;
+  public min_lifetime_spend?: number | null;
+  public pack_size?: number | null;
+  public starts_at?: Date | null;
+  public ends_at?: Date | null;
+  public is_active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+class UserPack extends Model<UserPackAttributes, UserPackCreationAttributes> implements UserPackAttributes {
+  public id!: number;
+  public user_id!: number;
+  public pricing_rule_id!: number;
+  public service_type!: string;
+  public quantity!: number;
+  public price!: number;
+  public payment_id?: number | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+class BalanceHold extends Model<BalanceHoldAttributes, BalanceHoldCreationAttributes> implements BalanceHoldAttributes {
+  public id!: number;
+  public user_id!: number;
+  public amount!: number;
+  public status!: 'held' | 'captured' | 'released';
+  public description!: string;
+  public expires_at!: Date;
+  public captured_at?: Date;
+  public released_at?: Date;
+  public payment_id?: number;
+  public subscription_id?: number | null;
+  public service_type?: string | null;
+  public user_pack_id?: number | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
 // Инициализация моделей
 User.init({
   id: {
@@ -284,6 +741,14 @@ User.init({
     type: DataTypes.ENUM('active', 'blocked', 'pending'),
     defaultValue: 'active'
   },
+  blocked_reason: {
+    type: DataTypes.STRING(255),
+    allowNull: true
+  },
+  blocked_until: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
   reg_date: { 
     type: DataTypes.DATE, 
     defaultValue: DataTypes.NOW 
@@ -296,6 +761,19 @@ User.init({
     type: DataTypes.BOOLEAN,
     allowNull: false,
     defaultValue: false
+  },
+  admin_roles: {
+    type: DataTypes.JSON,
+    allowNull: true
+  },
+  signup_campaign_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true
+  },
+  token_version: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
   }
 }, {
   sequelize,
@@ -322,7 +800,7 @@ Payment.init({
     allowNull: false,
   },
   payment_method: {
-    type: DataTypes.ENUM('card', 'qiwi', 'yoomoney', 'sberpay', 'tinkoff'),
+    type: DataTypes.ENUM('card', 'qiwi', 'yoomoney', 'sberpay', 'tinkoff', 'telegram_stars'),
     allowNull: false
   },
   transaction_type: {
@@ -334,7 +812,7 @@ Payment.init({
     allowNull: true,
   },
   status: {
-    type: DataTypes.ENUM('pending', 'completed', 'failed', 'cancelled'),
+    type: DataTypes.ENUM('pending', 'completed', 'failed', 'cancelled', 'refunded'),
     defaultValue: 'pending'
   },
   payment_date: {
@@ -348,6 +826,24 @@ Payment.init({
   reference_id: {
     type: DataTypes.STRING(100),
     allowNull: true
+  },
+  provider: {
+    type: DataTypes.STRING(30),
+    allowNull: true
+  },
+  provider_payment_id: {
+    type: DataTypes.STRING(100),
+    allowNull: true
+  },
+  refunded_amount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+    defaultValue: 0
+  },
+  refund_count: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
   }
 }, {
   sequelize,
@@ -470,6 +966,10 @@ ApiRequest.init({
     type: DataTypes.STRING(250),
     allowNull: true,
   },
+  hold_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+  },
   request_date: { 
     type: DataTypes.DATE,
     defaultValue: DataTypes.NOW 
@@ -653,17 +1153,930 @@ Poet.init({
   updatedAt: 'updated_at'
 });
 
-// Связи между моделями
-User.hasMany(Payment, { foreignKey: 'user_id', as: 'payments' });
-Payment.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
-
-User.hasMany(Photo, { foreignKey: 'user_id', as: 'photos' });
-Photo.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
-
-User.hasMany(ApiRequest, { foreignKey: 'user_id', as: 'requests' });
-ApiRequest.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
-
-Photo.hasMany(ApiRequest, { foreignKey: 'photo_id', as: 'requests' });
-ApiRequest.belongsTo(Photo, { foreignKey: 'photo_id', as: 'photo' });
+AdminApiKey.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  name: {
+    type: DataTypes.STRING(100),
+    allowNull: false,
+  },
+  key_hash: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+    unique: true,
+  },
+  key_prefix: {
+    type: DataTypes.STRING(12),
+    allowNull: false,
+  },
+  roles: {
+    type: DataTypes.JSON,
+    allowNull: false,
+  },
+  is_active: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  },
+  created_by: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  },
+  last_used_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  }
+}, {
+  sequelize,
+  tableName: 'admin_api_keys',
+  timestamps: true
+});
+
+AdminAuditLog.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  actor_type: {
+    type: DataTypes.ENUM('user', 'api_key'),
+    allowNull: false,
+  },
+  actor_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+  },
+  actor_name: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+  action: {
+    type: DataTypes.STRING(100),
+    allowNull: false,
+  },
+  entity_type: {
+    type: DataTypes.STRING(50),
+    allowNull: false,
+  },
+  entity_id: {
+    type: DataTypes.STRING(100),
+    allowNull: true,
+  },
+  before_data: {
+    type: DataTypes.JSON,
+    allowNull: true,
+  },
+  after_data: {
+    type: DataTypes.JSON,
+    allowNull: true,
+  },
+  ip_address: {
+    type: DataTypes.STRING(45),
+    allowNull: true,
+  },
+  created_at: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW,
+  }
+}, {
+  sequelize,
+  tableName: 'admin_audit_logs',
+  timestamps: false,
+  indexes: [
+    { fields: ['entity_type', 'entity_id'] },
+    { fields: ['actor_type', 'actor_id'] },
+    { fields: ['created_at'] }
+  ]
+});
+
+BalanceHold.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  user_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  },
+  amount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+  status: {
+    type: DataTypes.ENUM('held', 'captured', 'released'),
+    allowNull: false,
+    defaultValue: 'held',
+  },
+  description: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+  expires_at: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+  captured_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  released_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  payment_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+    references: {
+      model: Payment,
+      key: 'id'
+    }
+  },
+  subscription_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true
+  },
+  service_type: {
+    type: DataTypes.STRING(50),
+    allowNull: true
+  },
+  user_pack_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true
+  },
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  }
+}, {
+  sequelize,
+  tableName: 'balance_holds',
+  timestamps: true,
+  indexes: [
+    { fields: ['user_id', 'status'] },
+    { fields: ['status', 'expires_at'] }
+  ]
+});
+
+LedgerEntry.init({
+  id: {
+    type: DataTypes.BIGINT,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  transaction_id: {
+    type: DataTypes.STRING(36),
+    allowNull: false,
+  },
+  account: {
+    type: DataTypes.STRING(50),
+    allowNull: false,
+  },
+  user_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  },
+  entry_type: {
+    type: DataTypes.ENUM('opening_balance', 'welcome_bonus', 'promo_bonus', 'referral_bonus', 'leadtech_transfer', 'top_up', 'top_up_refund', 'job_charge', 'subscription_charge', 'pack_charge', 'refund', 'admin_adjustment'),
+    allowNull: false,
+  },
+  amount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+  description: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+  reference_id: {
+    type: DataTypes.STRING(100),
+    allowNull: true,
+  },
+  payment_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+    references: {
+      model: Payment,
+      key: 'id'
+    }
+  },
+  created_at: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW,
+  }
+}, {
+  sequelize,
+  tableName: 'ledger_entries',
+  timestamps: false,
+  indexes: [
+    { fields: ['account'] },
+    { fields: ['user_id'] },
+    { fields: ['transaction_id'] },
+    { fields: ['reference_id'] }
+  ]
+});
+
+Job.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  api_request_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    unique: true,
+    references: {
+      model: ApiRequest,
+      key: 'id'
+    }
+  },
+  type: {
+    type: DataTypes.STRING(50),
+    allowNull: false,
+  },
+  payload: {
+    type: DataTypes.JSON,
+    allowNull: false,
+  },
+  status: {
+    type: DataTypes.ENUM('queued', 'running', 'completed', 'failed'),
+    allowNull: false,
+    defaultValue: 'queued',
+  },
+  attempts: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  },
+  max_attempts: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+  },
+  run_at: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW,
+  },
+  locked_by: {
+    type: DataTypes.STRING(100),
+    allowNull: true,
+  },
+  lease_expires_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  last_error: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  },
+  completed_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  }
+}, {
+  sequelize,
+  tableName: 'jobs',
+  timestamps: true,
+  indexes: [
+    { fields: ['status', 'run_at'] },
+    { fields: ['status', 'lease_expires_at'] }
+  ]
+});
+
+IdempotencyKey.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  user_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  },
+  idempotency_key: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+  endpoint: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+  request_hash: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+  },
+  status: {
+    type: DataTypes.ENUM('processing', 'completed'),
+    allowNull: false,
+    defaultValue: 'processing',
+  },
+  response_status: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+  },
+  response_body: {
+    type: DataTypes.JSON,
+    allowNull: true,
+  },
+  api_request_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+    references: {
+      model: ApiRequest,
+      key: 'id'
+    }
+  },
+  expires_at: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  }
+}, {
+  sequelize,
+  tableName: 'idempotency_keys',
+  timestamps: true,
+  indexes: [
+    { unique: true, fields: ['user_id', 'idempotency_key'] },
+    { fields: ['expires_at'] }
+  ]
+});
+
+PromoCode.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  code: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+    unique: true,
+  },
+  bonus_type: {
+    type: DataTypes.ENUM('amount', 'percent'),
+    allowNull: false,
+  },
+  value: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+  max_bonus_amount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: true,
+  },
+  expires_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  max_redemptions: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+  },
+  per_user_limit: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 1,
+  },
+  redemptions_count: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  },
+  is_active: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  },
+  description: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+  },
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  }
+}, {
+  sequelize,
+  tableName: 'promo_codes',
+  timestamps: true
+});
+
+PromoRedemption.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  promo_code_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    references: {
+      model: PromoCode,
+      key: 'id'
+    }
+  },
+  user_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  },
+  status: {
+    type: DataTypes.ENUM('pending', 'applied'),
+    allowNull: false,
+  },
+  bonus_amount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: true,
+  },
+  payment_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+    references: {
+      model: Payment,
+      key: 'id'
+    }
+  },
+  applied_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  }
+}, {
+  sequelize,
+  tableName: 'promo_redemptions',
+  timestamps: true,
+  indexes: [
+    { fields: ['promo_code_id', 'user_id'] },
+    { fields: ['user_id', 'status'] }
+  ]
+});
+
+Referral.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  referrer_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  },
+  referee_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    unique: true,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  },
+  status: {
+    type: DataTypes.ENUM('pending', 'rewarded'),
+    allowNull: false,
+    defaultValue: 'pending',
+  },
+  referrer_bonus: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: true,
+  },
+  referee_bonus: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: true,
+  },
+  api_request_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+    references: {
+      model: ApiRequest,
+      key: 'id'
+    }
+  },
+  rewarded_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  }
+}, {
+  sequelize,
+  tableName: 'referrals',
+  timestamps: true,
+  indexes: [
+    { fields: ['referrer_id'] }
+  ]
+});
+
+SignupCampaign.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  name: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+  bonus_amount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+  starts_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  ends_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  language_codes: {
+    type: DataTypes.JSON,
+    allowNull: true,
+  },
+  signup_source: {
+    type: DataTypes.STRING(64),
+    allowNull: true,
+  },
+  priority: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  },
+  is_active: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  },
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  }
+}, {
+  sequelize,
+  tableName: 'signup_campaigns',
+  timestamps: true
+});
+
+SubscriptionPlan.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  code: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+    unique: true,
+  },
+  name: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+  description: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  },
+  price: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+  period_days: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 30,
+  },
+  quotas: {
+    type: DataTypes.JSON,
+    allowNull: false,
+  },
+  is_active: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  },
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  }
+}, {
+  sequelize,
+  tableName: 'subscription_plans',
+  timestamps: true
+});
+
+Subscription.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  user_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    unique: true,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  },
+  plan_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    references: {
+      model: SubscriptionPlan,
+      key: 'id'
+    }
+  },
+  current_period_start: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+  current_period_end: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+  last_payment_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+    references: {
+      model: Payment,
+      key: 'id'
+    }
+  },
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  }
+}, {
+  sequelize,
+  tableName: 'subscriptions',
+  timestamps: true
+});
+
+PricingRule.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  name: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+  rule_type: {
+    type: DataTypes.ENUM('sale', 'tier', 'pack'),
+    allowNull: false,
+  },
+  service_type: {
+    type: DataTypes.STRING(50),
+    allowNull: true,
+  },
+  discount_percent: {
+    type: DataTypes.DECIMAL(5, 2),
+    allowNull: false,
+  },
+  min_lifetime_spend: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: true,
+  },
+  pack_size: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+  },
+  starts_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  ends_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  is_active: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  },
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  }
+}, {
+  sequelize,
+  tableName: 'pricing_rules',
+  timestamps: true
+});
+
+UserPack.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  user_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  },
+  pricing_rule_id: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    references: {
+      model: PricingRule,
+      key: 'id'
+    }
+  },
+  service_type: {
+    type: DataTypes.STRING(50),
+    allowNull: false,
+  },
+  quantity: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+  },
+  price: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+  payment_id: {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+    references: {
+      model: Payment,
+      key: 'id'
+    }
+  },
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  }
+}, {
+  sequelize,
+  tableName: 'user_packs',
+  timestamps: true,
+  indexes: [
+    { fields: ['user_id', 'service_type'] }
+  ]
+});
+
+// Журнал только дополняется: исправления вносятся новыми проводками, а не правкой старых
+const rejectLedgerMutation = () => {
+  throw new Error('ledger_entries доступен только для добавления записей');
+};
+LedgerEntry.addHook('beforeUpdate', rejectLedgerMutation);
+LedgerEntry.addHook('beforeDestroy', rejectLedgerMutation);
+LedgerEntry.addHook('beforeBulkUpdate', rejectLedgerMutation);
+LedgerEntry.addHook('beforeBulkDestroy', rejectLedgerMutation);
+
+// Связи между моделями
+User.hasMany(Payment, { foreignKey: 'user_id', as: 'payments' });
+Payment.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+User.hasMany(Photo, { foreignKey: 'user_id', as: 'photos' });
+Photo.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+User.hasMany(ApiRequest, { foreignKey: 'user_id', as: 'requests' });
+ApiRequest.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+Photo.hasMany(ApiRequest, { foreignKey: 'photo_id', as: 'requests' });
+ApiRequest.belongsTo(Photo, { foreignKey: 'photo_id', as: 'photo' });
+
+User.hasMany(BalanceHold, { foreignKey: 'user_id', as: 'holds' });
+BalanceHold.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+User.hasMany(LedgerEntry, { foreignKey: 'user_id', as: 'ledgerEntries' });
+LedgerEntry.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+ApiRequest.hasOne(Job, { foreignKey: 'api_request_id', as: 'job' });
+Job.belongsTo(ApiRequest, { foreignKey: 'api_request_id', as: 'apiRequest' });
+
+IdempotencyKey.belongsTo(ApiRequest, { foreignKey: 'api_request_id', as: 'apiRequest' });
+
+PromoCode.hasMany(PromoRedemption, { foreignKey: 'promo_code_id', as: 'redemptions' });
+PromoRedemption.belongsTo(PromoCode, { foreignKey: 'promo_code_id', as: 'promoCode' });
+User.hasMany(PromoRedemption, { foreignKey: 'user_id', as: 'promoRedemptions' });
+
+Referral.belongsTo(User, { foreignKey: 'referrer_id', as: 'referrer' });
+Referral.belongsTo(User, { foreignKey: 'referee_id', as: 'referee' });
+
+User.belongsTo(SignupCampaign, { foreignKey: 'signup_campaign_id', as: 'signupCampaign' });
+SignupCampaign.hasMany(User, { foreignKey: 'signup_campaign_id', as: 'users' });
+
+User.hasOne(Subscription, { foreignKey: 'user_id', as: 'subscription' });
+Subscription.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+Subscription.belongsTo(SubscriptionPlan, { foreignKey: 'plan_id', as: 'plan' });
+BalanceHold.belongsTo(Subscription, { foreignKey: 'subscription_id', as: 'subscription' });
+User.hasMany(UserPack, { foreignKey: 'user_id', as: 'packs' });
+UserPack.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+UserPack.belongsTo(PricingRule, { foreignKey: 'pricing_rule_id', as: 'rule' });
+BalanceHold.belongsTo(UserPack, { foreignKey: 'user_pack_id', as: 'pack' });
 
-export { sequelize, User, Payment, Photo, ApiRequest, ServicePrice, Prompt, Poet };
+export { sequelize, User, Payment, Photo, ApiRequest, ServicePrice, Prompt, Poet, AdminApiKey, AdminAuditLog, BalanceHold, LedgerEntry, IdempotencyKey, Job, PromoCode, PromoRedemption, Referral, SignupCampaign, SubscriptionPlan, Subscription, PricingRule, UserPack };
@@ -1,57 +1,35 @@
 import express, { Request, Response } from 'express';
 import { Op } from 'sequelize';
-import { ApiRequest, Photo, User } from '../models/index';
+import { ApiRequest, Photo, User, AdminApiKey, PromoCode, SignupCampaign, SubscriptionPlan, PricingRule } from '../models/index';
 import { PhotoRestorationService } from '../services/PhotoRestorationService';
 import { PhotoStylizationService } from '../services/PhotoStylizationService';
 import { EraStyleService } from '../services/EraStyleService';
 import { PoetStyleService } from '../services/PoetStyleService';
 import { ImageGenerationService } from '../services/ImageGenerationService';
 import { TelegramBotService } from '../services/TelegramBotService';
+import { BalanceService } from '../services/BalanceService';
+import { JobQueueService } from '../services/JobQueueService';
+import { AdminAuthService } from '../services/AdminAuthService';
+import { AuditService } from '../services/AuditService';
+import { PaymentService } from '../services/PaymentService';
+import { LedgerService } from '../services/LedgerService';
+import { IdempotencyService } from '../services/IdempotencyService';
+import { ResilienceService } from '../services/ResilienceService';
+import { GenerationLimiterService } from '../services/GenerationLimiterService';
+import { GeminiKeyPool } from '../services/generation/GeminiKeyPool';
+import { AbuseProtectionService } from '../services/AbuseProtectionService';
+import { PromoCodeService } from '../services/PromoCodeService';
+import { SignupCampaignService } from '../services/SignupCampaignService';
+import { SubscriptionService } from '../services/SubscriptionService';
+import { PriceService } from '../services/PriceService';
+import { requireAdminRole, AdminRequest } from '../middleware/adminAuth';
 
 const router = express.Router();
 
-// Middleware для проверки админских прав
-const requireAdmin = async (req: Request, res: Response, next: Function) => {
-  try {
-    // Для GET запросов userId в query, для POST - в body
-    const userId = req.method === 'GET' ? req.query.userId : req.body.userId;
-    
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Необходима авторизация'
-      });
-    }
-
-    const user = await User.findByPk(userId);
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        error: 'Пользователь не найден'
-      });
-    }
-
-    if (!user.is_admin) {
-      return res.status(403).json({
-        success: false,
-        error: 'Доступ запрещен. Требуются права администратора'
-      });
-    }
-
-    next();
-  } catch (error) {
-    console.error('❌ [ADMIN] Ошибка проверки прав доступа:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Внутренняя ошибка сервера'
-    });
-  }
-};
-
 /**
  * Получить список всех API запросов с пагинацией
  */
-router.get('/api-requests', requireAdmin, async (req: Request, res: Response) => {
+router.get('/api-requests', requireAdminRole('viewer'), async (req: Request, res: Response) => {
   try {
     const { page = 1, limit = 20, status, request_type } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
@@ -104,7 +82,7 @@ router.get('/api-requests', requireAdmin, async (req: Request, res: Response) =>
 /**
  * Получить детали конкретного API запроса
  */
-router.get('/api-requests/:id', requireAdmin, async (req: Request, res: Response) => {
+router.get('/api-requests/:id', requireAdminRole('viewer'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     
@@ -147,7 +125,7 @@ router.get('/api-requests/:id', requireAdmin, async (req: Request, res: Response
 /**
  * Перезапустить конкретную зависшую задачу
  */
-router.post('/stuck-tasks/:id/restart', requireAdmin, async (req: Request, res: Response) => {
+router.post('/stuck-tasks/:id/restart', requireAdminRole('operator'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
@@ -169,6 +147,14 @@ router.post('/stuck-tasks/:id/restart', requireAdmin, async (req: Request, res:
       });
     }
 
+    // Задачу еще ведет воркер очереди: перезапуск выполнил бы ту же работу дважды
+    if (await JobQueueService.hasActiveJob(stuckTask.id)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Задача еще в очереди или обрабатывается воркером'
+      });
+    }
+
     // Сначала помечаем как failed
     await stuckTask.update({
       status: 'failed',
@@ -176,6 +162,11 @@ router.post('/stuck-tasks/:id/restart', requireAdmin, async (req: Request, res:
       completed_date: new Date()
     });
 
+    // Исходная задача уже не завершится, снимаем ее резерв
+    if (stuckTask.hold_id) {
+      await BalanceService.releaseHold(stuckTask.hold_id, `зависшая задача ${stuckTask.id}`);
+    }
+
     // Теперь перезапускаем через обычный механизм retry
     const requestData = JSON.parse(stuckTask.request_data || '{}');
     const user = await User.findByPk(stuckTask.user_id);
@@ -310,6 +301,11 @@ router.post('/stuck-tasks/:id/restart', requireAdmin, async (req: Request, res:
       console.log(`❌ [ADMIN] Зависшая задача ${stuckTask.id} завершилась с ошибкой, уведомление не отправляется`);
     }
 
+    // Перезапуск не дал результата: если оплата исходной задачи была списана, возвращаем ее
+    if (stuckTask.status === 'failed') {
+      await BalanceService.compensateFailedRequest(stuckTask, 'зависшая задача не выполнена после перезапуска');
+    }
+
     res.json({
       success: result.success,
       message: result.success ? 'Зависшая задача перезапущена успешно' : 'Зависшая задача перезапущена с ошибкой',
@@ -331,7 +327,7 @@ router.post('/stuck-tasks/:id/restart', requireAdmin, async (req: Request, res:
 /**
  * Перезапустить обработку API запроса
  */
-router.post('/api-requests/:id/retry', requireAdmin, async (req: Request, res: Response) => {
+router.post('/api-requests/:id/retry', requireAdminRole('operator'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     
@@ -343,6 +339,14 @@ router.post('/api-requests/:id/retry', requireAdmin, async (req: Request, res: R
       });
     }
 
+    // Задачу еще ведет воркер очереди: перезапуск выполнил бы ту же работу дважды
+    if (await JobQueueService.hasActiveJob(apiRequest.id)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Задача еще в очереди или обрабатывается воркером'
+      });
+    }
+
     // Обновляем статус на processing
     await apiRequest.update({
       status: 'processing',
@@ -522,7 +526,7 @@ router.post('/api-requests/:id/retry', requireAdmin, async (req: Request, res: R
 /**
  * Получить список зависших задач (processing более 10 минут)
  */
-router.get('/stuck-tasks', requireAdmin, async (req: Request, res: Response) => {
+router.get('/stuck-tasks', requireAdminRole('viewer'), async (req: Request, res: Response) => {
   try {
     const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
     
@@ -569,7 +573,7 @@ router.get('/stuck-tasks', requireAdmin, async (req: Request, res: Response) =>
 /**
  * Автоматическая очистка зависших задач (помечает как failed)
  */
-router.post('/stuck-tasks/auto-cleanup', requireAdmin, async (req: Request, res: Response) => {
+router.post('/stuck-tasks/auto-cleanup', requireAdminRole('operator'), async (req: Request, res: Response) => {
   try {
     const { thresholdMinutes = 10 } = req.body;
     const thresholdTime = new Date(Date.now() - thresholdMinutes * 60 * 1000);
@@ -597,12 +601,25 @@ router.post('/stuck-tasks/auto-cleanup', requireAdmin, async (req: Request, res:
 
     for (const task of stuckTasks) {
       try {
+        // Задачу еще ведет воркер очереди: она завершится или провалится сама
+        if (await JobQueueService.hasActiveJob(task.id)) {
+          results.push({
+            id: task.id,
+            request_type: task.request_type,
+            updatedAt: task.updatedAt,
+            status: 'skipped_active_job'
+          });
+          continue;
+        }
+
         await task.update({
           status: 'failed',
           error_message: `Задача автоматически остановлена (обработка более ${thresholdMinutes} минут)`,
           completed_date: new Date()
         });
 
+        await BalanceService.compensateFailedRequest(task, `зависшая задача ${task.id}`);
+
         results.push({
           id: task.id,
           request_type: task.request_type,
@@ -622,6 +639,9 @@ router.post('/stuck-tasks/auto-cleanup', requireAdmin, async (req: Request, res:
       }
     }
 
+    const releasedHolds = await BalanceService.releaseExpiredHolds();
+    const removedIdempotencyKeys = await IdempotencyService.cleanupExpired();
+
     console.log(`🧹 [ADMIN] Автоматическая очистка: обработано ${stuckTasks.length} зависших задач`);
 
     res.json({
@@ -631,6 +651,8 @@ router.post('/stuck-tasks/auto-cleanup', requireAdmin, async (req: Request, res:
         total: stuckTasks.length,
         cleaned: successCount,
         errors: errorCount,
+        releasedHolds,
+        removedIdempotencyKeys,
         thresholdMinutes,
         results
       }
@@ -648,7 +670,7 @@ router.post('/stuck-tasks/auto-cleanup', requireAdmin, async (req: Request, res:
 /**
  * Перезапустить все зависшие задачи
  */
-router.post('/stuck-tasks/restart-all', requireAdmin, async (req: Request, res: Response) => {
+router.post('/stuck-tasks/restart-all', requireAdminRole('operator'), async (req: Request, res: Response) => {
   try {
     const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
     
@@ -675,6 +697,17 @@ router.post('/stuck-tasks/restart-all', requireAdmin, async (req: Request, res:
 
     for (const task of stuckTasks) {
       try {
+        // Задачу еще ведет воркер очереди: она завершится или провалится сама
+        if (await JobQueueService.hasActiveJob(task.id)) {
+          results.push({
+            id: task.id,
+            request_type: task.request_type,
+            status: 'skipped_active_job',
+            message: 'Задача еще в очереди или обрабатывается воркером'
+          });
+          continue;
+        }
+
         // Обновляем статус на failed с пометкой о зависании
         await task.update({
           status: 'failed',
@@ -682,6 +715,8 @@ router.post('/stuck-tasks/restart-all', requireAdmin, async (req: Request, res:
           completed_date: new Date()
         });
 
+        await BalanceService.compensateFailedRequest(task, `зависшая задача ${task.id}`);
+
         results.push({
           id: task.id,
           request_type: task.request_type,
@@ -724,7 +759,7 @@ router.post('/stuck-tasks/restart-all', requireAdmin, async (req: Request, res:
 /**
  * Отправить тестовое уведомление в Telegram
  */
-router.post('/test-notification', requireAdmin, async (req: Request, res: Response) => {
+router.post('/test-notification', requireAdminRole('operator'), async (req: Request, res: Response) => {
   try {
     const { telegramId, message } = req.body;
     
@@ -764,7 +799,7 @@ router.post('/test-notification', requireAdmin, async (req: Request, res: Respon
 /**
  * Получить статистику API запросов
  */
-router.get('/stats', requireAdmin, async (req: Request, res: Response) => {
+router.get('/stats', requireAdminRole('viewer'), async (req: Request, res: Response) => {
   try {
     const totalRequests = await ApiRequest.count();
     const completedRequests = await ApiRequest.count({ where: { status: 'completed' } });
@@ -811,7 +846,14 @@ router.get('/stats', requireAdmin, async (req: Request, res: Response) => {
         processing: processingRequests,
         stuck: stuckRequests,
         byType: requestsByType,
-        byStatus: requestsByStatus
+        byStatus: requestsByStatus,
+        // Состояние провайдеров генерации и метрики повторов (с запуска процесса)
+        generation: {
+          providers: ResilienceService.getProviderHealth(),
+          metrics: ResilienceService.getMetrics(),
+          limits: GenerationLimiterService.getStats(),
+          geminiKeys: GeminiKeyPool.getStats()
+        }
       }
     });
   } catch (error) {
@@ -823,4 +865,961 @@ router.get('/stats', requireAdmin, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Получить информацию о текущем администраторе и его ролях
+ */
+router.get('/me', requireAdminRole('viewer'), async (req: AdminRequest, res: Response) => {
+  res.json({
+    success: true,
+    data: req.admin
+  });
+});
+
+/**
+ * Ручная корректировка баланса пользователя (роль finance)
+ */
+router.post('/users/:id/balance-adjustment', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { amount, reason } = req.body;
+    const numericAmount = Number(amount);
+
+    if (!numericAmount || isNaN(numericAmount) || !reason) {
+      return res.status(400).json({
+        success: false,
+        error: 'Необходимо указать ненулевую сумму amount и причину reason'
+      });
+    }
+
+    const adminLabel = AdminAuthService.describe(req.admin!);
+    const result = await BalanceService.adjustBalance(
+      Number(id),
+      numericAmount,
+      `Корректировка администратором: ${reason}`,
+      `admin_adjustment_${req.admin!.type}_${req.admin!.id}_${Date.now()}`
+    );
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    console.log(`💰 [ADMIN] ${adminLabel} скорректировал баланс пользователя ${id} на ${numericAmount} RUB: ${reason}`);
+
+    await AuditService.record(req.admin!, {
+      action: 'balance.adjust',
+      entityType: 'user',
+      entityId: id,
+      after: { amount: numericAmount, reason, balance: result.balance }
+    }, req);
+
+    res.json({
+      success: true,
+      data: {
+        userId: Number(id),
+        balance: result.balance
+      }
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при корректировке баланса:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Журнал операций с балансом пользователя (роль finance)
+ */
+router.get('/users/:id/ledger', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const userId = Number(req.params.id);
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'Пользователь не найден'
+      });
+    }
+
+    const [entries, ledgerBalance] = await Promise.all([
+      LedgerService.getUserEntries(userId, limit),
+      LedgerService.getUserBalance(userId)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        userId,
+        cachedBalance: Number(user.balance),
+        ledgerBalance,
+        entries
+      }
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при получении журнала баланса:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Сверить кэш users.balance с журналом операций (роль finance)
+ */
+router.get('/ledger/reconciliation', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const report = await LedgerService.reconcile();
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при сверке журнала:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Вернуть пополнение через платежного провайдера (роль finance)
+ */
+router.post('/payments/:paymentId/refund', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+    const { amount } = req.body;
+
+    const result = await PaymentService.refundTopUp(paymentId, amount !== undefined ? Number(amount) : undefined);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    await AuditService.record(req.admin!, {
+      action: 'payment.refund',
+      entityType: 'payment',
+      entityId: paymentId,
+      after: { amount, providerRefundId: result.providerRefundId, balance: result.balance }
+    }, req);
+
+    res.json({
+      success: true,
+      data: {
+        paymentId,
+        providerRefundId: result.providerRefundId,
+        balance: result.balance
+      }
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при возврате платежа:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Вернуть пользователю оплату запроса обработки (роль finance)
+ * Запрос может быть в любом статусе; по одному запросу возврат выполняется один раз
+ */
+router.post('/api-requests/:id/refund', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (!reason || typeof reason !== 'string' || reason.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Необходимо указать причину возврата'
+      });
+    }
+
+    const apiRequest = await ApiRequest.findByPk(id);
+    if (!apiRequest) {
+      return res.status(404).json({
+        success: false,
+        error: 'API запрос не найден'
+      });
+    }
+    const apiRequestId = apiRequest.id;
+
+    const result = await BalanceService.refundApiRequest(apiRequestId, `${reason.trim()} (${AdminAuthService.describe(req.admin!)})`);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    if (!result.alreadyRefunded) {
+      await AuditService.record(req.admin!, {
+        action: 'api_request.refund',
+        entityType: 'api_request',
+        entityId: apiRequestId,
+        after: { amount: result.amount, refundPaymentId: result.refundPaymentId, balance: result.balance, reason: reason.trim() }
+      }, req);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        apiRequestId,
+        amount: result.amount,
+        refundPaymentId: result.refundPaymentId,
+        alreadyRefunded: result.alreadyRefunded || false,
+        balance: result.balance
+      }
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при возврате оплаты запроса:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Назначить админские роли пользователю (только суперадмин)
+ */
+router.put('/users/:id/roles', requireAdminRole(), async (req: AdminRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { roles } = req.body;
+
+    if (!Array.isArray(roles) || !roles.every(role => AdminAuthService.isValidRole(role))) {
+      return res.status(400).json({
+        success: false,
+        error: 'roles должен быть массивом из значений: viewer, operator, finance'
+      });
+    }
+
+    const user = await User.findByPk(id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'Пользователь не найден'
+      });
+    }
+
+    const previousRoles = user.admin_roles || [];
+    await user.update({ admin_roles: roles.length > 0 ? roles : null });
+
+    await AuditService.record(req.admin!, {
+      action: 'user.roles_update',
+      entityType: 'user',
+      entityId: user.id,
+      before: { roles: previousRoles },
+      after: { roles }
+    }, req);
+    console.log(`🔑 [ADMIN] ${AdminAuthService.describe(req.admin!)} назначил пользователю ${id} роли: ${roles.join(', ') || 'нет'}`);
+
+    res.json({
+      success: true,
+      data: {
+        userId: user.id,
+        roles: user.admin_roles || []
+      }
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при назначении ролей:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Заблокированные пользователи с причиной и сроком блокировки
+ */
+router.get('/users/blocked', requireAdminRole('viewer'), async (req: AdminRequest, res: Response) => {
+  try {
+    const users = await User.findAll({
+      where: { status: 'blocked' },
+      attributes: ['id', 'telegram_id', 'username', 'first_name', 'last_name', 'blocked_reason', 'blocked_until', 'updatedAt'],
+      order: [['updatedAt', 'DESC']]
+    });
+
+    res.json({
+      success: true,
+      data: users
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при получении заблокированных пользователей:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Снять блокировку пользователя (автоматическую или ручную)
+ */
+router.post('/users/:id/unblock', requireAdminRole('operator'), async (req: AdminRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findByPk(id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'Пользователь не найден'
+      });
+    }
+
+    if (user.status !== 'blocked') {
+      return res.status(400).json({
+        success: false,
+        error: 'Пользователь не заблокирован'
+      });
+    }
+
+    const before = { status: user.status, reason: user.blocked_reason, until: user.blocked_until };
+    await AbuseProtectionService.unblockUser(user);
+
+    await AuditService.record(req.admin!, {
+      action: 'user.unblock',
+      entityType: 'user',
+      entityId: user.id,
+      before,
+      after: { status: user.status }
+    }, req);
+    console.log(`🔓 [ADMIN] ${AdminAuthService.describe(req.admin!)} разблокировал пользователя ${id}`);
+
+    res.json({
+      success: true,
+      data: {
+        userId: user.id,
+        status: user.status
+      }
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при разблокировке пользователя:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Получить список промокодов
+ * По умолчанию только действующие, ?all=true — включая отключенные и истекшие
+ */
+router.get('/promo-codes', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const promoCodes = await PromoCodeService.list(req.query.all === 'true');
+
+    res.json({
+      success: true,
+      data: promoCodes
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при получении промокодов:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Создать промокод
+ */
+router.post('/promo-codes', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const { code, bonusType, value, maxBonusAmount, expiresAt, maxRedemptions, perUserLimit, description } = req.body;
+    const amount = Number(value);
+
+    if (!code || typeof code !== 'string' || !/^[A-Za-z0-9_-]{3,64}$/.test(code.trim())) {
+      return res.status(400).json({
+        success: false,
+        error: 'code должен состоять из 3-64 латинских букв, цифр, _ или -'
+      });
+    }
+
+    if (bonusType !== 'amount' && bonusType !== 'percent') {
+      return res.status(400).json({
+        success: false,
+        error: 'bonusType должен быть amount или percent'
+      });
+    }
+
+    if (!Number.isFinite(amount) || amount <= 0 || (bonusType === 'percent' && amount > 100)) {
+      return res.status(400).json({
+        success: false,
+        error: 'value должен быть положительным числом (для percent — не больше 100)'
+      });
+    }
+
+    const expiresAtDate = expiresAt ? new Date(expiresAt) : null;
+    if (expiresAtDate && isNaN(expiresAtDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Неверный формат expiresAt'
+      });
+    }
+
+    const limits = { maxBonusAmount, maxRedemptions, perUserLimit };
+    if (Object.values(limits).some(limit => limit !== undefined && limit !== null && !(Number(limit) > 0))) {
+      return res.status(400).json({
+        success: false,
+        error: 'maxBonusAmount, maxRedemptions и perUserLimit должны быть положительными числами'
+      });
+    }
+
+    if (await PromoCode.findOne({ where: { code: PromoCodeService.normalizeCode(code) } })) {
+      return res.status(409).json({
+        success: false,
+        error: 'Промокод с таким кодом уже существует'
+      });
+    }
+
+    const promoCode = await PromoCodeService.create({
+      code,
+      bonusType,
+      value: amount,
+      maxBonusAmount: maxBonusAmount ? Number(maxBonusAmount) : null,
+      expiresAt: expiresAtDate,
+      maxRedemptions: maxRedemptions ? parseInt(maxRedemptions) : null,
+      perUserLimit: perUserLimit ? parseInt(perUserLimit) : undefined,
+      description: description ? String(description).substring(0, 255) : null
+    });
+
+    await AuditService.record(req.admin!, {
+      action: 'promo_code.create',
+      entityType: 'promo_code',
+      entityId: promoCode.id,
+      after: promoCode.toJSON()
+    }, req);
+
+    res.json({
+      success: true,
+      data: promoCode
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при создании промокода:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Отключить промокод
+ * Уже активированные процентные промокоды продолжают действовать до пополнения
+ */
+router.post('/promo-codes/:id/deactivate', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const promoCode = await PromoCode.findByPk(req.params.id);
+
+    if (!promoCode) {
+      return res.status(404).json({
+        success: false,
+        error: 'Промокод не найден'
+      });
+    }
+
+    if (promoCode.is_active) {
+      await PromoCodeService.deactivate(promoCode);
+
+      await AuditService.record(req.admin!, {
+        action: 'promo_code.deactivate',
+        entityType: 'promo_code',
+        entityId: promoCode.id,
+        before: { is_active: true },
+        after: { is_active: false }
+      }, req);
+    }
+
+    res.json({
+      success: true,
+      data: promoCode
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при отключении промокода:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Получить кампании приветственного бонуса с числом пользователей, получивших бонус
+ */
+router.get('/signup-campaigns', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const campaigns = await SignupCampaignService.list();
+
+    res.json({
+      success: true,
+      data: campaigns
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при получении кампаний приветственного бонуса:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Создать кампанию приветственного бонуса
+ */
+router.post('/signup-campaigns', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const { attributes, error } = SignupCampaignService.parseInput(req.body);
+
+    if (error || !attributes) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    const campaign = await SignupCampaign.create(attributes as SignupCampaign['_creationAttributes']);
+
+    await AuditService.record(req.admin!, {
+      action: 'signup_campaign.create',
+      entityType: 'signup_campaign',
+      entityId: campaign.id,
+      after: campaign.toJSON()
+    }, req);
+
+    res.json({
+      success: true,
+      data: campaign
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при создании кампании приветственного бонуса:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Изменить кампанию приветственного бонуса (в том числе отключить: isActive = false)
+ * Изменения действуют только для новых регистраций
+ */
+router.put('/signup-campaigns/:id', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const campaign = await SignupCampaign.findByPk(req.params.id);
+
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        error: 'Кампания не найдена'
+      });
+    }
+
+    const { attributes, error } = SignupCampaignService.parseInput(req.body, true);
+
+    if (error || !attributes) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    const before = campaign.toJSON();
+    await campaign.update(attributes);
+
+    await AuditService.record(req.admin!, {
+      action: 'signup_campaign.update',
+      entityType: 'signup_campaign',
+      entityId: campaign.id,
+      before,
+      after: campaign.toJSON()
+    }, req);
+
+    res.json({
+      success: true,
+      data: campaign
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при изменении кампании приветственного бонуса:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Получить тарифы подписки, включая отключенные
+ */
+router.get('/subscription-plans', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const plans = await SubscriptionService.listPlans(true);
+
+    res.json({
+      success: true,
+      data: plans
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при получении тарифов подписки:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Создать тариф подписки
+ */
+router.post('/subscription-plans', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const { attributes, error } = SubscriptionService.parseInput(req.body);
+
+    if (error || !attributes) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    if (await SubscriptionPlan.findOne({ where: { code: attributes.code } })) {
+      return res.status(409).json({
+        success: false,
+        error: 'Тариф с таким code уже существует'
+      });
+    }
+
+    const plan = await SubscriptionPlan.create(attributes as SubscriptionPlan['_creationAttributes']);
+
+    await AuditService.record(req.admin!, {
+      action: 'subscription_plan.create',
+      entityType: 'subscription_plan',
+      entityId: plan.id,
+      after: plan.toJSON()
+    }, req);
+
+    res.json({
+      success: true,
+      data: plan
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при создании тарифа подписки:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Изменить тариф подписки (в том числе отключить: isActive = false)
+ * Квоты и period_days сразу действуют и для оформленных подписок, цена — для следующих оплат
+ */
+router.put('/subscription-plans/:id', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const plan = await SubscriptionPlan.findByPk(req.params.id);
+
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Тариф не найден'
+      });
+    }
+
+    const { attributes, error } = SubscriptionService.parseInput(req.body, true);
+
+    if (error || !attributes) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    if (attributes.code && attributes.code !== plan.code && await SubscriptionPlan.findOne({ where: { code: attributes.code } })) {
+      return res.status(409).json({
+        success: false,
+        error: 'Тариф с таким code уже существует'
+      });
+    }
+
+    const before = plan.toJSON();
+    await plan.update(attributes);
+
+    await AuditService.record(req.admin!, {
+      action: 'subscription_plan.update',
+      entityType: 'subscription_plan',
+      entityId: plan.id,
+      before,
+      after: plan.toJSON()
+    }, req);
+
+    res.json({
+      success: true,
+      data: plan
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при изменении тарифа подписки:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Получить правила ценообразования: распродажи, уровни по сумме оплат и пакеты
+ */
+router.get('/pricing-rules', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const rules = await PriceService.listRules();
+
+    res.json({
+      success: true,
+      data: rules
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при получении правил ценообразования:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Создать правило ценообразования
+ */
+router.post('/pricing-rules', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const { attributes, error } = PriceService.parseRuleInput(req.body);
+
+    if (error || !attributes) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    const rule = await PricingRule.create(attributes as PricingRule['_creationAttributes']);
+
+    await AuditService.record(req.admin!, {
+      action: 'pricing_rule.create',
+      entityType: 'pricing_rule',
+      entityId: rule.id,
+      after: rule.toJSON()
+    }, req);
+
+    res.json({
+      success: true,
+      data: rule
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при создании правила ценообразования:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Изменить правило ценообразования (в том числе отключить: isActive = false)
+ * Уже купленные пакеты не меняются
+ */
+router.put('/pricing-rules/:id', requireAdminRole('finance'), async (req: AdminRequest, res: Response) => {
+  try {
+    const rule = await PricingRule.findByPk(req.params.id);
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Правило не найдено'
+      });
+    }
+
+    const { attributes, error } = PriceService.parseRuleInput(req.body, rule);
+
+    if (error || !attributes) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    const before = rule.toJSON();
+    await rule.update(attributes);
+
+    await AuditService.record(req.admin!, {
+      action: 'pricing_rule.update',
+      entityType: 'pricing_rule',
+      entityId: rule.id,
+      before,
+      after: rule.toJSON()
+    }, req);
+
+    res.json({
+      success: true,
+      data: rule
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при изменении правила ценообразования:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Получить список API ключей администраторов (только суперадмин)
+ */
+router.get('/api-keys', requireAdminRole(), async (req: AdminRequest, res: Response) => {
+  try {
+    const keys = await AdminApiKey.findAll({
+      attributes: { exclude: ['key_hash'] },
+      order: [['createdAt', 'DESC']]
+    });
+
+    res.json({
+      success: true,
+      data: keys
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при получении API ключей:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Создать API ключ администратора (только суперадмин)
+ * Ключ возвращается в ответе один раз, в БД хранится только хеш
+ */
+router.post('/api-keys', requireAdminRole(), async (req: AdminRequest, res: Response) => {
+  try {
+    const { name, roles } = req.body;
+
+    if (!name || !Array.isArray(roles) || roles.length === 0 || !roles.every(role => AdminAuthService.isValidRole(role))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Необходимо указать name и непустой массив roles (viewer, operator, finance)'
+      });
+    }
+
+    const { apiKey, record } = await AdminAuthService.createApiKey(name, roles, req.admin!.id);
+
+    await AuditService.record(req.admin!, {
+      action: 'api_key.create',
+      entityType: 'admin_api_key',
+      entityId: record.id,
+      after: { name: record.name, key_prefix: record.key_prefix, roles: record.roles }
+    }, req);
+
+    res.json({
+      success: true,
+      data: {
+        id: record.id,
+        name: record.name,
+        roles: record.roles,
+        apiKey
+      }
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при создании API ключа:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Отозвать API ключ администратора (только суперадмин)
+ */
+router.delete('/api-keys/:id', requireAdminRole(), async (req: AdminRequest, res: Response) => {
+  try {
+    const revoked = await AdminAuthService.revokeApiKey(Number(req.params.id));
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        error: 'API ключ не найден'
+      });
+    }
+
+    await AuditService.record(req.admin!, {
+      action: 'api_key.revoke',
+      entityType: 'admin_api_key',
+      entityId: req.params.id
+    }, req);
+
+    res.json({
+      success: true,
+      message: 'API ключ отозван'
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при отзыве API ключа:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Получить журнал действий администраторов
+ */
+router.get('/audit-log', requireAdminRole('viewer'), async (req: AdminRequest, res: Response) => {
+  try {
+    const { page = 1, limit = 50, entity_type, entity_id, action } = req.query;
+
+    const { count, rows } = await AuditService.list({
+      entityType: entity_type as string | undefined,
+      entityId: entity_id as string | undefined,
+      action: action as string | undefined,
+      page: Number(page),
+      limit: Number(limit)
+    });
+
+    res.json({
+      success: true,
+      data: {
+        entries: rows,
+        pagination: {
+          total: count,
+          page: Number(page),
+          limit: Number(limit),
+          totalPages: Math.ceil(count / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('❌ [ADMIN] Ошибка при получении журнала аудита:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
 export default router;
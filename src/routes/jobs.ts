@@ -0,0 +1,134 @@
+import express, { Response } from 'express';
+import { JobQueueService } from '../services/JobQueueService';
+import { JobEventsService, JobEvent } from '../services/JobEventsService';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+
+const router = express.Router();
+
+// Интервал keep-alive SSE потока; заодно перепроверяется статус (события воркеров другого процесса)
+const EVENTS_HEARTBEAT_MS = parseInt(process.env.JOB_EVENTS_HEARTBEAT_SECONDS || '15') * 1000;
+
+/**
+ * Статус запроса на обработку (для всех типов обработки)
+ * GET /api/jobs/:id
+ * id — requestId из ответа на постановку в очередь
+ */
+router.get('/:id', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Некорректный id запроса'
+      });
+    }
+
+    const job = await JobQueueService.getJobStatus(id, req.user!.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Запрос не найден'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job
+    });
+  } catch (error) {
+    console.error('Ошибка при получении статуса запроса:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
+/**
+ * Поток событий прогресса запроса (Server-Sent Events)
+ * GET /api/jobs/:id/events
+ * События: queued, processing, retrying, completed, failed. После completed/failed поток закрывается
+ */
+router.get('/:id/events', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Некорректный id запроса'
+      });
+    }
+
+    const status = await JobQueueService.getJobStatus(id, req.user!.id);
+    if (!status) {
+      return res.status(404).json({
+        success: false,
+        error: 'Запрос не найден'
+      });
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // отключаем буферизацию в nginx
+    res.flushHeaders();
+
+    let closed = false;
+    let lastType = '';
+    let unsubscribe = () => {};
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    const close = () => {
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    const send = (event: JobEvent) => {
+      if (closed) {
+        return;
+      }
+
+      lastType = event.type;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+      if (JobEventsService.isFinal(event)) {
+        close();
+        res.end();
+      }
+    };
+
+    unsubscribe = JobEventsService.subscribe(id, send);
+
+    heartbeat = setInterval(async () => {
+      try {
+        const current = await JobQueueService.getJobStatus(id, req.user!.id);
+        const event = current && JobEventsService.fromStatus(current);
+        if (event && event.type !== lastType && JobEventsService.isFinal(event)) {
+          send(event);
+        } else if (!closed) {
+          res.write(': ping\n\n');
+        }
+      } catch (error) {
+        console.error(`❌ [JOBS] Ошибка проверки статуса запроса ${id}:`, error);
+      }
+    }, EVENTS_HEARTBEAT_MS);
+
+    req.on('close', close);
+
+    // Первое событие — текущее состояние запроса
+    send(JobEventsService.fromStatus(status));
+  } catch (error) {
+    console.error('Ошибка при подписке на события запроса:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Внутренняя ошибка сервера'
+      });
+    } else {
+      res.end();
+    }
+  }
+});
+
+export default router;
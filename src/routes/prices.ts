@@ -1,18 +1,32 @@
 import express from 'express';
 import { PriceService } from '../services/PriceService';
+import { AuditService } from '../services/AuditService';
+import { ServicePrice } from '../models/index';
+import { requireAdminRole, AdminRequest } from '../middleware/adminAuth';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 
 const router = express.Router();
 
+// Услуги, у которых есть цена: все, что тарифицирует PriceService, и устаревшие music_generate и video_edit
+const PRICED_SERVICE_TYPES = [...PriceService.SERVICE_TYPES, 'music_generate', 'video_edit'];
+
 /**
  * Получить все активные цены услуг
+ * price — базовая цена, effective_price — цена с учетом распродаж, rule — примененное правило
  * GET /api/prices
  */
 router.get('/', async (req, res) => {
   try {
     const prices = await PriceService.getAllActivePrices();
+    const data = [];
+    for (const price of prices) {
+      const resolved = await PriceService.resolvePrice(price.service_type);
+      data.push({ ...price.toJSON(), effective_price: resolved.price, rule: resolved.rule });
+    }
+
     res.json({
       success: true,
-      data: prices
+      data
     });
   } catch (error) {
     console.error('Ошибка при получении цен:', error);
@@ -23,6 +37,25 @@ router.get('/', async (req, res) => {
   }
 });
 
+/**
+ * Получить цены услуг для пользователя: распродажи и скидки по сумме оплат («было/стало»)
+ * GET /api/prices/me
+ */
+router.get('/me', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await PriceService.resolveAllPrices(req.user!.id)
+    });
+  } catch (error) {
+    console.error('Ошибка при получении цен пользователя:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
 /**
  * Получить цену конкретной услуги
  * GET /api/prices/:serviceType
@@ -31,19 +64,21 @@ router.get('/:serviceType', async (req, res) => {
   try {
     const { serviceType } = req.params;
     
-    if (!['photo_restore', 'image_generate', 'music_generate', 'video_edit', 'photo_stylize'].includes(serviceType)) {
+    if (!PRICED_SERVICE_TYPES.includes(serviceType)) {
       return res.status(400).json({
         success: false,
         error: 'Неверный тип услуги'
       });
     }
 
-    const price = await PriceService.getServicePrice(serviceType);
+    const resolved = await PriceService.resolvePrice(serviceType);
     res.json({
       success: true,
       data: {
         service_type: serviceType,
-        price: price
+        price: resolved.basePrice,
+        effective_price: resolved.price,
+        rule: resolved.rule
       }
     });
   } catch (error) {
@@ -59,7 +94,7 @@ router.get('/:serviceType', async (req, res) => {
  * Создать новую цену услуги
  * POST /api/prices
  */
-router.post('/', async (req, res) => {
+router.post('/', requireAdminRole('finance'), async (req: AdminRequest, res) => {
   try {
     const { service_name, service_type, price, currency, description } = req.body;
 
@@ -71,7 +106,7 @@ router.post('/', async (req, res) => {
       });
     }
 
-    if (!['photo_restore', 'image_generate', 'music_generate', 'video_edit', 'photo_stylize'].includes(service_type)) {
+    if (!PRICED_SERVICE_TYPES.includes(service_type)) {
       return res.status(400).json({
         success: false,
         error: 'Неверный тип услуги'
@@ -100,6 +135,13 @@ router.post('/', async (req, res) => {
       });
     }
 
+    await AuditService.record(req.admin!, {
+      action: 'price.create',
+      entityType: 'service_price',
+      entityId: service_type,
+      after: newPrice
+    }, req);
+
     res.status(201).json({
       success: true,
       data: newPrice
@@ -117,12 +159,12 @@ router.post('/', async (req, res) => {
  * Обновить цену услуги
  * PUT /api/prices/:serviceType
  */
-router.put('/:serviceType', async (req, res) => {
+router.put('/:serviceType', requireAdminRole('finance'), async (req: AdminRequest, res) => {
   try {
     const { serviceType } = req.params;
     const { price, is_active, description } = req.body;
 
-    if (!['photo_restore', 'image_generate', 'music_generate', 'video_edit', 'photo_stylize'].includes(serviceType)) {
+    if (!PRICED_SERVICE_TYPES.includes(serviceType)) {
       return res.status(400).json({
         success: false,
         error: 'Неверный тип услуги'
@@ -136,6 +178,10 @@ router.put('/:serviceType', async (req, res) => {
       });
     }
 
+    const previousPrice = await ServicePrice.findOne({
+      where: { service_type: serviceType, is_active: true }
+    });
+
     const updatedPrice = await PriceService.updateServicePrice(serviceType, {
       price,
       is_active,
@@ -149,6 +195,14 @@ router.put('/:serviceType', async (req, res) => {
       });
     }
 
+    await AuditService.record(req.admin!, {
+      action: 'price.update',
+      entityType: 'service_price',
+      entityId: serviceType,
+      before: previousPrice,
+      after: updatedPrice
+    }, req);
+
     res.json({
       success: true,
       data: updatedPrice
@@ -166,17 +220,21 @@ router.put('/:serviceType', async (req, res) => {
  * Деактивировать цену услуги
  * DELETE /api/prices/:serviceType
  */
-router.delete('/:serviceType', async (req, res) => {
+router.delete('/:serviceType', requireAdminRole('finance'), async (req: AdminRequest, res) => {
   try {
     const { serviceType } = req.params;
 
-    if (!['photo_restore', 'image_generate', 'music_generate', 'video_edit', 'photo_stylize'].includes(serviceType)) {
+    if (!PRICED_SERVICE_TYPES.includes(serviceType)) {
       return res.status(400).json({
         success: false,
         error: 'Неверный тип услуги'
       });
     }
 
+    const previousPrice = await ServicePrice.findOne({
+      where: { service_type: serviceType, is_active: true }
+    });
+
     const success = await PriceService.deactivateServicePrice(serviceType);
 
     if (!success) {
@@ -186,6 +244,13 @@ router.delete('/:serviceType', async (req, res) => {
       });
     }
 
+    await AuditService.record(req.admin!, {
+      action: 'price.deactivate',
+      entityType: 'service_price',
+      entityId: serviceType,
+      before: previousPrice
+    }, req);
+
     res.json({
       success: true,
       message: 'Цена услуги успешно деактивирована'
@@ -207,7 +272,7 @@ router.get('/:serviceType/history', async (req, res) => {
   try {
     const { serviceType } = req.params;
 
-    if (!['photo_restore', 'image_generate', 'music_generate', 'video_edit', 'photo_stylize'].includes(serviceType)) {
+    if (!PRICED_SERVICE_TYPES.includes(serviceType)) {
       return res.status(400).json({
         success: false,
         error: 'Неверный тип услуги'
@@ -1,6 +1,8 @@
 import express from 'express';
 import { PromptService } from '../services/PromptService';
 import { Prompt } from '../models/index';
+import { AuditService } from '../services/AuditService';
+import { requireAdminRole, AdminRequest } from '../middleware/adminAuth';
 
 const router = express.Router();
 
@@ -134,9 +136,11 @@ router.get('/:key', async (req, res) => {
  * POST /api/prompts
  * Создать новый промпт
  */
-router.post('/', async (req, res) => {
+router.post('/', requireAdminRole('operator'), async (req: AdminRequest, res) => {
   try {
-    const { key, name, description, content, category, variables, created_by } = req.body;
+    const { key, name, description, content, category, variables } = req.body;
+    // Автор версии определяется по авторизации, а не по телу запроса
+    const created_by = req.admin!.type === 'user' ? req.admin!.id : undefined;
 
     // Валидация обязательных полей
     if (!key || !name || !content || !category) {
@@ -156,6 +160,13 @@ router.post('/', async (req, res) => {
       created_by
     });
 
+    await AuditService.record(req.admin!, {
+      action: 'prompt.create',
+      entityType: 'prompt',
+      entityId: key,
+      after: prompt
+    }, req);
+
     res.status(201).json({
       success: true,
       data: prompt,
@@ -182,10 +193,13 @@ router.post('/', async (req, res) => {
  * PUT /api/prompts/:key
  * Обновить промпт (создать новую версию)
  */
-router.put('/:key', async (req, res) => {
+router.put('/:key', requireAdminRole('operator'), async (req: AdminRequest, res) => {
   try {
     const { key } = req.params;
-    const { name, description, content, category, variables, created_by } = req.body;
+    const { name, description, content, category, variables } = req.body;
+    const created_by = req.admin!.type === 'user' ? req.admin!.id : undefined;
+
+    const previousPrompt = await PromptService.getRawPrompt(key);
 
     const updatedPrompt = await PromptService.updatePrompt(key, {
       name,
@@ -196,6 +210,14 @@ router.put('/:key', async (req, res) => {
       created_by
     });
 
+    await AuditService.record(req.admin!, {
+      action: 'prompt.update',
+      entityType: 'prompt',
+      entityId: key,
+      before: previousPrompt,
+      after: updatedPrompt
+    }, req);
+
     res.json({
       success: true,
       data: updatedPrompt,
@@ -222,13 +244,21 @@ router.put('/:key', async (req, res) => {
  * DELETE /api/prompts/:key
  * Деактивировать промпт
  */
-router.delete('/:key', async (req, res) => {
+router.delete('/:key', requireAdminRole('operator'), async (req: AdminRequest, res) => {
   try {
     const { key } = req.params;
 
+    const previousPrompt = await PromptService.getRawPrompt(key);
     const success = await PromptService.deactivatePrompt(key);
 
     if (success) {
+      await AuditService.record(req.admin!, {
+        action: 'prompt.deactivate',
+        entityType: 'prompt',
+        entityId: key,
+        before: previousPrompt
+      }, req);
+
       res.json({
         success: true,
         message: `Промпт "${key}" деактивирован`
@@ -252,9 +282,14 @@ router.delete('/:key', async (req, res) => {
  * POST /api/prompts/cache/clear
  * Очистить кэш промптов
  */
-router.post('/cache/clear', async (req, res) => {
+router.post('/cache/clear', requireAdminRole('operator'), async (req: AdminRequest, res) => {
   try {
     PromptService.clearCache();
+
+    await AuditService.record(req.admin!, {
+      action: 'prompt.cache_clear',
+      entityType: 'prompt_cache'
+    }, req);
     
     res.json({
       success: true,
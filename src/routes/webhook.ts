@@ -1,9 +1,76 @@
-import express from 'express';
+import express, { Request, Response } from 'express';
 import { User } from '../models/index';
 import { BalanceService } from '../services/BalanceService';
+import { PaymentService } from '../services/PaymentService';
+
+// Сырое тело запроса сохраняет express.json в server.ts: по нему проверяется подпись callback
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
 
 const router = express.Router();
 
+/**
+ * Webhook платежного провайдера о результате оплаты пополнения
+ * POST /api/webhook/payments/:provider (yookassa, tinkoff, qiwi, fake)
+ *
+ * Подлинность проверяет сам провайдер (подпись, токен или запрос статуса через API)
+ */
+router.post('/payments/:provider', async (req: RawBodyRequest, res: Response) => {
+  const provider = PaymentService.getProvider(req.params.provider);
+
+  if (!provider) {
+    return res.status(404).json({
+      success: false,
+      error: 'Неизвестный платежный провайдер'
+    });
+  }
+
+  try {
+    const webhookRequest = {
+      headers: req.headers,
+      rawBody: req.rawBody,
+      body: req.body,
+      ip: req.ip
+    };
+
+    if (!(await provider.verifyWebhook(webhookRequest))) {
+      console.warn(`⚠️ [PAYMENT] Webhook ${provider.name} не прошел проверку подлинности`);
+      return res.status(401).json({
+        success: false,
+        error: 'Неверная подпись'
+      });
+    }
+
+    const event = await provider.parseWebhook(webhookRequest);
+
+    if (event) {
+      const result = await PaymentService.handleWebhookEvent(provider.name, event);
+
+      if (!result.success) {
+        return res.status(result.error === 'Платеж не найден' ? 404 : 400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      console.log(`✅ [PAYMENT] Webhook ${provider.name}: платеж ${event.paymentId || event.providerPaymentId} -> ${result.status}${result.alreadyProcessed ? ' (уже обработан)' : ''}`);
+    }
+
+    if (provider.webhookAcknowledgement) {
+      return res.send(provider.webhookAcknowledgement);
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error(`❌ [PAYMENT] Ошибка обработки webhook ${provider.name}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Внутренняя ошибка сервера'
+    });
+  }
+});
+
 /**
  * Веб-хук для получения leadtech ID
  * POST /api/webhook/leadtech
@@ -12,21 +12,48 @@ import { ImageGenerationService } from './services/ImageGenerationService';
 import { BalanceService } from './services/BalanceService';
 import { TelegramBotService } from './services/TelegramBotService';
 import { ImageCopyService } from './services/ImageCopyService';
+import { AuthService } from './services/AuthService';
+import { AdminAuthService } from './services/AdminAuthService';
+import { LedgerService } from './services/LedgerService';
+import { PaymentService } from './services/PaymentService';
+import { JobQueueService } from './services/JobQueueService';
+import { AbuseProtectionService } from './services/AbuseProtectionService';
+import { PromoCodeService } from './services/PromoCodeService';
+import { ReferralService } from './services/ReferralService';
+import { SubscriptionService } from './services/SubscriptionService';
+import { PackService } from './services/PackService';
+import { PaymentMethod } from './services/payments/PaymentProvider';
+import { requireAuth, AuthenticatedRequest } from './middleware/auth';
+import { idempotent, IdempotentRequest } from './middleware/idempotency';
+import { processingRateLimit } from './middleware/rateLimit';
 import pricesRouter from './routes/prices';
-import webhookRouter from './routes/webhook';
+import webhookRouter, { RawBodyRequest } from './routes/webhook';
 import adminRouter from './routes/admin';
+import promptsRouter from './routes/prompts';
+import jobsRouter from './routes/jobs';
 
 // Расширяем тип Request для multer
-interface MulterRequest extends Request {
+interface MulterRequest extends IdempotentRequest {
   file?: Express.Multer.File;
 }
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// За обратным прокси req.ip берется из X-Forwarded-For (нужно для лимитов по IP)
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? parseInt(trustProxy) : trustProxy);
+}
+
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({
+  // Сохраняем сырое тело запроса для проверки подписи платежных callback
+  verify: (req, res, buf) => {
+    (req as RawBodyRequest).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Настройка multer для загрузки файлов
@@ -80,6 +107,8 @@ app.get('/health', (req: Request, res: Response) => {
 app.use('/api/prices', pricesRouter);
 app.use('/api/webhook', webhookRouter);
 app.use('/api/admin', adminRouter);
+app.use('/api/prompts', promptsRouter);
+app.use('/api/jobs', jobsRouter);
 
 // Маршруты
 
@@ -150,14 +179,24 @@ app.post('/api/auth/telegram', async (req, res) => {
         username: user.username || null,
         firstName: user.first_name || null,
         lastName: user.last_name || null,
-        languageCode: user.language_code || 'ru'
+        languageCode: user.language_code || 'ru',
+        signupSource: ReferralService.signupSource(parsed.start_param)
       });
       
       console.log('✅ Создан новый пользователь:', JSON.stringify(existingUser, null, 2));
+
+      // Приглашение по ссылке с startapp=ref_<telegram_id>
+      await ReferralService.registerReferral(existingUser, parsed.start_param);
     } else {
       console.log('👤 Пользователь найден в БД:', JSON.stringify(existingUser, null, 2));
     }
 
+    await AbuseProtectionService.liftExpiredBlock(existingUser);
+    if (existingUser.status === 'blocked') {
+      console.log('🚫 Пользователь заблокирован, сессия не выдается');
+      return res.status(403).json({ error: 'Пользователь заблокирован' });
+    }
+
     console.log('💰 Получаем и синхронизируем баланс пользователя...');
     // Сначала пытаемся синхронизировать с LeadTech при загрузке приложения
     const syncResult = await BalanceService.onAppLoad(userId);
@@ -165,9 +204,13 @@ app.post('/api/auth/telegram', async (req, res) => {
     
     const balance = await BalanceService.getBalance(userId);
     console.log('💰 Финальный баланс пользователя:', balance);
-    
+
+    // Выдаем сессионные токены, по которым остальные роуты определяют пользователя
+    const session = AuthService.issueTokens(existingUser);
+
     const responseData = {
       success: true,
+      session,
       user: {
         id: existingUser.id, // Используем database id, а не telegram_id
         telegramId: userId, // Добавляем telegram_id для справки
@@ -175,9 +218,12 @@ app.post('/api/auth/telegram', async (req, res) => {
         firstName: user.first_name,
         lastName: user.last_name,
         languageCode: user.language_code,
-        isAdmin: existingUser.is_admin || false
+        isAdmin: existingUser.is_admin || false,
+        adminRoles: AdminAuthService.resolveUserIdentity(existingUser)?.roles || []
       },
-      balance
+      balance,
+      // Действующая подписка с остатком квот по типам услуг (null — запросы оплачиваются с баланса)
+      subscription: await SubscriptionService.getStatus(existingUser.id)
     };
     
     console.log('📤 Отправляем ответ:', JSON.stringify(responseData, null, 2));
@@ -189,6 +235,46 @@ app.post('/api/auth/telegram', async (req, res) => {
   }
 });
 
+/**
+ * Обновление сессионных токенов по refresh токену
+ */
+app.post('/api/auth/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'refreshToken обязателен' });
+    }
+
+    const result = await AuthService.refreshTokens(refreshToken);
+    if (!result.success || !result.tokens) {
+      console.log('❌ [AUTH] Не удалось обновить сессию:', result.error);
+      return res.status(401).json({ error: result.error || 'Недействительный токен' });
+    }
+
+    res.json({
+      success: true,
+      session: result.tokens
+    });
+  } catch (error) {
+    console.error('❌ [AUTH] Ошибка при обновлении сессии:', error);
+    res.status(500).json({ error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+/**
+ * Выход: завершает все сессии пользователя, включая refresh токены на других устройствах
+ */
+app.post('/api/auth/logout', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await AuthService.revokeSessions(req.user!);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ [AUTH] Ошибка при завершении сессии:', error);
+    res.status(500).json({ error: 'Внутренняя ошибка сервера' });
+  }
+});
+
 /**
  * Получить стоимость реставрации фото
  */
@@ -212,9 +298,12 @@ app.get('/api/photos/restoration-cost', async (req, res) => {
 /**
  * Загрузка и реставрация фото
  */
-app.post('/api/photos/restore', upload.single('photo'), async (req: MulterRequest, res: Response) => {
+app.post('/api/photos/restore', requireAuth, processingRateLimit, upload.single('photo'), idempotent, async (req: MulterRequest, res: Response) => {
   try {
-    const { userId, telegramId, options, moduleName } = req.body;
+    const { options, moduleName } = req.body;
+    // Пользователь определяется по сессии, а не по данным из тела запроса
+    const userId = req.user!.id;
+    const telegramId = req.user!.telegram_id;
     
     console.log('📸 [RESTORE] Начинаем процесс реставрации фото');
     console.log('📸 [RESTORE] userId (database):', userId);
@@ -227,14 +316,6 @@ app.post('/api/photos/restore', upload.single('photo'), async (req: MulterReques
       return res.status(400).json({ error: 'Файл не был загружен' });
     }
 
-    if (!userId) {
-      return res.status(400).json({ error: 'userId обязателен' });
-    }
-
-    if (!telegramId) {
-      return res.status(400).json({ error: 'telegramId обязателен' });
-    }
-
     // Используем telegramId и moduleName для создания папки
     const fs = require('fs');
     // Проверяем, что moduleName является строкой, и исправляем если это объект
@@ -250,14 +331,14 @@ app.post('/api/photos/restore', upload.single('photo'), async (req: MulterReques
     // Используем FileManagerService для перемещения файла
     const finalPath = FileManagerService.moveFileToUserDirectory(
       req.file.path,
-      parseInt(telegramId),
+      telegramId,
       module,
       req.file.filename
     );
     
     // Формируем URL к файлу с помощью FileManagerService
     const imageFullUrl = FileManagerService.createFileUrl(
-      parseInt(telegramId),
+      telegramId,
       module,
       req.file.filename
     );
@@ -265,23 +346,32 @@ app.post('/api/photos/restore', upload.single('photo'), async (req: MulterReques
     console.log('📸 [RESTORE] finalPath:', finalPath);
     console.log('📸 [RESTORE] imageFullUrl:', imageFullUrl);
 
-    // Запускаем процесс реставрации
-    console.log('📸 [RESTORE] Вызываем PhotoRestorationService...');
-    const result = await PhotoRestorationService.restorePhoto({
-      userId: parseInt(userId), // Используем database userId для записи в БД
-      telegramId: parseInt(telegramId), // Добавляем telegramId для создания папок
-      moduleName: module, // Добавляем moduleName для организации папок
-      imageUrl: imageFullUrl, // Передаем полный URL вместо локального пути
-      options: options ? JSON.parse(options) : {}
+    // Ставим реставрацию в очередь, результат клиент получает по id запроса
+    const cost = await PhotoRestorationService.getRestorationCost(userId);
+    const result = await JobQueueService.enqueue({
+      type: 'photo_restore',
+      userId,
+      apiName: 'photo_restoration',
+      requestType: 'photo_restore',
+      cost,
+      description: 'Реставрация фотографии',
+      payload: {
+        userId: userId, // Используем database userId для записи в БД
+        telegramId: telegramId, // Добавляем telegramId для создания папок
+        moduleName: module, // Добавляем moduleName для организации папок
+        imageUrl: imageFullUrl, // Передаем полный URL вместо локального пути
+        options: options ? JSON.parse(options) : {}
+      },
+      idempotencyKeyId: req.idempotencyKeyId
     });
 
-    console.log('📸 [RESTORE] Результат реставрации:', result);
+    console.log('📸 [RESTORE] Постановка в очередь:', result);
     
     // Проверяем результат и возвращаем соответствующий статус
     if (result.success) {
-      res.json(result);
+      res.status(202).json({ success: true, requestId: result.apiRequestId, status: 'pending', cost: result.cost, coveredBySubscription: result.coveredBySubscription, coveredByPack: result.coveredByPack });
     } else {
-      // При неуспешной обработке возвращаем статус 422 (Unprocessable Entity)
+      // При неуспешной постановке возвращаем статус 422 (Unprocessable Entity)
       // и передаем понятное сообщение об ошибке клиенту
       res.status(422).json({ 
         error: result.error || 'Сервис временно недоступен, попробуйте чуть позже',
@@ -312,10 +402,16 @@ app.post('/api/photos/restore', upload.single('photo'), async (req: MulterReques
 });/**
  * Получить статус реставрации фото
  */
-app.get('/api/photos/:photoId/status', async (req, res) => {
+app.get('/api/photos/:photoId/status', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { photoId } = req.params;
-    const status = await PhotoRestorationService.getPhotoStatus(parseInt(photoId));
+    const status = await PhotoRestorationService.getPhotoStatus(parseInt(photoId as string));
+
+    // Чужие фото не раскрываем, отвечаем так же, как для несуществующих
+    if (status.photo && status.photo.user_id !== req.user!.id) {
+      return res.json({ success: false, error: 'Фото не найдено' });
+    }
+
     res.json(status);
   } catch (error) {
     console.error('Ошибка при получении статуса фото:', error);
@@ -326,13 +422,14 @@ app.get('/api/photos/:photoId/status', async (req, res) => {
 /**
  * Получить историю фото пользователя
  */
-app.get('/api/photos/history/:userId', async (req, res) => {
+app.get('/api/photos/history/:userId', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { userId } = req.params;
+    // Параметр :userId оставлен для совместимости, история отдается только владельцу сессии
+    const userId = req.user!.id;
     const { page = 1, limit = 10 } = req.query;
     
     const history = await PhotoRestorationService.getUserPhotoHistory(
-      parseInt(userId),
+      userId,
       parseInt(page as string),
       parseInt(limit as string)
     );
@@ -348,13 +445,14 @@ app.get('/api/photos/history/:userId', async (req, res) => {
  * Получить историю реставраций пользователя
  * GET /api/photos/history/:userId/restore
  */
-app.get('/api/photos/history/:userId/restore', async (req, res) => {
+app.get('/api/photos/history/:userId/restore', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { userId } = req.params;
+    // Параметр :userId оставлен для совместимости, история отдается только владельцу сессии
+    const userId = req.user!.id;
     const { page = 1, limit = 10 } = req.query;
     
     const history = await PhotoRestorationService.getUserPhotoHistoryByModule(
-      parseInt(userId),
+      userId,
       'photo_restore',
       parseInt(page as string),
       parseInt(limit as string)
@@ -371,13 +469,14 @@ app.get('/api/photos/history/:userId/restore', async (req, res) => {
  * Получить историю стилизаций пользователя
  * GET /api/photos/history/:userId/stylize
  */
-app.get('/api/photos/history/:userId/stylize', async (req, res) => {
+app.get('/api/photos/history/:userId/stylize', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { userId } = req.params;
+    // Параметр :userId оставлен для совместимости, история отдается только владельцу сессии
+    const userId = req.user!.id;
     const { page = 1, limit = 10 } = req.query;
     
     const history = await PhotoRestorationService.getUserPhotoHistoryByModule(
-      parseInt(userId),
+      userId,
       'photo_stylize',
       parseInt(page as string),
       parseInt(limit as string)
@@ -394,13 +493,14 @@ app.get('/api/photos/history/:userId/stylize', async (req, res) => {
  * Получить историю изменения стиля эпохи пользователя
  * GET /api/photos/history/:userId/era-style
  */
-app.get('/api/photos/history/:userId/era-style', async (req, res) => {
+app.get('/api/photos/history/:userId/era-style', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { userId } = req.params;
+    // Параметр :userId оставлен для совместимости, история отдается только владельцу сессии
+    const userId = req.user!.id;
     const { page = 1, limit = 10 } = req.query;
     
     const history = await PhotoRestorationService.getUserPhotoHistoryByModule(
-      parseInt(userId),
+      userId,
       'era_style',
       parseInt(page as string),
       parseInt(limit as string)
@@ -417,13 +517,14 @@ app.get('/api/photos/history/:userId/era-style', async (req, res) => {
  * Получить историю генерации изображений пользователя
  * GET /api/photos/history/:userId/image-generation
  */
-app.get('/api/photos/history/:userId/image-generation', async (req, res) => {
+app.get('/api/photos/history/:userId/image-generation', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { userId } = req.params;
+    // Параметр :userId оставлен для совместимости, история отдается только владельцу сессии
+    const userId = req.user!.id;
     const { page = 1, limit = 10 } = req.query;
     
     const history = await PhotoRestorationService.getUserPhotoHistoryByModule(
-      parseInt(userId),
+      userId,
       'image_generate',
       parseInt(page as string),
       parseInt(limit as string)
@@ -478,9 +579,12 @@ app.get('/api/photos/styles', async (req, res) => {
 /**
  * Стилизация фото
  */
-app.post('/api/photos/stylize', upload.single('photo'), async (req: MulterRequest, res: Response) => {
+app.post('/api/photos/stylize', requireAuth, processingRateLimit, upload.single('photo'), idempotent, async (req: MulterRequest, res: Response) => {
   try {
-    const { userId, telegramId, prompt, styleId } = req.body;
+    const { prompt, styleId } = req.body;
+    // Пользователь определяется по сессии, а не по данным из тела запроса
+    const userId = req.user!.id;
+    const telegramId = req.user!.telegram_id;
     
     console.log('🎨 [STYLIZE] Начинаем процесс стилизации фото');
     console.log('🎨 [STYLIZE] userId (database):', userId);
@@ -498,20 +602,6 @@ app.post('/api/photos/stylize', upload.single('photo'), async (req: MulterReques
       });
     }
 
-    if (!userId) {
-      return res.status(400).json({
-        success: false,
-        error: 'userId обязателен'
-      });
-    }
-
-    if (!telegramId) {
-      return res.status(400).json({
-        success: false,
-        error: 'telegramId обязателен'
-      });
-    }
-
     // Для era_style промпт не обязателен - он загружается из базы данных
     if (!prompt && !styleId?.startsWith('era_style_')) {
       return res.status(400).json({
@@ -547,14 +637,14 @@ app.post('/api/photos/stylize', upload.single('photo'), async (req: MulterReques
     const moduleName = 'photo_stylize';
     const finalPath = FileManagerService.moveFileToUserDirectory(
       req.file.path,
-      parseInt(telegramId),
+      telegramId,
       moduleName,
       req.file.filename
     );
     
     // Формируем URL к файлу
     const imageFullUrl = FileManagerService.createFileUrl(
-      parseInt(telegramId),
+      telegramId,
       moduleName,
       req.file.filename
     );
@@ -578,26 +668,44 @@ app.post('/api/photos/stylize', upload.single('photo'), async (req: MulterReques
       console.log('📝 [STYLIZE] Используется пользовательский промпт');
     }
 
-    // Запускаем процесс стилизации
-    console.log('🎨 [STYLIZE] Вызываем PhotoStylizationService...');
+    if (!(await PhotoStylizationService.isValidStyle(styleId))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Неверный стиль изображения'
+      });
+    }
+
+    // Ставим стилизацию в очередь
     console.log('🎨 [STYLIZE] finalPrompt:', finalPrompt);
-    const result = await PhotoStylizationService.stylizePhoto({
-      userId: parseInt(userId),
-      telegramId: parseInt(telegramId),
-      imageUrl: imageFullUrl, // Передаем полный URL для сохранения в request_data
-      localPath: finalPath, // Передаем локальный путь для чтения файла
-      styleId: styleId,
+    const isEraStyle = styleId.startsWith('era_style_');
+    const cost = await PhotoStylizationService.getStylizationCostByStyle(styleId, userId);
+    const result = await JobQueueService.enqueue({
+      type: 'photo_stylize',
+      userId,
+      apiName: isEraStyle ? 'gemini_era_style' : 'gemini_stylize',
+      requestType: isEraStyle ? 'era_style' : 'photo_stylize',
+      cost,
+      description: `Стилизация фото (${styleId})`,
       prompt: finalPrompt,
-      originalFilename: req.file.originalname
+      payload: {
+        userId: userId,
+        telegramId: telegramId,
+        imageUrl: imageFullUrl, // Передаем полный URL для сохранения в request_data
+        localPath: finalPath, // Передаем локальный путь для чтения файла
+        styleId: styleId,
+        prompt: finalPrompt,
+        originalFilename: req.file.originalname
+      },
+      idempotencyKeyId: req.idempotencyKeyId
     });
 
-    console.log('🎨 [STYLIZE] Результат стилизации:', result);
+    console.log('🎨 [STYLIZE] Постановка в очередь:', result);
     
     // Проверяем результат и возвращаем соответствующий статус
     if (result.success) {
-      res.json(result);
+      res.status(202).json({ success: true, requestId: result.apiRequestId, status: 'pending', cost: result.cost, coveredBySubscription: result.coveredBySubscription, coveredByPack: result.coveredByPack });
     } else {
-      // При неуспешной обработке возвращаем статус 422 (Unprocessable Entity)
+      // При неуспешной постановке возвращаем статус 422 (Unprocessable Entity)
       res.status(422).json({ 
         error: result.error || 'Сервис временно недоступен, попробуйте чуть позже',
         success: false
@@ -629,11 +737,13 @@ app.post('/api/photos/stylize', upload.single('photo'), async (req: MulterReques
 /**
  * Создание подготовленного сообщения для отправки изображения через Mini App
  */
-app.post('/api/telegram/prepare-photo-message', async (req: Request, res: Response) => {
+app.post('/api/telegram/prepare-photo-message', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   const startTime = Date.now();
   
   try {
-    const { imageUrl, caption, userId } = req.body;
+    const { imageUrl, caption } = req.body;
+    // Подготовленное сообщение создается только для владельца сессии
+    const userId = req.user!.telegram_id;
 
     console.log('📤 [PREPARE] Создаем подготовленное сообщение');
     console.log('📤 [PREPARE] imageUrl:', imageUrl);
@@ -785,9 +895,12 @@ app.get('/api/photos/era-style-cost', async (req, res) => {
 /**
  * Изменение стиля эпохи
  */
-app.post('/api/photos/era-style', upload.single('photo'), async (req: MulterRequest, res: Response) => {
+app.post('/api/photos/era-style', requireAuth, processingRateLimit, upload.single('photo'), idempotent, async (req: MulterRequest, res: Response) => {
   try {
-    const { userId, telegramId, prompt, eraId, operationType } = req.body;
+    const { prompt, eraId, operationType } = req.body;
+    // Пользователь определяется по сессии, а не по данным из тела запроса
+    const userId = req.user!.id;
+    const telegramId = req.user!.telegram_id;
     
     console.log('🏛️ [ERA_STYLE] Начинаем процесс изменения стиля эпохи');
     console.log('🏛️ [ERA_STYLE] userId (database):', userId);
@@ -805,20 +918,6 @@ app.post('/api/photos/era-style', upload.single('photo'), async (req: MulterRequ
       });
     }
 
-    if (!userId) {
-      return res.status(400).json({
-        success: false,
-        error: 'userId обязателен'
-      });
-    }
-
-    if (!telegramId) {
-      return res.status(400).json({
-        success: false,
-        error: 'telegramId обязателен'
-      });
-    }
-
     if (!eraId) {
       return res.status(400).json({
         success: false,
@@ -853,14 +952,14 @@ app.post('/api/photos/era-style', upload.single('photo'), async (req: MulterRequ
     const moduleName = 'era-style';
     const finalPath = FileManagerService.moveFileToUserDirectory(
       req.file.path,
-      parseInt(telegramId),
+      telegramId,
       moduleName,
       req.file.filename
     );
     
     // Формируем URL к файлу
     const imageFullUrl = FileManagerService.createFileUrl(
-      parseInt(telegramId),
+      telegramId,
       moduleName,
       req.file.filename
     );
@@ -888,17 +987,38 @@ app.post('/api/photos/era-style', upload.single('photo'), async (req: MulterRequ
     console.log('🏛️ [ERA_STYLE] finalPrompt длина:', finalPrompt?.length);
     console.log('🏛️ [ERA_STYLE] finalPrompt содержание:', finalPrompt?.substring(0, 200) + '...');
 
-    const result = await EraStyleService.stylePhotoByEra({
-      userId: parseInt(userId),
-      telegramId: parseInt(telegramId),
-      imageUrl: imageFullUrl, // Передаем полный URL для сохранения в request_data
-      eraId: eraId,
+    if (!(await EraStyleService.isValidEra(eraId))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Неверная эпоха'
+      });
+    }
+
+    const cost = await EraStyleService.getEraStyleCost(userId);
+    const result = await JobQueueService.enqueue({
+      type: 'era_style',
+      userId,
+      apiName: 'era_style',
+      requestType: 'era_style',
+      cost,
+      description: `Изменение стиля эпохи: ${eraId}`,
       prompt: finalPrompt,
-      originalFilename: req.file.originalname
+      payload: {
+        userId: userId,
+        telegramId: telegramId,
+        imageUrl: imageFullUrl, // Передаем полный URL для сохранения в request_data
+        eraId: eraId,
+        prompt: finalPrompt,
+        originalFilename: req.file.originalname
+      },
+      idempotencyKeyId: req.idempotencyKeyId
     });
     
-    console.log('🏛️ [ERA_STYLE] Результат изменения стиля эпохи:', result);
-    res.json(result);
+    console.log('🏛️ [ERA_STYLE] Постановка в очередь:', result);
+    if (!result.success) {
+      return res.json({ success: false, error: result.error });
+    }
+    res.status(202).json({ success: true, requestId: result.apiRequestId, status: 'pending', cost: result.cost, coveredBySubscription: result.coveredBySubscription, coveredByPack: result.coveredByPack });
   } catch (error) {
     console.error('❌ [ERA_STYLE] Ошибка при изменении стиля эпохи:', error);
     
@@ -964,9 +1084,12 @@ app.get('/api/photos/poet-style-cost', async (req, res) => {
 /**
  * Стилизация с поэтом
  */
-app.post('/api/photos/poet-style', upload.single('photo'), async (req: MulterRequest, res: Response) => {
+app.post('/api/photos/poet-style', requireAuth, processingRateLimit, upload.single('photo'), idempotent, async (req: MulterRequest, res: Response) => {
   try {
-    const { userId, telegramId, prompt, poetId } = req.body;
+    const { prompt, poetId } = req.body;
+    // Пользователь определяется по сессии, а не по данным из тела запроса
+    const userId = req.user!.id;
+    const telegramId = req.user!.telegram_id;
     
     console.log('🎭 [POET_STYLE] Начинаем процесс создания селфи с поэтом');
     console.log('🎭 [POET_STYLE] userId (database):', userId);
@@ -983,20 +1106,6 @@ app.post('/api/photos/poet-style', upload.single('photo'), async (req: MulterReq
       });
     }
 
-    if (!userId) {
-      return res.status(400).json({
-        success: false,
-        error: 'userId обязателен'
-      });
-    }
-
-    if (!telegramId) {
-      return res.status(400).json({
-        success: false,
-        error: 'telegramId обязателен'
-      });
-    }
-
     if (!poetId) {
       return res.status(400).json({
         success: false,
@@ -1024,14 +1133,14 @@ app.post('/api/photos/poet-style', upload.single('photo'), async (req: MulterReq
     const moduleName = 'poet_style';
     const finalPath = FileManagerService.moveFileToUserDirectory(
       req.file.path,
-      parseInt(telegramId),
+      telegramId,
       moduleName,
       req.file.filename
     );
     
     // Формируем URL к файлу
     const imageFullUrl = FileManagerService.createFileUrl(
-      parseInt(telegramId),
+      telegramId,
       moduleName,
       req.file.filename
     );
@@ -1039,20 +1148,42 @@ app.post('/api/photos/poet-style', upload.single('photo'), async (req: MulterReq
     console.log('🎭 [POET_STYLE] finalPath:', finalPath);
     console.log('🎭 [POET_STYLE] imageFullUrl:', imageFullUrl);
 
-    // Запускаем процесс создания селфи с поэтом
-    console.log('🎭 [POET_STYLE] Вызываем PoetStyleService...');
-    const result = await PoetStyleService.stylePhotoWithPoet({
-      userId: parseInt(userId),
-      telegramId: parseInt(telegramId),
-      imageUrl: imageFullUrl,
-      localPath: finalPath,
-      poetId: parseInt(poetId),
-      prompt: prompt || undefined,
-      originalFilename: req.file.originalname
+    const poet = await PoetStyleService.getPoetById(parseInt(poetId));
+    if (!poet) {
+      return res.status(400).json({
+        success: false,
+        error: 'Поэт не найден',
+        message: 'Выбранный поэт не найден'
+      });
+    }
+
+    // Ставим создание селфи с поэтом в очередь
+    const cost = await PoetStyleService.getPoetStyleCost(userId);
+    const result = await JobQueueService.enqueue({
+      type: 'poet_style',
+      userId,
+      apiName: 'poet_style',
+      requestType: 'poet_style',
+      cost,
+      description: `Стилизация в стиле ${poet.name}`,
+      prompt: prompt || `Стилизация в стиле ${poet.name}`,
+      payload: {
+        userId: userId,
+        telegramId: telegramId,
+        imageUrl: imageFullUrl,
+        localPath: finalPath,
+        poetId: poet.id,
+        prompt: prompt || undefined,
+        originalFilename: req.file.originalname
+      },
+      idempotencyKeyId: req.idempotencyKeyId
     });
 
-    console.log('🎭 [POET_STYLE] Результат создания селфи:', result);
-    res.json(result);
+    console.log('🎭 [POET_STYLE] Постановка в очередь:', result);
+    if (!result.success) {
+      return res.json({ success: false, error: result.error, message: result.error });
+    }
+    res.status(202).json({ success: true, requestId: result.apiRequestId, status: 'pending', cost: result.cost, coveredBySubscription: result.coveredBySubscription, coveredByPack: result.coveredByPack });
   } catch (error) {
     console.error('❌ [POET_STYLE] Ошибка при создании селфи с поэтом:', error);
     
@@ -1080,13 +1211,14 @@ app.post('/api/photos/poet-style', upload.single('photo'), async (req: MulterReq
  * Получить историю стилизаций с поэтами пользователя
  * GET /api/photos/history/:userId/poet-style
  */
-app.get('/api/photos/history/:userId/poet-style', async (req, res) => {
+app.get('/api/photos/history/:userId/poet-style', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { userId } = req.params;
+    // Параметр :userId оставлен для совместимости, история отдается только владельцу сессии
+    const userId = req.user!.id;
     const { page = 1, limit = 10 } = req.query;
     
     const history = await PhotoRestorationService.getUserPhotoHistoryByModule(
-      parseInt(userId),
+      userId,
       'poet_style',
       parseInt(page as string),
       parseInt(limit as string)
@@ -1102,9 +1234,12 @@ app.get('/api/photos/history/:userId/poet-style', async (req, res) => {
 /**
  * Генерация изображения по промпту
  */
-app.post('/api/images/generate', async (req, res) => {
+app.post('/api/images/generate', requireAuth, processingRateLimit, idempotent, async (req: IdempotentRequest, res: Response) => {
   try {
-    const { userId, telegramId, prompt, options } = req.body;
+    const { prompt, options } = req.body;
+    // Пользователь определяется по сессии, а не по данным из тела запроса
+    const userId = req.user!.id;
+    const telegramId = req.user!.telegram_id;
     
     console.log('🎨 [IMAGE_GEN] Начинаем процесс генерации изображения');
     console.log('🎨 [IMAGE_GEN] userId (database):', userId);
@@ -1112,29 +1247,34 @@ app.post('/api/images/generate', async (req, res) => {
     console.log('🎨 [IMAGE_GEN] prompt:', prompt?.substring(0, 100) + '...');
     console.log('🎨 [IMAGE_GEN] options:', options);
     
-    if (!userId) {
-      return res.status(400).json({ error: 'userId обязателен' });
-    }
-
-    if (!telegramId) {
-      return res.status(400).json({ error: 'telegramId обязателен' });
-    }
-
     if (!prompt || prompt.trim().length === 0) {
       return res.status(400).json({ error: 'prompt обязателен' });
     }
 
-    // Запускаем процесс генерации изображения
-    console.log('🎨 [IMAGE_GEN] Вызываем ImageGenerationService...');
-    const result = await ImageGenerationService.generateImage({
-      userId: parseInt(userId),
-      telegramId: parseInt(telegramId),
+    // Ставим генерацию изображения в очередь
+    const cost = await ImageGenerationService.getGenerationCost(userId);
+    const result = await JobQueueService.enqueue({
+      type: 'image_generate',
+      userId,
+      apiName: 'image_generation',
+      requestType: 'image_generate',
+      cost,
+      description: 'Генерация изображения',
       prompt: prompt.trim(),
-      options: options || {}
+      payload: {
+        userId: userId,
+        telegramId: telegramId,
+        prompt: prompt.trim(),
+        options: options || {}
+      },
+      idempotencyKeyId: req.idempotencyKeyId
     });
 
-    console.log('🎨 [IMAGE_GEN] Результат генерации:', result);
-    res.json(result);
+    console.log('🎨 [IMAGE_GEN] Постановка в очередь:', result);
+    if (!result.success) {
+      return res.json({ success: false, error: result.error });
+    }
+    res.status(202).json({ success: true, requestId: result.apiRequestId, status: 'pending', cost: result.cost, coveredBySubscription: result.coveredBySubscription, coveredByPack: result.coveredByPack });
   } catch (error) {
     console.error('❌ [IMAGE_GEN] Ошибка при генерации изображения:', error);
     res.status(500).json({ error: 'Внутренняя ошибка сервера' });
@@ -1157,16 +1297,20 @@ app.get('/api/images/generation-cost', async (req, res) => {
 /**
  * Получить баланс пользователя с синхронизацией LeadTech
  */
-app.get('/api/balance/:userId', async (req, res) => {
+app.get('/api/balance/:userId', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { userId } = req.params;
-    console.log('💰 Получаем баланс для пользователя:', userId);
+    // Параметр :userId оставлен для совместимости, баланс отдается только владельцу сессии
+    const telegramId = req.user!.telegram_id;
+    console.log('💰 Получаем баланс для пользователя:', telegramId);
     
     // Получаем баланс с синхронизацией LeadTech
-    const balance = await BalanceService.getBalanceWithSync(parseInt(userId));
+    const balance = await BalanceService.getBalanceWithSync(telegramId);
     console.log('💰 Баланс после синхронизации:', balance);
+
+    // Часть баланса может быть зарезервирована под выполняющиеся задачи
+    const { held, available } = await BalanceService.getBalanceSummary(req.user!.id);
     
-    res.json({ balance });
+    res.json({ balance, available, held });
   } catch (error) {
     console.error('Ошибка при получении баланса:', error);
     res.status(500).json({ error: 'Внутренняя ошибка сервера' });
@@ -1174,35 +1318,295 @@ app.get('/api/balance/:userId', async (req, res) => {
 });
 
 /**
- * Пополнить баланс пользователя
+ * Создать платежное намерение на пополнение баланса
+ * Баланс зачисляется только после подтвержденного webhook провайдера (POST /api/webhook/payments/:provider)
  */
-app.post('/api/balance/top-up', async (req, res) => {
+app.post('/api/balance/top-up', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { userId, amount, description } = req.body;
-    
-    if (!userId || !amount) {
-      return res.status(400).json({ error: 'userId и amount обязательны' });
+    const { amount, paymentMethod, description } = req.body;
+    const user = req.user!;
+
+    if (!amount) {
+      return res.status(400).json({ success: false, error: 'amount обязателен' });
     }
 
-    await BalanceService.credit(userId, amount, description || 'Пополнение баланса');
-    const newBalance = await BalanceService.getBalance(userId);
-    
-    res.json({ success: true, balance: newBalance });
+    const result = await PaymentService.createTopUpIntent(
+      user.id,
+      Number(amount),
+      (paymentMethod || 'card') as PaymentMethod,
+      description
+    );
+
+    if (!result.success || !result.payment) {
+      return res.status(400).json({ success: false, error: result.error });
+    }
+
+    res.json({
+      success: true,
+      payment: {
+        paymentId: result.payment.payment_id,
+        amount: Number(result.payment.amount),
+        paymentMethod: result.payment.payment_method,
+        status: result.payment.status,
+        confirmationUrl: result.confirmationUrl
+      }
+    });
   } catch (error) {
-    console.error('Ошибка при пополнении баланса:', error);
-    res.status(500).json({ error: 'Внутренняя ошибка сервера' });
+    console.error('Ошибка при создании пополнения баланса:', error);
+    res.status(500).json({ success: false, error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+/**
+ * Создать пополнение баланса, оплачиваемое в Telegram Stars
+ * Mini App открывает invoiceLink через Telegram.WebApp.openInvoice
+ */
+app.post('/api/balance/top-up/stars', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { stars } = req.body;
+
+    if (!stars) {
+      return res.status(400).json({ success: false, error: 'stars обязателен' });
+    }
+
+    const result = await PaymentService.createStarsTopUp(req.user!.id, Number(stars));
+
+    if (!result.success || !result.payment) {
+      return res.status(400).json({ success: false, error: result.error });
+    }
+
+    res.json({
+      success: true,
+      payment: {
+        paymentId: result.payment.payment_id,
+        amount: Number(result.payment.amount),
+        stars: result.stars,
+        paymentMethod: result.payment.payment_method,
+        status: result.payment.status,
+        invoiceLink: result.confirmationUrl
+      }
+    });
+  } catch (error) {
+    console.error('Ошибка при создании пополнения через Telegram Stars:', error);
+    res.status(500).json({ success: false, error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+/**
+ * Получить статус пополнения баланса
+ */
+app.get('/api/balance/top-up/:paymentId', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const payment = await PaymentService.getTopUp(req.params.paymentId, req.user!.id);
+
+    if (!payment) {
+      return res.status(404).json({ success: false, error: 'Платеж не найден' });
+    }
+
+    res.json({
+      success: true,
+      payment: {
+        paymentId: payment.payment_id,
+        amount: Number(payment.amount),
+        paymentMethod: payment.payment_method,
+        status: payment.status,
+        paymentDate: payment.payment_date
+      }
+    });
+  } catch (error) {
+    console.error('Ошибка при получении статуса пополнения:', error);
+    res.status(500).json({ success: false, error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+/**
+ * Активировать промокод
+ * Фиксированный бонус зачисляется сразу, процентный — при следующем подтвержденном пополнении
+ */
+app.post('/api/balance/redeem', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code } = req.body;
+    const user = req.user!;
+
+    if (!code || typeof code !== 'string' || code.trim().length > 64) {
+      return res.status(400).json({ success: false, error: 'code обязателен' });
+    }
+
+    // Ограничение попыток, чтобы промокоды нельзя было подобрать перебором
+    const check = AbuseProtectionService.hit(`redeem:${user.id}`, AbuseProtectionService.PROMO_REDEEM_PER_MINUTE);
+    if (!check.allowed) {
+      res.setHeader('Retry-After', String(Math.ceil((check.retryAfterMs || 0) / 1000)));
+      return res.status(429).json({ success: false, error: 'Слишком много попыток, попробуйте чуть позже' });
+    }
+
+    const result = await PromoCodeService.redeem(user.id, code);
+    if (!result.success) {
+      return res.status(400).json({ success: false, error: result.error });
+    }
+
+    res.json({
+      success: true,
+      status: result.status,
+      bonusAmount: result.bonusAmount,
+      percent: result.percent,
+      balance: result.balance
+    });
+  } catch (error) {
+    console.error('Ошибка при активации промокода:', error);
+    res.status(500).json({ success: false, error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+/**
+ * Получить доступные тарифы подписки
+ */
+app.get('/api/subscriptions/plans', async (req: Request, res: Response) => {
+  try {
+    const plans = await SubscriptionService.listPlans();
+
+    res.json({
+      success: true,
+      plans: plans.map(plan => ({
+        id: plan.id,
+        code: plan.code,
+        name: plan.name,
+        description: plan.description,
+        price: Number(plan.price),
+        periodDays: plan.period_days,
+        quotas: plan.quotas
+      }))
+    });
+  } catch (error) {
+    console.error('Ошибка при получении тарифов подписки:', error);
+    res.status(500).json({ success: false, error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+/**
+ * Получить подписку пользователя и остаток квот
+ */
+app.get('/api/subscriptions/current', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      subscription: await SubscriptionService.getStatus(req.user!.id)
+    });
+  } catch (error) {
+    console.error('Ошибка при получении подписки:', error);
+    res.status(500).json({ success: false, error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+/**
+ * Оформить или продлить подписку
+ * Подписка активируется после подтвержденного webhook провайдера, как и пополнение баланса
+ */
+app.post('/api/subscriptions', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { planId, paymentMethod } = req.body;
+
+    const plan = await SubscriptionService.findActivePlan(Number(planId));
+    if (!plan) {
+      return res.status(400).json({ success: false, error: 'Тариф не найден' });
+    }
+
+    const result = await PaymentService.createSubscriptionIntent(req.user!.id, plan, (paymentMethod || 'card') as PaymentMethod);
+
+    if (!result.success || !result.payment) {
+      return res.status(400).json({ success: false, error: result.error });
+    }
+
+    res.json({
+      success: true,
+      payment: {
+        paymentId: result.payment.payment_id,
+        amount: Number(result.payment.amount),
+        paymentMethod: result.payment.payment_method,
+        status: result.payment.status,
+        confirmationUrl: result.confirmationUrl
+      }
+    });
+  } catch (error) {
+    console.error('Ошибка при оформлении подписки:', error);
+    res.status(500).json({ success: false, error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+/**
+ * Получить действующие предложения пакетов запросов с ценами «было/стало»
+ */
+app.get('/api/packs', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      packs: await PackService.getOffers(typeof req.query.serviceType === 'string' ? req.query.serviceType : undefined)
+    });
+  } catch (error) {
+    console.error('Ошибка при получении пакетов:', error);
+    res.status(500).json({ success: false, error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+/**
+ * Получить купленные пакеты пользователя с остатком
+ */
+app.get('/api/packs/current', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      packs: await PackService.getUserPacks(req.user!.id)
+    });
+  } catch (error) {
+    console.error('Ошибка при получении пакетов пользователя:', error);
+    res.status(500).json({ success: false, error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+/**
+ * Купить пакет запросов
+ * Пакет выдается после подтвержденного webhook провайдера, как и подписка
+ */
+app.post('/api/packs', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { ruleId, paymentMethod } = req.body;
+
+    const offer = await PackService.findOffer(Number(ruleId));
+    if (!offer) {
+      return res.status(400).json({ success: false, error: 'Пакет не найден' });
+    }
+
+    const result = await PaymentService.createPackIntent(req.user!.id, offer, (paymentMethod || 'card') as PaymentMethod);
+
+    if (!result.success || !result.payment) {
+      return res.status(400).json({ success: false, error: result.error });
+    }
+
+    res.json({
+      success: true,
+      payment: {
+        paymentId: result.payment.payment_id,
+        amount: Number(result.payment.amount),
+        paymentMethod: result.payment.payment_method,
+        status: result.payment.status,
+        confirmationUrl: result.confirmationUrl
+      }
+    });
+  } catch (error) {
+    console.error('Ошибка при покупке пакета:', error);
+    res.status(500).json({ success: false, error: 'Внутренняя ошибка сервера' });
   }
 });
 
 /**
  * Установить LeadTech contact ID для пользователя
  */
-app.post('/api/balance/set-leadtech-id', async (req, res) => {
+app.post('/api/balance/set-leadtech-id', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { telegramUserId, contactId } = req.body;
+    const { contactId } = req.body;
+    const telegramUserId = req.user!.telegram_id;
     
-    if (!telegramUserId || !contactId) {
-      return res.status(400).json({ error: 'telegramUserId и contactId обязательны' });
+    if (!contactId) {
+      return res.status(400).json({ error: 'contactId обязателен' });
     }
 
     console.log('🔗 Устанавливаем LeadTech contact ID:', contactId, 'для пользователя:', telegramUserId);
@@ -1231,11 +1635,10 @@ app.post('/api/balance/set-leadtech-id', async (req, res) => {
 /**
  * Получить информацию о связи с LeadTech для пользователя
  */
-app.get('/api/balance/leadtech-info/:telegramUserId', async (req, res) => {
+app.get('/api/balance/leadtech-info/:telegramUserId', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { telegramUserId } = req.params;
-    
-    const user = await BalanceService.getUser(parseInt(telegramUserId));
+    // Параметр :telegramUserId оставлен для совместимости, информация отдается только владельцу сессии
+    const user = await BalanceService.getUser(req.user!.telegram_id);
     if (!user) {
       return res.status(404).json({ error: 'Пользователь не найден' });
     }
@@ -1260,9 +1663,12 @@ app.get('/api/balance/leadtech-info/:telegramUserId', async (req, res) => {
 /**
  * Text-to-Image генерация (эндпоинт для фронтенда)
  */
-app.post('/api/photos/generate', upload.none(), async (req, res) => {
+app.post('/api/photos/generate', requireAuth, processingRateLimit, upload.none(), idempotent, async (req: IdempotentRequest, res: Response) => {
   try {
-    const { prompt, userId, telegramId, moduleName } = req.body;
+    const { prompt, moduleName } = req.body;
+    // Пользователь определяется по сессии, а не по данным из тела запроса
+    const userId = req.user!.id;
+    const telegramId = req.user!.telegram_id;
     
     console.log('🎨 [PHOTOS/GENERATE] Начинаем process text2img генерации');
     console.log('🎨 [PHOTOS/GENERATE] userId (database):', userId);
@@ -1270,22 +1676,6 @@ app.post('/api/photos/generate', upload.none(), async (req, res) => {
     console.log('🎨 [PHOTOS/GENERATE] moduleName:', moduleName);
     console.log('🎨 [PHOTOS/GENERATE] prompt:', prompt?.substring(0, 100) + '...');
     
-    if (!userId || isNaN(parseInt(userId))) {
-      return res.status(400).json({ 
-        success: false,
-        error: 'userId обязателен и должен быть числом',
-        message: 'userId обязателен и должен быть числом'
-      });
-    }
-
-    if (!telegramId || isNaN(parseInt(telegramId))) {
-      return res.status(400).json({ 
-        success: false,
-        error: 'telegramId обязателен и должен быть числом',
-        message: 'telegramId обязателен и должен быть числом'
-      });
-    }
-
     if (!prompt || prompt.trim().length === 0) {
       return res.status(400).json({ 
         success: false,
@@ -1294,18 +1684,31 @@ app.post('/api/photos/generate', upload.none(), async (req, res) => {
       });
     }
 
-    // Запускаем процесс генерации изображения
-    console.log('🎨 [PHOTOS/GENERATE] Вызываем ImageGenerationService...');
-    const result = await ImageGenerationService.generateImage({
-      userId: parseInt(userId),
-      telegramId: parseInt(telegramId),
+    // Ставим генерацию изображения в очередь
+    const cost = await ImageGenerationService.getGenerationCost(userId);
+    const result = await JobQueueService.enqueue({
+      type: 'image_generate',
+      userId,
+      apiName: 'image_generation',
+      requestType: 'image_generate',
+      cost,
+      description: 'Генерация изображения',
       prompt: prompt.trim(),
-      moduleName: moduleName || 'image_generation',
-      options: {}
+      payload: {
+        userId: userId,
+        telegramId: telegramId,
+        prompt: prompt.trim(),
+        moduleName: moduleName || 'image_generation',
+        options: {}
+      },
+      idempotencyKeyId: req.idempotencyKeyId
     });
 
-    console.log('🎨 [PHOTOS/GENERATE] Результат генерации:', result);
-    res.json(result);
+    console.log('🎨 [PHOTOS/GENERATE] Постановка в очередь:', result);
+    if (!result.success) {
+      return res.json({ success: false, error: result.error, message: result.error });
+    }
+    res.status(202).json({ success: true, requestId: result.apiRequestId, status: 'pending', cost: result.cost, coveredBySubscription: result.coveredBySubscription, coveredByPack: result.coveredByPack });
   } catch (error) {
     console.error('❌ [PHOTOS/GENERATE] Ошибка при генерации изображения:', error);
     res.status(500).json({ 
@@ -1319,9 +1722,12 @@ app.post('/api/photos/generate', upload.none(), async (req, res) => {
 /**
  * Image-to-Image генерация (эндпоинт для фронтенда)
  */
-app.post('/api/photos/generate-img2img', upload.array('referenceImages', 8), async (req: Request, res: Response) => {
+app.post('/api/photos/generate-img2img', requireAuth, processingRateLimit, upload.array('referenceImages', 8), idempotent, async (req: IdempotentRequest, res: Response) => {
   try {
-    const { prompt, userId, telegramId, moduleName } = req.body;
+    const { prompt, moduleName } = req.body;
+    // Пользователь определяется по сессии, а не по данным из тела запроса
+    const userId = req.user!.id;
+    const telegramId = req.user!.telegram_id;
     const referenceImages = req.files as Express.Multer.File[];
     
     console.log('🎨 [PHOTOS/GENERATE-IMG2IMG] Начинаем процесс img2img генерации');
@@ -1331,24 +1737,6 @@ app.post('/api/photos/generate-img2img', upload.array('referenceImages', 8), asy
     console.log('🎨 [PHOTOS/GENERATE-IMG2IMG] prompt:', prompt?.substring(0, 100) + '...');
     console.log('🎨 [PHOTOS/GENERATE-IMG2IMG] referenceImages count:', referenceImages?.length || 0);
     
-    if (!userId || isNaN(parseInt(userId))) {
-      console.error('❌ [PHOTOS/GENERATE-IMG2IMG] Неверный userId:', userId);
-      return res.status(400).json({ 
-        success: false,
-        error: 'userId обязателен и должен быть числом',
-        message: 'userId обязателен и должен быть числом'
-      });
-    }
-
-    if (!telegramId || isNaN(parseInt(telegramId))) {
-      console.error('❌ [PHOTOS/GENERATE-IMG2IMG] Неверный telegramId:', telegramId);
-      return res.status(400).json({ 
-        success: false,
-        error: 'telegramId обязателен и должен быть числом',
-        message: 'telegramId обязателен и должен быть числом'
-      });
-    }
-
     if (!prompt || prompt.trim().length === 0) {
       return res.status(400).json({ 
         success: false,
@@ -1373,33 +1761,48 @@ app.post('/api/photos/generate-img2img', upload.array('referenceImages', 8), asy
       });
     }
 
-    // Запускаем процесс генерации изображения с референсами
-    console.log('🎨 [PHOTOS/GENERATE-IMG2IMG] Вызываем ImageGenerationService...');
-    const result = await ImageGenerationService.generateImageWithReference({
-      userId: parseInt(userId),
-      telegramId: parseInt(telegramId),
+    // Ставим генерацию с референсами в очередь
+    // Временные файлы референсов удаляет воркер после обработки
+    const cost = await ImageGenerationService.getGenerationCost(userId);
+    const result = await JobQueueService.enqueue({
+      type: 'image_generate_img2img',
+      userId,
+      apiName: 'image_generation_img2img',
+      requestType: 'image_generate',
+      cost,
+      description: 'Генерация изображения с референсом',
       prompt: prompt.trim(),
-      referenceImages: referenceImages,
-      moduleName: moduleName || 'image_generation_img2img',
-      options: {}
+      payload: {
+        userId: userId,
+        telegramId: telegramId,
+        prompt: prompt.trim(),
+        referenceImages: referenceImages.map(({ buffer, ...file }) => file),
+        moduleName: moduleName || 'image_generation_img2img',
+        options: {}
+      },
+      idempotencyKeyId: req.idempotencyKeyId
     });
 
-    console.log('🎨 [PHOTOS/GENERATE-IMG2IMG] Результат генерации:', result);
-    
-    // Очистка временных файлов
-    try {
-      const fs = require('fs');
-      for (const file of referenceImages) {
-        if (fs.existsSync(file.path)) {
-          fs.unlinkSync(file.path);
-          console.log('🗑️ Удален временный файл:', file.path);
+    console.log('🎨 [PHOTOS/GENERATE-IMG2IMG] Постановка в очередь:', result);
+
+    if (!result.success) {
+      // Задача не принята, временные файлы больше не нужны
+      try {
+        const fs = require('fs');
+        for (const file of referenceImages) {
+          if (fs.existsSync(file.path)) {
+            fs.unlinkSync(file.path);
+            console.log('🗑️ Удален временный файл:', file.path);
+          }
         }
+      } catch (cleanupError) {
+        console.error('❌ Ошибка при очистке временных файлов:', cleanupError);
       }
-    } catch (cleanupError) {
-      console.error('❌ Ошибка при очистке временных файлов:', cleanupError);
+
+      return res.json({ success: false, error: result.error, message: result.error });
     }
     
-    res.json(result);
+    res.status(202).json({ success: true, requestId: result.apiRequestId, status: 'pending', cost: result.cost, coveredBySubscription: result.coveredBySubscription, coveredByPack: result.coveredByPack });
   } catch (error) {
     console.error('❌ [PHOTOS/GENERATE-IMG2IMG] Ошибка при генерации изображения:', error);
     
@@ -1439,7 +1842,21 @@ app.use((error: MulterError | Error, req: Request, res: Response, next: NextFunc
   res.status(500).json({ error: 'Внутренняя ошибка сервера' });
 });
 
-app.listen(PORT, async () => {
+/**
+ * Запуск сервера: без перенесенных в журнал начальных остатков сервер не стартует (см. 20251019_seed_ledger_opening_balances)
+ */
+let server: ReturnType<typeof app.listen> | undefined;
+const start = async () => {
+  const unseededUsers = await LedgerService.countUnseededUsers();
+  if (unseededUsers > 0) {
+    console.error(`💥 [LEDGER] У ${unseededUsers} пользователей баланс не перенесен в журнал операций. Запустите npm run migrate`);
+    process.exit(1);
+  }
+
+  server = app.listen(PORT, onListening);
+};
+
+const onListening = async () => {
   console.log(`Server run on port: ${PORT}`);
   
   // Создаем базовую папку uploads, если она не существует
@@ -1462,4 +1879,39 @@ app.listen(PORT, async () => {
   } catch (error) {
     console.error('❌ Ошибка при копировании изображений при запуске:', error);
   }
+
+  // Периодическая сверка балансов с журналом операций
+  LedgerService.startReconciliationJob();
+
+  // Воркеры очереди обработки (задачи, брошенные при перезапуске, будут подхвачены по истечении аренды)
+  JobQueueService.startWorkers();
+};
+
+start().catch((error) => {
+  console.error('💥 Не удалось запустить сервер:', error);
+  process.exit(1);
 });
+
+/**
+ * Корректная остановка при деплое: новые запросы не принимаются, воркеры дорабатывают текущие задачи
+ */
+let shuttingDown = false;
+const shutdown = async (signal: string) => {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+  console.log(`🛑 Получен ${signal}, останавливаем сервер...`);
+
+  server?.close();
+  LedgerService.stopReconciliationJob();
+  try {
+    await JobQueueService.stopWorkers();
+  } catch (error) {
+    console.error('❌ Ошибка при остановке воркеров очереди:', error);
+  }
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
@@ -0,0 +1,147 @@
+import { Op } from 'sequelize';
+import { ApiRequest, Job, User } from '../models/index';
+
+export interface RateLimitCheck {
+  allowed: boolean;
+  retryAfterMs?: number; // через сколько освободится место в окне
+}
+
+/**
+ * Защита платных эндпоинтов от злоупотреблений
+ * Лимиты запросов на пользователя и IP (скользящее окно в памяти процесса), ограничение числа
+ * одновременных задач пользователя и временная блокировка за систематическое превышение лимитов
+ */
+export class AbuseProtectionService {
+  // Лимиты запросов к эндпоинтам обработки и загрузки (см. docs/RATE_LIMITS.md)
+  static readonly USER_REQUESTS_PER_MINUTE = parseInt(process.env.RATE_LIMIT_USER_PER_MINUTE || '10');
+  static readonly IP_REQUESTS_PER_MINUTE = parseInt(process.env.RATE_LIMIT_IP_PER_MINUTE || '30');
+  static readonly MAX_CONCURRENT_JOBS = parseInt(process.env.MAX_CONCURRENT_JOBS_PER_USER || '3');
+  // Попыток активации промокода в минуту на пользователя
+  static readonly PROMO_REDEEM_PER_MINUTE = parseInt(process.env.PROMO_REDEEM_PER_MINUTE || '5');
+
+  // Автоматическая блокировка: ABUSE_VIOLATIONS отказов по лимиту за ABUSE_WINDOW_MS блокируют на ABUSE_BLOCK_MS
+  private static readonly ABUSE_VIOLATIONS = parseInt(process.env.ABUSE_VIOLATIONS_THRESHOLD || '30');
+  private static readonly ABUSE_WINDOW_MS = parseInt(process.env.ABUSE_WINDOW_MS || '600000'); // 10 минут по умолчанию
+  private static readonly ABUSE_BLOCK_MS = parseInt(process.env.ABUSE_BLOCK_MS || '3600000'); // 1 час по умолчанию
+
+  private static readonly WINDOW_MS = 60000;
+  private static readonly SWEEP_INTERVAL_MS = 60000;
+
+  private static readonly hits = new Map<string, number[]>();
+  private static readonly violations = new Map<number, number[]>();
+  private static lastSweep = Date.now();
+
+  /**
+   * Учесть запрос в скользящем окне в минуту и проверить лимит
+   * Отклоненный запрос в окне не учитывается
+   */
+  static hit(key: string, limitPerMinute: number): RateLimitCheck {
+    if (limitPerMinute <= 0) {
+      return { allowed: true };
+    }
+
+    const now = Date.now();
+    this.sweep(now);
+
+    const timestamps = (this.hits.get(key) || []).filter(time => now - time < this.WINDOW_MS);
+    if (timestamps.length >= limitPerMinute) {
+      this.hits.set(key, timestamps);
+      return { allowed: false, retryAfterMs: timestamps[0] + this.WINDOW_MS - now };
+    }
+
+    timestamps.push(now);
+    this.hits.set(key, timestamps);
+    return { allowed: true };
+  }
+
+  /**
+   * Число задач пользователя в очереди и в обработке
+   * Считаются задачи очереди, а не запросы: запрос, зависший в pending/processing без живой задачи, место не занимает
+   */
+  static async countActiveJobs(userId: number): Promise<number> {
+    return await Job.count({
+      where: { status: { [Op.in]: ['queued', 'running'] } },
+      include: [{ model: ApiRequest, as: 'apiRequest', attributes: [], where: { user_id: userId } }]
+    });
+  }
+
+  /**
+   * Учесть отказ пользователю по лимиту; при превышении порога пользователь временно блокируется
+   * Возвращает true, если пользователь заблокирован
+   */
+  static async recordViolation(user: User, reason: string): Promise<boolean> {
+    if (this.ABUSE_VIOLATIONS <= 0) {
+      return false;
+    }
+
+    const now = Date.now();
+    const timestamps = (this.violations.get(user.id) || []).filter(time => now - time < this.ABUSE_WINDOW_MS);
+    timestamps.push(now);
+    this.violations.set(user.id, timestamps);
+
+    if (timestamps.length < this.ABUSE_VIOLATIONS) {
+      return false;
+    }
+
+    this.violations.delete(user.id);
+    await this.blockUser(
+      user,
+      `Автоматическая блокировка: ${timestamps.length} отказов по лимиту за ${Math.round(this.ABUSE_WINDOW_MS / 60000)} мин (последний: ${reason})`,
+      this.ABUSE_BLOCK_MS
+    );
+    return true;
+  }
+
+  /**
+   * Заблокировать пользователя; без durationMs — до снятия блокировки администратором
+   */
+  static async blockUser(user: User, reason: string, durationMs?: number): Promise<void> {
+    await user.update({
+      status: 'blocked',
+      blocked_reason: reason.substring(0, 255),
+      blocked_until: durationMs ? new Date(Date.now() + durationMs) : null
+    });
+    console.warn(`🚫 [ABUSE] Пользователь ${user.id} заблокирован${durationMs ? ` на ${Math.round(durationMs / 60000)} мин` : ''}: ${reason}`);
+  }
+
+  static async unblockUser(user: User): Promise<void> {
+    await user.update({
+      status: 'active',
+      blocked_reason: null,
+      blocked_until: null
+    });
+    this.violations.delete(user.id);
+    console.log(`✅ [ABUSE] Пользователь ${user.id} разблокирован`);
+  }
+
+  /**
+   * Снять временную блокировку, срок которой истек
+   * Вызывается перед проверкой статуса при авторизации
+   */
+  static async liftExpiredBlock(user: User): Promise<void> {
+    if (user.status === 'blocked' && user.blocked_until && user.blocked_until.getTime() <= Date.now()) {
+      await this.unblockUser(user);
+    }
+  }
+
+  /**
+   * Удалить из памяти устаревшие окна, чтобы счетчики не росли бесконечно
+   */
+  private static sweep(now: number): void {
+    if (now - this.lastSweep < this.SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+
+    for (const [key, timestamps] of this.hits) {
+      if (timestamps.every(time => now - time >= this.WINDOW_MS)) {
+        this.hits.delete(key);
+      }
+    }
+    for (const [userId, timestamps] of this.violations) {
+      if (timestamps.every(time => now - time >= this.ABUSE_WINDOW_MS)) {
+        this.violations.delete(userId);
+      }
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import { AdminApiKey, User } from '../models/index';
+
+export type AdminRole = 'viewer' | 'operator' | 'finance';
+
+export const ADMIN_ROLES: AdminRole[] = ['viewer', 'operator', 'finance'];
+
+export interface AdminIdentity {
+  type: 'user' | 'api_key';
+  id: number;
+  name: string;
+  roles: AdminRole[];
+  isSuperAdmin: boolean; // пользователь с is_admin=true: все роли + управление ролями и ключами
+}
+
+export interface CreatedApiKey {
+  apiKey: string; // показывается только один раз при создании
+  record: AdminApiKey;
+}
+
+/**
+ * Сервис авторизации администраторов
+ * Определяет роли админа по сессии пользователя или по API ключу
+ */
+export class AdminAuthService {
+  private static readonly API_KEY_PREFIX = 'gna_';
+
+  /**
+   * Проверить, что строка является известной ролью
+   */
+  static isValidRole(role: any): role is AdminRole {
+    return ADMIN_ROLES.includes(role);
+  }
+
+  /**
+   * Получить админскую идентичность пользователя (null, если у пользователя нет ролей)
+   */
+  static resolveUserIdentity(user: User): AdminIdentity | null {
+    if (user.is_admin) {
+      return {
+        type: 'user',
+        id: user.id,
+        name: user.username || String(user.telegram_id),
+        roles: [...ADMIN_ROLES],
+        isSuperAdmin: true
+      };
+    }
+
+    const roles = (user.admin_roles || []).filter(role => this.isValidRole(role));
+    if (roles.length === 0) {
+      return null;
+    }
+
+    return {
+      type: 'user',
+      id: user.id,
+      name: user.username || String(user.telegram_id),
+      roles,
+      isSuperAdmin: false
+    };
+  }
+
+  /**
+   * Найти активный API ключ и вернуть админскую идентичность
+   */
+  static async authenticateApiKey(apiKey: string): Promise<AdminIdentity | null> {
+    if (!apiKey.startsWith(this.API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const record = await AdminApiKey.findOne({
+      where: {
+        key_hash: this.hashKey(apiKey),
+        is_active: true
+      }
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    await record.update({ last_used_at: new Date() });
+
+    return {
+      type: 'api_key',
+      id: record.id,
+      name: record.name,
+      roles: (record.roles || []).filter(role => this.isValidRole(role)),
+      isSuperAdmin: false
+    };
+  }
+
+  /**
+   * Проверить наличие роли у админа
+   */
+  static hasRole(identity: AdminIdentity, role: AdminRole): boolean {
+    return identity.isSuperAdmin || identity.roles.includes(role);
+  }
+
+  /**
+   * Создать новый API ключ (в БД хранится только хеш)
+   */
+  static async createApiKey(name: string, roles: AdminRole[], createdBy?: number): Promise<CreatedApiKey> {
+    const apiKey = `${this.API_KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+
+    const record = await AdminApiKey.create({
+      name,
+      key_hash: this.hashKey(apiKey),
+      key_prefix: apiKey.substring(0, 12),
+      roles,
+      created_by: createdBy
+    });
+
+    console.log(`🔑 [ADMIN_AUTH] Создан API ключ "${name}" (${record.key_prefix}...) с ролями: ${roles.join(', ')}`);
+    return { apiKey, record };
+  }
+
+  /**
+   * Отозвать API ключ
+   */
+  static async revokeApiKey(id: number): Promise<boolean> {
+    const record = await AdminApiKey.findByPk(id);
+    if (!record) {
+      return false;
+    }
+
+    await record.update({ is_active: false });
+    console.log(`🔒 [ADMIN_AUTH] API ключ "${record.name}" (${record.key_prefix}...) отозван`);
+    return true;
+  }
+
+  /**
+   * Получить строку для логов и аудита: кто выполнил действие
+   */
+  static describe(identity: AdminIdentity): string {
+    return identity.type === 'user'
+      ? `user:${identity.id} (${identity.name})`
+      : `api_key:${identity.id} (${identity.name})`;
+  }
+
+  /**
+   * Хеш API ключа для хранения в БД
+   */
+  private static hashKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
+  }
+}
@@ -0,0 +1,79 @@
+import { Request } from 'express';
+import { AdminAuditLog } from '../models/index';
+import { AdminIdentity } from './AdminAuthService';
+
+export interface AuditEntry {
+  action: string; // например: price.update, prompt.create
+  entityType: string;
+  entityId?: string | number;
+  before?: any;
+  after?: any;
+}
+
+export interface AuditQuery {
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Сервис аудита действий администраторов
+ * Записывает, кто и что изменил (цены, промпты, роли, балансы)
+ */
+export class AuditService {
+  /**
+   * Записать действие администратора
+   * Ошибка записи аудита не прерывает основное действие, она только логируется
+   */
+  static async record(admin: AdminIdentity, entry: AuditEntry, req?: Request): Promise<void> {
+    try {
+      await AdminAuditLog.create({
+        actor_type: admin.type,
+        actor_id: admin.id,
+        actor_name: admin.name,
+        action: entry.action,
+        entity_type: entry.entityType,
+        entity_id: entry.entityId !== undefined ? String(entry.entityId) : undefined,
+        before_data: this.toPlain(entry.before),
+        after_data: this.toPlain(entry.after),
+        ip_address: req?.ip
+      });
+
+      console.log(`📝 [AUDIT] ${admin.type}:${admin.id} (${admin.name}) ${entry.action} ${entry.entityType}${entry.entityId !== undefined ? `#${entry.entityId}` : ''}`);
+    } catch (error) {
+      console.error('❌ [AUDIT] Ошибка записи аудита:', error);
+    }
+  }
+
+  /**
+   * Получить записи аудита с фильтрацией и пагинацией
+   */
+  static async list(query: AuditQuery = {}): Promise<{ rows: AdminAuditLog[]; count: number }> {
+    const page = query.page || 1;
+    const limit = query.limit || 50;
+
+    const whereClause: any = {};
+    if (query.entityType) whereClause.entity_type = query.entityType;
+    if (query.entityId) whereClause.entity_id = query.entityId;
+    if (query.action) whereClause.action = query.action;
+
+    return await AdminAuditLog.findAndCountAll({
+      where: whereClause,
+      order: [['created_at', 'DESC']],
+      limit,
+      offset: (page - 1) * limit
+    });
+  }
+
+  /**
+   * Привести модель Sequelize или значение к обычному объекту для JSON колонки
+   */
+  private static toPlain(value: any): any {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    return typeof value.toJSON === 'function' ? value.toJSON() : value;
+  }
+}
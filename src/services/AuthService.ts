@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import { User } from '../models/index';
+import { AbuseProtectionService } from './AbuseProtectionService';
+
+export type SessionTokenType = 'access' | 'refresh';
+
+export interface SessionTokenPayload {
+  sub: number; // database id пользователя
+  tg: number; // telegram_id пользователя
+  typ: SessionTokenType;
+  ver: number; // users.token_version на момент выдачи
+  iat: number;
+  exp: number;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string;
+  refreshExpiresAt: string;
+}
+
+export interface VerifyTokenResult {
+  success: boolean;
+  payload?: SessionTokenPayload;
+  error?: string;
+}
+
+/**
+ * Секрет подписи токенов: вне development/test обязателен, чтобы токены нельзя было подделать известным значением
+ */
+const resolveSessionSecret = (): string => {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test') {
+    return 'test_session_secret';
+  }
+  throw new Error('SESSION_SECRET не задан: без него сервер не запускается');
+};
+
+/**
+ * Сервис сессий пользователей Mini App
+ * Выдает подписанные HMAC-SHA256 токены после валидации initData и проверяет их
+ */
+export class AuthService {
+  private static readonly SESSION_SECRET = resolveSessionSecret();
+  private static readonly ACCESS_TOKEN_TTL = parseInt(process.env.SESSION_ACCESS_TTL || '3600'); // 1 час по умолчанию (в секундах)
+  private static readonly REFRESH_TOKEN_TTL = parseInt(process.env.SESSION_REFRESH_TTL || '2592000'); // 30 дней по умолчанию (в секундах)
+
+  /**
+   * Выдать пару токенов (access + refresh) для пользователя
+   */
+  static issueTokens(user: User): SessionTokens {
+    const now = Math.floor(Date.now() / 1000);
+
+    const accessPayload: SessionTokenPayload = {
+      sub: user.id,
+      tg: Number(user.telegram_id),
+      typ: 'access',
+      ver: user.token_version || 0,
+      iat: now,
+      exp: now + this.ACCESS_TOKEN_TTL
+    };
+
+    const refreshPayload: SessionTokenPayload = {
+      ...accessPayload,
+      typ: 'refresh',
+      exp: now + this.REFRESH_TOKEN_TTL
+    };
+
+    return {
+      accessToken: this.sign(accessPayload),
+      refreshToken: this.sign(refreshPayload),
+      expiresAt: new Date(accessPayload.exp * 1000).toISOString(),
+      refreshExpiresAt: new Date(refreshPayload.exp * 1000).toISOString()
+    };
+  }
+
+  /**
+   * Проверить токен и вернуть его содержимое
+   */
+  static verifyToken(token: string, expectedType: SessionTokenType): VerifyTokenResult {
+    const parts = token.split('.');
+    if (parts.length !== 2) {
+      return { success: false, error: 'Неверный формат токена' };
+    }
+
+    const [encodedPayload, signature] = parts;
+    const expectedSignature = this.createSignature(encodedPayload);
+
+    const signatureBuffer = Buffer.from(signature);
+    const expectedBuffer = Buffer.from(expectedSignature);
+    if (signatureBuffer.length !== expectedBuffer.length || !crypto.timingSafeEqual(signatureBuffer, expectedBuffer)) {
+      return { success: false, error: 'Неверная подпись токена' };
+    }
+
+    let payload: SessionTokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch (error) {
+      return { success: false, error: 'Неверный формат токена' };
+    }
+
+    if (payload.typ !== expectedType) {
+      return { success: false, error: 'Неверный тип токена' };
+    }
+
+    if (!payload.exp || payload.exp <= Math.floor(Date.now() / 1000)) {
+      return { success: false, error: 'Срок действия токена истек' };
+    }
+
+    return { success: true, payload };
+  }
+
+  /**
+   * Обновить пару токенов по refresh токену
+   */
+  static async refreshTokens(refreshToken: string): Promise<{ success: boolean; tokens?: SessionTokens; user?: User; error?: string }> {
+    const verification = this.verifyToken(refreshToken, 'refresh');
+    if (!verification.success || !verification.payload) {
+      return { success: false, error: verification.error };
+    }
+
+    const user = await User.findByPk(verification.payload.sub);
+    if (!user || Number(user.telegram_id) !== verification.payload.tg) {
+      return { success: false, error: 'Пользователь не найден' };
+    }
+
+    if (!this.isCurrentVersion(verification.payload, user)) {
+      return { success: false, error: 'Сессия завершена' };
+    }
+
+    await AbuseProtectionService.liftExpiredBlock(user);
+    if (user.status === 'blocked') {
+      return { success: false, error: 'Пользователь заблокирован' };
+    }
+
+    return { success: true, tokens: this.issueTokens(user), user };
+  }
+
+  /**
+   * Завершить все сессии пользователя: выданные ранее access и refresh токены перестают приниматься
+   */
+  static async revokeSessions(user: User): Promise<void> {
+    await user.increment('token_version');
+    await user.reload();
+    console.log(`🔒 [AUTH] Сессии пользователя ${user.id} завершены (версия ${user.token_version})`);
+  }
+
+  /**
+   * Выдан ли токен для текущей версии сессий пользователя
+   */
+  static isCurrentVersion(payload: SessionTokenPayload, user: User): boolean {
+    // Токены, выданные до появления версии, считаются выданными для версии 0
+    return (payload.ver ?? 0) === (user.token_version || 0);
+  }
+
+  /**
+   * Подписать содержимое токена
+   */
+  private static sign(payload: SessionTokenPayload): string {
+    const encodedPayload = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+    return `${encodedPayload}.${this.createSignature(encodedPayload)}`;
+  }
+
+  /**
+   * Вычислить HMAC подпись для закодированного содержимого
+   */
+  private static createSignature(encodedPayload: string): string {
+    return crypto
+      .createHmac('sha256', this.SESSION_SECRET)
+      .update(encodedPayload)
+      .digest('base64url');
+  }
+}
@@ -1,6 +1,10 @@
-import { User, Payment } from '../models/index';
-import { Op } from 'sequelize';
+import { sequelize, User, Payment, BalanceHold, ApiRequest } from '../models/index';
+import { Op, Transaction } from 'sequelize';
 import { LeadTechService } from './LeadTechService';
+import { LedgerService, LedgerEntryType } from './LedgerService';
+import { PackService } from './PackService';
+import { SignupCampaignService } from './SignupCampaignService';
+import { SubscriptionService } from './SubscriptionService';
 
 export interface BalanceTransaction {
   userId: number;
@@ -8,6 +12,7 @@ export interface BalanceTransaction {
   type: 'credit' | 'debit';
   description: string;
   referenceId?: string;
+  entryType?: LedgerEntryType; // по умолчанию top_up для пополнения и job_charge для списания
 }
 
 export interface BalanceResult {
@@ -24,7 +29,45 @@ export interface SyncResult {
   error?: string;
 }
 
+export interface BalanceChange {
+  userId: number;
+  amount: number; // положительная сумма пополняет баланс, отрицательная списывает
+  entryType: LedgerEntryType;
+  description: string;
+  referenceId?: string;
+}
+
+export interface HoldResult {
+  success: boolean;
+  holdId?: number;
+  available?: number;
+  coveredBySubscription?: boolean; // запрос покрыт квотой подписки, резерв на 0 RUB
+  coveredByPack?: boolean; // запрос оплачен купленным пакетом, резерв на 0 RUB
+  error?: string;
+}
+
+export interface RefundResult {
+  success: boolean;
+  balance?: number;
+  amount?: number;
+  refundPaymentId?: number; // зачисление (payments) с reference_id charge_refund_<id списания>
+  alreadyRefunded?: boolean;
+  error?: string;
+}
+
+export interface BalanceSummary {
+  balance: number;
+  held: number; // зарезервировано под выполняющиеся задачи
+  available: number; // можно потратить на новые задачи
+}
+
+/**
+ * Ожидаемая ошибка операции с балансом (текст показывается клиенту)
+ */
+export class BalanceOperationError extends Error {}
+
 export class BalanceService {
+  private static readonly HOLD_TTL_MINUTES = parseInt(process.env.BALANCE_HOLD_TTL_MINUTES || '30');
   
   /**
    * Получить текущий баланс пользователя по database id
@@ -71,28 +114,40 @@ export class BalanceService {
 
   /**
    * Создать нового пользователя
+   * Приветственный бонус начисляется по подходящей кампании (см. SignupCampaignService), кампания сохраняется у пользователя
    */
   static async createUser(userData: any): Promise<any> {
-    const user = await User.create({
-      telegram_id: userData.id,
-      username: userData.username,
-      first_name: userData.firstName,
-      last_name: userData.lastName,
-      balance: 20, // Начальный бонус 20 рублей для новых пользователей
-      status: 'active',
-      is_admin: false
-    });
-    
-    await Payment.create({
-      user_id: user.id,
-      amount: 20,
-      payment_method: 'card',
-      transaction_type: 'credit',
-      status: 'completed',
-      description: 'Приветственный бонус для нового пользователя',
-      reference_id: `welcome_bonus_${user.id}`
+    // Пользователь и запись о бонусе создаются вместе или не создаются вовсе
+    return await sequelize.transaction(async (t) => {
+      const campaign = await SignupCampaignService.findCampaign({
+        languageCode: userData.languageCode,
+        source: userData.signupSource || SignupCampaignService.ORGANIC_SOURCE
+      }, t);
+
+      const user = await User.create({
+        telegram_id: userData.id,
+        username: userData.username,
+        first_name: userData.firstName,
+        last_name: userData.lastName,
+        balance: 0,
+        status: 'active',
+        is_admin: false,
+        signup_campaign_id: campaign?.id ?? null
+      }, { transaction: t });
+
+      if (campaign && Number(campaign.bonus_amount) > 0) {
+        const { balance } = await this.creditBonus({
+          userId: user.id,
+          amount: Number(campaign.bonus_amount),
+          entryType: 'welcome_bonus',
+          description: 'Приветственный бонус для нового пользователя',
+          referenceId: `welcome_bonus_${user.id}`
+        }, t);
+        user.balance = balance;
+      }
+
+      return user;
     });
-    return user;
   }
 
   /**
@@ -169,49 +224,56 @@ export class BalanceService {
       // Если в LeadTech есть баланс, переносим его к нам
       if (leadTechBalance > 0) {
         console.log('💸 [BalanceService] Переносим баланс из LeadTech в локальную систему');
-        
-        // Сохраняем исходный баланс для возможного отката
-        const originalBalance = Number(user.balance); // Приводим к числу
-        
-        // 1. Добавляем баланс из LeadTech к нашему локальному балансу
-        console.log('🔍 [BalanceService] Проверка типов:', `originalBalance=${originalBalance} (тип: ${typeof originalBalance}), leadTechBalance=${leadTechBalance} (тип: ${typeof leadTechBalance})`);
-        const simpleSum = originalBalance + leadTechBalance;
-        console.log('🔍 [BalanceService] Простое сложение:', `${originalBalance} + ${leadTechBalance} = ${simpleSum}`);
-        const newLocalBalance = Math.round(simpleSum * 100) / 100; // Округляем до копеек
-        console.log('💰 [BalanceService] Расчет нового баланса:', `${originalBalance} + ${leadTechBalance} = ${newLocalBalance}`);
-        await user.update({ balance: newLocalBalance });
-        
-        // 2. Записываем транзакцию пополнения
-        await Payment.create({
-          user_id: user.id,
-          amount: leadTechBalance,
-          payment_method: 'card', // Используем card как базовый тип
-          transaction_type: 'credit',
-          status: 'completed',
-          description: 'Перенос баланса из LeadTech',
-          reference_id: `leadtech_transfer_${leadTechAccount.id}`
-        });
-        
-        // 3. Списываем весь баланс из LeadTech
+
         try {
-          const withdrawSuccess = await LeadTechService.withdrawFunds({
-            account_id: leadTechAccount.id.toString(),
-            amount: leadTechAccount.amount, // Используем исходное значение в минимальных единицах
-            description: 'Перенос баланса в локальную систему'
+          const newLocalBalance = await sequelize.transaction(async (t) => {
+            const lockedUser = await this.lockUser(user.id, t);
+
+            // Перечитываем счет под блокировкой: параллельная синхронизация могла уже перенести баланс
+            const account = await LeadTechService.getPrimaryAccount(user.leadtech_contact_id!);
+            const amount = account ? LeadTechService.convertFromMinimalUnit(account.amount) : 0;
+            if (!account || amount <= 0) {
+              return Number(lockedUser.balance);
+            }
+
+            const balance = Math.round((await LedgerService.getUserBalance(user.id, t) + amount) * 100) / 100;
+            await lockedUser.update({ balance }, { transaction: t });
+
+            const payment = await Payment.create({
+              user_id: user.id,
+              amount,
+              payment_method: 'card', // Используем card как базовый тип
+              transaction_type: 'credit',
+              status: 'completed',
+              description: 'Перенос баланса из LeadTech',
+              reference_id: `leadtech_transfer_${account.id}`
+            }, { transaction: t });
+
+            await LedgerService.post({
+              userId: user.id,
+              amount,
+              entryType: 'leadtech_transfer',
+              description: 'Перенос баланса из LeadTech',
+              referenceId: payment.reference_id,
+              paymentId: payment.id
+            }, t);
+
+            // Списываем весь баланс из LeadTech до коммита: при ошибке локальное зачисление откатится вместе с записью
+            const withdrawSuccess = await LeadTechService.withdrawFunds({
+              account_id: account.id.toString(),
+              amount: account.amount, // Используем исходное значение в минимальных единицах
+              description: 'Перенос баланса в локальную систему'
+            });
+
+            if (!withdrawSuccess) {
+              throw new BalanceOperationError('Не удалось списать баланс из LeadTech после переноса');
+            }
+
+            return balance;
           });
-          
-          if (!withdrawSuccess) {
-            console.error('❌ [BalanceService] Не удалось списать баланс из LeadTech после переноса');
-            // Откатываем локальное изменение баланса к исходному значению
-            await user.update({ balance: originalBalance });
-            return { 
-              success: false, 
-              error: 'Не удалось списать баланс из LeadTech после переноса' 
-            };
-          }
-          
+
           console.log('✅ [BalanceService] Баланс успешно перенесен из LeadTech');
-          
+
           return {
             success: true,
             localBalance: newLocalBalance,
@@ -219,12 +281,10 @@ export class BalanceService {
             synchronized: true
           };
         } catch (error) {
-          console.error('❌ [BalanceService] Ошибка при списании из LeadTech:', error);
-          // Откатываем локальное изменение баланса к исходному значению
-          await user.update({ balance: originalBalance });
-          return { 
-            success: false, 
-            error: 'Ошибка при списании баланса из LeadTech' 
+          console.error('❌ [BalanceService] Ошибка при переносе баланса из LeadTech:', error);
+          return {
+            success: false,
+            error: error instanceof BalanceOperationError ? error.message : 'Ошибка при списании баланса из LeadTech'
           };
         }
       }
@@ -260,14 +320,20 @@ export class BalanceService {
    * Пополнить баланс пользователя
    */
   static async creditBalance(transaction: BalanceTransaction): Promise<BalanceResult> {
-    try {
-      const user = await User.findByPk(transaction.userId);
-      if (!user) {
-        return { success: false, error: 'Пользователь не найден' };
-      }
+    return await this.applyBalanceChange(
+      {
+        userId: transaction.userId,
+        amount: transaction.amount,
+        entryType: transaction.entryType || 'top_up',
+        description: transaction.description,
+        referenceId: transaction.referenceId
+      },
+      async (user) => {
+        // Если у пользователя есть LeadTech ID, списываем средства из LeadTech при пополнении к нам
+        if (!user.leadtech_contact_id) {
+          return;
+        }
 
-      // Если у пользователя есть LeadTech ID, списываем средства из LeadTech при пополнении к нам
-      if (user.leadtech_contact_id) {
         try {
           const leadTechAccount = await LeadTechService.getPrimaryAccount(user.leadtech_contact_id);
           if (leadTechAccount) {
@@ -279,75 +345,483 @@ export class BalanceService {
             });
 
             if (!success) {
-              return { success: false, error: 'Не удалось списать средства из LeadTech при пополнении' };
+              throw new BalanceOperationError('Не удалось списать средства из LeadTech при пополнении');
             }
           }
         } catch (error) {
+          if (error instanceof BalanceOperationError) {
+            throw error;
+          }
           console.error('Ошибка при списании из LeadTech при пополнении:', error);
-          return { success: false, error: 'Ошибка при списании из LeadTech при пополнении' };
+          throw new BalanceOperationError('Ошибка при списании из LeadTech при пополнении');
         }
       }
+    );
+  }
 
-      // Увеличиваем баланс
-      const newBalance = user.balance + transaction.amount;
-      await user.update({ balance: newBalance });
+  /**
+   * Списать с баланса пользователя (только локальный баланс)
+   */
+  static async debitBalance(transaction: BalanceTransaction): Promise<BalanceResult> {
+    const result = await this.applyBalanceChange({
+      userId: transaction.userId,
+      amount: -transaction.amount,
+      entryType: transaction.entryType || 'job_charge',
+      description: transaction.description,
+      referenceId: transaction.referenceId
+    });
 
-      // Записываем транзакцию
-      await Payment.create({
-        user_id: transaction.userId,
-        amount: transaction.amount,
-        payment_method: 'card', // Значение по умолчанию
-        transaction_type: 'credit',
-        status: 'completed',
-        description: transaction.description,
-        reference_id: transaction.referenceId
-      });
+    if (result.success) {
+      console.log(`💰 [BalanceService] Списано ${transaction.amount} RUB, новый баланс: ${result.balance} RUB`);
+    }
+    return result;
+  }
 
-      return { success: true, balance: newBalance };
+  /**
+   * Зачислить подтвержденный платеж (pending -> completed) ровно один раз
+   * Повторный вызов для уже обработанного платежа баланс не меняет
+   */
+  static async completePendingPayment(paymentId: string): Promise<BalanceResult & { alreadyProcessed?: boolean }> {
+    try {
+      return await sequelize.transaction(async (t) => {
+        // Блокируем платеж: параллельный повторный webhook дождется коммита и увидит completed
+        const payment = await Payment.findOne({
+          where: { payment_id: paymentId, transaction_type: 'credit' },
+          transaction: t,
+          lock: t.LOCK.UPDATE
+        });
+        if (!payment) {
+          return { success: false, error: 'Платеж не найден' };
+        }
+
+        const user = await this.lockUser(payment.user_id, t);
+
+        if (payment.status !== 'pending') {
+          // Возвращенное пополнение тоже было зачислено: повторный webhook не должен давать ошибку
+          return payment.status === 'completed' || payment.status === 'refunded'
+            ? { success: true, balance: Number(user.balance), alreadyProcessed: true }
+            : { success: false, error: `Платеж в статусе ${payment.status} не может быть зачислен` };
+        }
+
+        const balance = Math.round((await LedgerService.getUserBalance(user.id, t) + Number(payment.amount)) * 100) / 100;
+        await user.update({ balance }, { transaction: t });
+        await payment.update({ status: 'completed', payment_date: new Date() }, { transaction: t });
+
+        await LedgerService.post({
+          userId: user.id,
+          amount: Number(payment.amount),
+          entryType: 'top_up',
+          description: payment.description || 'Пополнение баланса',
+          referenceId: paymentId,
+          paymentId: payment.id
+        }, t);
+
+        console.log(`💰 [BalanceService] Зачислен платеж ${paymentId}: ${payment.amount} RUB, новый баланс: ${balance} RUB`);
+        return { success: true, balance };
+      });
     } catch (error) {
-      console.error('Ошибка при пополнении баланса:', error);
+      console.error('Ошибка при зачислении платежа:', error);
       return { success: false, error: 'Внутренняя ошибка сервера' };
     }
   }
 
   /**
-   * Списать с баланса пользователя (только локальный баланс)
+   * Ручная корректировка баланса (без списаний в LeadTech)
+   * Положительная сумма пополняет баланс, отрицательная — списывает
    */
-  static async debitBalance(transaction: BalanceTransaction): Promise<BalanceResult> {
+  static async adjustBalance(
+    userId: number,
+    amount: number,
+    description: string,
+    referenceId: string,
+    entryType: LedgerEntryType = 'admin_adjustment'
+  ): Promise<BalanceResult> {
+    const result = await this.applyBalanceChange({ userId, amount, entryType, description, referenceId });
+
+    if (result.success) {
+      console.log(`💰 [BalanceService] Корректировка баланса пользователя ${userId}: ${amount} RUB, новый баланс: ${result.balance} RUB`);
+    }
+    return result;
+  }
+
+  /**
+   * Начислить бонус в транзакции вызывающего кода (промокоды, реферальная программа)
+   * В отличие от creditBalance средства не списываются из LeadTech.
+   * Возвращает новый баланс и id зачисления в payments
+   */
+  static async creditBonus(change: BalanceChange, t: Transaction): Promise<{ balance: number; paymentId: number }> {
+    const result = await this.postChange(change, t);
+
+    console.log(`🎁 [BalanceService] Бонус ${change.amount} RUB пользователю ${change.userId} (${change.entryType}), новый баланс: ${result.balance} RUB`);
+    return result;
+  }
+
+  /**
+   * Списать с баланса в транзакции вызывающего кода (например, оплата подписки)
+   * change.amount — положительная сумма списания; при нехватке доступных средств бросает ошибку и транзакция откатывается
+   */
+  static async chargeInTransaction(change: BalanceChange, t: Transaction): Promise<{ balance: number; paymentId: number }> {
+    const result = await this.postChange({ ...change, amount: -Math.abs(change.amount) }, t);
+
+    console.log(`💰 [BalanceService] Списано ${Math.abs(change.amount)} RUB у пользователя ${change.userId} (${change.entryType}), новый баланс: ${result.balance} RUB`);
+    return result;
+  }
+
+  /**
+   * Зачислить на баланс в транзакции вызывающего кода (например, отмена списания при отказе провайдера)
+   */
+  static async creditInTransaction(change: BalanceChange, t: Transaction): Promise<{ balance: number; paymentId: number }> {
+    const result = await this.postChange({ ...change, amount: Math.abs(change.amount) }, t);
+
+    console.log(`💰 [BalanceService] Зачислено ${Math.abs(change.amount)} RUB пользователю ${change.userId} (${change.entryType}), новый баланс: ${result.balance} RUB`);
+    return result;
+  }
+
+  /**
+   * Зарезервировать стоимость задачи при ее приеме
+   * Резерв уменьшает доступный баланс, но не сам баланс; списание происходит в captureHold.
+   * С serviceType сначала проверяется квота подписки, затем купленные пакеты: покрытый ими запрос получает резерв на 0 RUB
+   */
+  static async reserve(userId: number, amount: number, description: string, serviceType?: string): Promise<HoldResult> {
     try {
-      const user = await User.findByPk(transaction.userId);
-      if (!user) {
-        return { success: false, error: 'Пользователь не найден' };
+      return await sequelize.transaction(async (t) => {
+        // Блокировка пользователя упорядочивает параллельные резервы: каждый видит резервы предыдущих
+        const user = await this.lockUser(userId, t);
+
+        const subscription = serviceType ? await SubscriptionService.findQuotaSubscription(userId, serviceType, t) : null;
+        if (subscription) {
+          const hold = await BalanceHold.create({
+            user_id: userId,
+            amount: 0,
+            description: `${description} (подписка)`,
+            expires_at: new Date(Date.now() + this.HOLD_TTL_MINUTES * 60 * 1000),
+            subscription_id: subscription.id,
+            service_type: serviceType
+          }, { transaction: t });
+
+          console.log(`🔒 [BalanceService] Резерв ${hold.id}: квота подписки ${subscription.id} (${serviceType}) для пользователя ${userId}`);
+          return { success: true, holdId: hold.id, coveredBySubscription: true };
+        }
+
+        const pack = serviceType ? await PackService.findQuotaPack(userId, serviceType, t) : null;
+        if (pack) {
+          const hold = await BalanceHold.create({
+            user_id: userId,
+            amount: 0,
+            description: `${description} (пакет)`,
+            expires_at: new Date(Date.now() + this.HOLD_TTL_MINUTES * 60 * 1000),
+            user_pack_id: pack.id,
+            service_type: serviceType
+          }, { transaction: t });
+
+          console.log(`🔒 [BalanceService] Резерв ${hold.id}: пакет ${pack.id} (${serviceType}) для пользователя ${userId}`);
+          return { success: true, holdId: hold.id, coveredByPack: true };
+        }
+
+        const held = await this.getHeldAmount(userId, t);
+        const available = Math.round((await LedgerService.getUserBalance(user.id, t) - held) * 100) / 100;
+
+        if (available < amount) {
+          return { success: false, available, error: `Недостаточно средств на балансе. Требуется: ${amount} ₽` };
+        }
+
+        const hold = await BalanceHold.create({
+          user_id: userId,
+          amount,
+          description,
+          expires_at: new Date(Date.now() + this.HOLD_TTL_MINUTES * 60 * 1000)
+        }, { transaction: t });
+
+        console.log(`🔒 [BalanceService] Резерв ${hold.id}: ${amount} RUB для пользователя ${userId}`);
+        return { success: true, holdId: hold.id, available: Math.round((available - amount) * 100) / 100 };
+      });
+    } catch (error) {
+      if (error instanceof BalanceOperationError) {
+        return { success: false, error: error.message };
       }
+      console.error('Ошибка при резервировании средств:', error);
+      return { success: false, error: 'Внутренняя ошибка сервера' };
+    }
+  }
+
+  /**
+   * Списать зарезервированную сумму после успешного выполнения задачи
+   */
+  static async captureHold(holdId: number, referenceId?: string): Promise<BalanceResult> {
+    try {
+      const balance = await sequelize.transaction(async (t) => {
+        // Порядок блокировок как в reserve: сначала пользователь, затем резерв
+        const holdOwner = await BalanceHold.findByPk(holdId, { attributes: ['user_id'], transaction: t });
+        if (!holdOwner) {
+          throw new BalanceOperationError('Резерв не найден');
+        }
+        const user = await this.lockUser(holdOwner.user_id, t);
+        const hold = await this.lockHold(holdId, t);
+
+        if (hold.status !== 'held') {
+          throw new BalanceOperationError(`Резерв в статусе ${hold.status} не может быть списан`);
+        }
+
+        // Запрос покрыт квотой подписки или пакетом: квота считается израсходованной, баланс не меняется
+        if (hold.subscription_id || hold.user_pack_id) {
+          await hold.update({ status: 'captured', captured_at: new Date() }, { transaction: t });
+          return Number(user.balance);
+        }
 
-      // Проверяем достаточность средств в локальном балансе
-      if (user.balance < transaction.amount) {
-        return { success: false, error: 'Недостаточно средств на балансе' };
+        // Средства уже зарезервированы, поэтому учитываем только сам баланс, без других резервов
+        const newBalance = Math.round((await LedgerService.getUserBalance(user.id, t) - Number(hold.amount)) * 100) / 100;
+        if (newBalance < 0) {
+          throw new BalanceOperationError('Недостаточно средств на балансе');
+        }
+
+        await user.update({ balance: newBalance }, { transaction: t });
+        const payment = await Payment.create({
+          user_id: hold.user_id,
+          amount: Number(hold.amount),
+          payment_method: 'card',
+          transaction_type: 'debit',
+          status: 'completed',
+          description: hold.description,
+          reference_id: referenceId
+        }, { transaction: t });
+
+        await hold.update({ status: 'captured', captured_at: new Date(), payment_id: payment.id }, { transaction: t });
+
+        await LedgerService.post({
+          userId: hold.user_id,
+          amount: -Number(hold.amount),
+          entryType: 'job_charge',
+          description: hold.description,
+          referenceId,
+          paymentId: payment.id
+        }, t);
+
+        return newBalance;
+      });
+
+      console.log(`💰 [BalanceService] Резерв ${holdId} списан, новый баланс: ${balance} RUB`);
+      return { success: true, balance };
+    } catch (error) {
+      if (error instanceof BalanceOperationError) {
+        console.error(`❌ [BalanceService] Резерв ${holdId} не списан: ${error.message}`);
+        return { success: false, error: error.message };
       }
+      console.error('Ошибка при списании резерва:', error);
+      return { success: false, error: 'Внутренняя ошибка сервера' };
+    }
+  }
 
-      // Списываем с локального баланса
-      const newBalance = user.balance - transaction.amount;
-      await user.update({ balance: newBalance });
+  /**
+   * Списать резерв запроса обработки
+   * Резерв принадлежит одному запросу: повтор задачи после падения процесса или истечения аренды
+   * может застать его уже списанным предыдущей попыткой, и повторно платить за тот же запрос не нужно
+   */
+  static async captureRequestHold(holdId: number, referenceId?: string): Promise<BalanceResult> {
+    const hold = await BalanceHold.findByPk(holdId);
+    if (hold?.status === 'captured') {
+      const user = await User.findByPk(hold.user_id);
+      console.log(`💰 [BalanceService] Резерв ${holdId} уже списан предыдущей попыткой`);
+      return { success: true, balance: user ? Number(user.balance) : undefined };
+    }
 
-      // Записываем транзакцию
-      await Payment.create({
-        user_id: transaction.userId,
-        amount: transaction.amount,
-        payment_method: 'card',
-        transaction_type: 'debit',
-        status: 'completed',
-        description: transaction.description,
-        reference_id: transaction.referenceId
+    return await this.captureHold(holdId, referenceId);
+  }
+
+  /**
+   * Снять резерв без списания (задача завершилась ошибкой или была остановлена)
+   * Повторный вызов для уже снятого или списанного резерва ничего не меняет
+   */
+  static async releaseHold(holdId: number, reason?: string): Promise<boolean> {
+    try {
+      return await sequelize.transaction(async (t) => {
+        const hold = await this.lockHold(holdId, t);
+        if (hold.status !== 'held') {
+          return false;
+        }
+
+        await hold.update({ status: 'released', released_at: new Date() }, { transaction: t });
+        console.log(`🔓 [BalanceService] Резерв ${holdId} снят${reason ? `: ${reason}` : ''}`);
+        return true;
       });
+    } catch (error) {
+      console.error(`Ошибка при снятии резерва ${holdId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Вернуть списание пользователю
+   * Зачисление записывается платежом с reference_id charge_refund_<id списания> и проводкой refund;
+   * по одному списанию возврат выполняется один раз, повторный вызов баланс не меняет
+   */
+  static async refundCharge(chargePaymentId: number, reason: string): Promise<RefundResult> {
+    const referenceId = `charge_refund_${chargePaymentId}`;
+
+    try {
+      return await sequelize.transaction(async (t) => {
+        const chargeOwner = await Payment.findByPk(chargePaymentId, { attributes: ['user_id'], transaction: t });
+        if (!chargeOwner) {
+          throw new BalanceOperationError('Списание не найдено');
+        }
+        // Блокировка пользователя упорядочивает параллельные возвраты одного списания
+        const user = await this.lockUser(chargeOwner.user_id, t);
+        const charge = await Payment.findByPk(chargePaymentId, { transaction: t, lock: t.LOCK.UPDATE });
+        if (!charge || charge.transaction_type !== 'debit' || charge.status !== 'completed') {
+          throw new BalanceOperationError('Платеж не является списанием');
+        }
 
-      console.log(`💰 [BalanceService] Списано ${transaction.amount} RUB, новый баланс: ${newBalance} RUB`);
-      return { success: true, balance: newBalance };
+        const existingRefund = await Payment.findOne({
+          where: { reference_id: referenceId, transaction_type: 'credit' },
+          transaction: t
+        });
+        if (existingRefund) {
+          return {
+            success: true,
+            balance: Number(user.balance),
+            amount: Number(existingRefund.amount),
+            refundPaymentId: existingRefund.id,
+            alreadyRefunded: true
+          };
+        }
+
+        const amount = Number(charge.amount);
+        const balance = Math.round((await LedgerService.getUserBalance(user.id, t) + amount) * 100) / 100;
+        await user.update({ balance }, { transaction: t });
+
+        const description = `Возврат: ${reason}`.substring(0, 255);
+        const refund = await Payment.create({
+          user_id: user.id,
+          amount,
+          payment_method: 'card',
+          transaction_type: 'credit',
+          status: 'completed',
+          description,
+          reference_id: referenceId
+        }, { transaction: t });
+
+        await LedgerService.post({
+          userId: user.id,
+          amount,
+          entryType: 'refund',
+          description,
+          referenceId,
+          paymentId: refund.id
+        }, t);
+
+        console.log(`↩️ [BalanceService] Возврат списания ${chargePaymentId}: ${amount} RUB пользователю ${user.id}, новый баланс: ${balance} RUB (${reason})`);
+        return { success: true, balance, amount, refundPaymentId: refund.id };
+      });
     } catch (error) {
-      console.error('Ошибка при списании с баланса:', error);
+      if (error instanceof BalanceOperationError) {
+        return { success: false, error: error.message };
+      }
+      console.error(`Ошибка при возврате списания ${chargePaymentId}:`, error);
       return { success: false, error: 'Внутренняя ошибка сервера' };
     }
   }
 
+  /**
+   * Вернуть оплату запроса обработки (списание резерва запроса)
+   */
+  static async refundApiRequest(apiRequestId: number, reason: string): Promise<RefundResult> {
+    const apiRequest = await ApiRequest.findByPk(apiRequestId);
+    if (!apiRequest) {
+      return { success: false, error: 'Запрос не найден' };
+    }
+
+    const hold = apiRequest.hold_id ? await BalanceHold.findByPk(apiRequest.hold_id) : null;
+    if (!hold || hold.status !== 'captured' || !hold.payment_id) {
+      return { success: false, error: 'По запросу не было списания' };
+    }
+
+    return await this.refundCharge(hold.payment_id, `запрос ${apiRequestId}: ${reason}`);
+  }
+
+  /**
+   * Компенсация запроса, завершившегося ошибкой: резерв снимается, а уже списанная оплата возвращается
+   * Повторный вызов ничего не меняет
+   */
+  static async compensateFailedRequest(apiRequest: ApiRequest, reason: string): Promise<void> {
+    if (!apiRequest.hold_id) {
+      return;
+    }
+
+    const hold = await BalanceHold.findByPk(apiRequest.hold_id);
+    if (hold?.status === 'held') {
+      await this.releaseHold(hold.id, reason);
+    } else if (hold?.status === 'captured' && (hold.subscription_id || hold.user_pack_id)) {
+      // Списания не было: возвращаем квоту подписки или запрос пакета
+      await hold.update({ status: 'released', released_at: new Date() });
+      console.log(`🔓 [BalanceService] Резерв ${hold.id} (${hold.subscription_id ? 'подписка' : 'пакет'}) возвращен: ${reason}`);
+    } else if (hold?.status === 'captured') {
+      const refund = await this.refundApiRequest(apiRequest.id, reason);
+      if (!refund.success) {
+        console.error(`❌ [BalanceService] Не удалось вернуть оплату запроса ${apiRequest.id}: ${refund.error}`);
+      }
+    }
+  }
+
+  /**
+   * Снять просроченные резервы (задачи, которые так и не завершились)
+   */
+  static async releaseExpiredHolds(): Promise<number> {
+    const [released] = await BalanceHold.update(
+      { status: 'released', released_at: new Date() },
+      { where: { status: 'held', expires_at: { [Op.lte]: new Date() } } }
+    );
+
+    if (released > 0) {
+      console.log(`🔓 [BalanceService] Снято просроченных резервов: ${released}`);
+    }
+    return released;
+  }
+
+  /**
+   * Продлить действующие резервы на BALANCE_HOLD_TTL_MINUTES от текущего момента
+   * Уже просроченные резервы не продлеваются: их средства могли быть зарезервированы заново
+   */
+  static async extendHolds(holdIds: number[]): Promise<number> {
+    if (holdIds.length === 0) {
+      return 0;
+    }
+
+    const now = new Date();
+    const [extended] = await BalanceHold.update(
+      { expires_at: new Date(now.getTime() + this.HOLD_TTL_MINUTES * 60 * 1000) },
+      { where: { id: { [Op.in]: holdIds }, status: 'held', expires_at: { [Op.gt]: now } } }
+    );
+    return extended;
+  }
+
+  /**
+   * Сумма действующих резервов пользователя
+   */
+  static async getHeldAmount(userId: number, t?: Transaction): Promise<number> {
+    const held = await BalanceHold.sum('amount', {
+      where: {
+        user_id: userId,
+        status: 'held',
+        expires_at: { [Op.gt]: new Date() }
+      },
+      transaction: t
+    });
+    return Math.round((Number(held) || 0) * 100) / 100;
+  }
+
+  /**
+   * Баланс пользователя с разбивкой на доступные и зарезервированные средства
+   */
+  static async getBalanceSummary(userId: number): Promise<BalanceSummary> {
+    const balance = Number(await this.getBalanceById(userId));
+    const held = await this.getHeldAmount(userId);
+
+    return {
+      balance,
+      held,
+      available: Math.max(0, Math.round((balance - held) * 100) / 100)
+    };
+  }
+
   /**
    * Получить историю платежей пользователя
    */
@@ -368,8 +842,8 @@ export class BalanceService {
       return false;
     }
     
-    const balance = await this.getBalanceById(userId);
-    return balance >= amount;
+    const { available } = await this.getBalanceSummary(userId);
+    return available >= amount;
   }
 
   /**
@@ -377,7 +851,9 @@ export class BalanceService {
    */
   static async canDebit(telegramUserId: number, amount: number): Promise<boolean> {
     const balance = await this.getBalance(telegramUserId);
-    return balance >= amount;
+    const user = await User.findOne({ where: { telegram_id: telegramUserId } });
+    const held = user ? await this.getHeldAmount(user.id) : 0;
+    return balance - held >= amount;
   }
 
   /**
@@ -425,4 +901,90 @@ export class BalanceService {
   static async onAppLoad(telegramUserId: number): Promise<SyncResult> {
     return await this.syncWithLeadTech(telegramUserId);
   }
+
+  /**
+   * Изменить баланс и записать операцию в payments и журнал в одной транзакции
+   * Строка пользователя блокируется (SELECT ... FOR UPDATE), поэтому параллельные списания выполняются по очереди
+   * и не могут увести баланс в минус. beforeCommit выполняется под той же блокировкой (например, списание в LeadTech)
+   * Новый баланс считается от суммы по журналу, users.balance только обновляется как кэш
+   */
+  private static async applyBalanceChange(
+    change: BalanceChange,
+    beforeCommit?: (user: User, t: Transaction) => Promise<void>
+  ): Promise<BalanceResult> {
+    try {
+      const { balance } = await sequelize.transaction(async (t) => await this.postChange(change, t, beforeCommit));
+
+      return { success: true, balance };
+    } catch (error) {
+      if (error instanceof BalanceOperationError) {
+        return { success: false, error: error.message };
+      }
+      console.error('Ошибка при изменении баланса:', error);
+      return { success: false, error: 'Внутренняя ошибка сервера' };
+    }
+  }
+
+  /**
+   * Изменение баланса внутри транзакции: блокировка пользователя, проверка средств, платеж и проводка
+   */
+  private static async postChange(
+    change: BalanceChange,
+    t: Transaction,
+    beforeCommit?: (user: User, t: Transaction) => Promise<void>
+  ): Promise<{ balance: number; paymentId: number }> {
+    const user = await this.lockUser(change.userId, t);
+
+    const newBalance = Math.round((await LedgerService.getUserBalance(user.id, t) + change.amount) * 100) / 100;
+    if (newBalance < 0) {
+      throw new BalanceOperationError('Недостаточно средств на балансе');
+    }
+
+    // Списание не должно затрагивать средства, зарезервированные под выполняющиеся задачи
+    if (change.amount < 0 && newBalance < await this.getHeldAmount(change.userId, t)) {
+      throw new BalanceOperationError('Недостаточно доступных средств: часть баланса зарезервирована');
+    }
+
+    if (beforeCommit) {
+      await beforeCommit(user, t);
+    }
+
+    await user.update({ balance: newBalance }, { transaction: t });
+
+    const payment = await Payment.create({
+      user_id: change.userId,
+      amount: Math.abs(change.amount),
+      payment_method: 'card',
+      transaction_type: change.amount >= 0 ? 'credit' : 'debit',
+      status: 'completed',
+      description: change.description,
+      reference_id: change.referenceId
+    }, { transaction: t });
+
+    await LedgerService.post({ ...change, paymentId: payment.id }, t);
+
+    return { balance: newBalance, paymentId: payment.id };
+  }
+
+  /**
+   * Заблокировать резерв до конца транзакции
+   */
+  private static async lockHold(holdId: number, t: Transaction): Promise<BalanceHold> {
+    const hold = await BalanceHold.findByPk(holdId, { transaction: t, lock: t.LOCK.UPDATE });
+    if (!hold) {
+      throw new BalanceOperationError('Резерв не найден');
+    }
+    return hold;
+  }
+
+  /**
+   * Заблокировать строку пользователя до конца транзакции
+   */
+  private static async lockUser(userId: number, t: Transaction): Promise<User> {
+    const user = await User.findByPk(userId, { transaction: t, lock: t.LOCK.UPDATE });
+    if (!user) {
+      throw new BalanceOperationError('Пользователь не найден');
+    }
+    return user;
+  }
 }
@@ -2,9 +2,13 @@ import axios from 'axios';
 import sharp from 'sharp';
 import fs from 'fs';
 import path from 'path';
-import { GoogleGenAI } from '@google/genai';
 import { Photo, ApiRequest, User } from '../models/index';
 import { BalanceService } from './BalanceService';
+import { IdempotencyService } from './IdempotencyService';
+import { JobEventsService } from './JobEventsService';
+import { GenerationProviderService } from './GenerationProviderService';
+import { ResilienceService } from './ResilienceService';
+import { ImageGenerationProviderName } from './generation/ImageGenerationProvider';
 import { PriceService } from './PriceService';
 import { FileManagerService } from './FileManagerService';
 import { PromptService } from './PromptService';
@@ -17,6 +21,8 @@ export interface EraStyleRequest {
   prompt: string;
   originalFilename: string;
   adminRetry?: boolean; // Флаг для отключения списания баланса при админском перезапуске
+  idempotencyKeyId?: number; // Ключ идемпотентности запроса (заголовок Idempotency-Key)
+  apiRequestId?: number; // Запрос из очереди: ApiRequest и резерв созданы при постановке в очередь
 }
 
 export interface EraStyleResult {
@@ -29,19 +35,12 @@ export interface EraStyleResult {
 }
 
 export class EraStyleService {
-  private static readonly GEMINI_API_KEY = process.env.GEMINI_API_KEY || 'test_key';
   
-  // Настройки для retry механизма
-  private static readonly MAX_RETRY_DURATION = parseInt(process.env.GEMINI_MAX_RETRY_DURATION || '300000'); // 5 минут по умолчанию
-  private static readonly INITIAL_RETRY_DELAY = parseInt(process.env.GEMINI_INITIAL_RETRY_DELAY || '1000'); // 1 секунда по умолчанию
-  private static readonly MAX_RETRY_DELAY = parseInt(process.env.GEMINI_MAX_RETRY_DELAY || '30000'); // 30 секунд по умолчанию
-  private static readonly BACKOFF_MULTIPLIER = parseFloat(process.env.GEMINI_BACKOFF_MULTIPLIER || '2'); // Множитель для экспоненциального роста
-
   /**
-   * Получить текущую стоимость изменения стиля эпохи
+   * Получить текущую стоимость изменения стиля эпохи с учетом скидок
    */
-  static async getEraStyleCost(): Promise<number> {
-    return await PriceService.getServicePrice('era_style');
+  static async getEraStyleCost(userId?: number): Promise<number> {
+    return (await PriceService.resolvePrice('era_style', userId)).price;
   }
 
   /**
@@ -151,6 +150,8 @@ export class EraStyleService {
    * Запустить процесс изменения стиля эпохи
    */
   static async stylePhotoByEra(request: EraStyleRequest): Promise<EraStyleResult> {
+    let holdId: number | undefined;
+
     try {
       console.log('🏛️ [ERA_STYLE] Начинаем процесс изменения стиля эпохи');
       console.log('🏛️ [ERA_STYLE] userId:', request.userId);
@@ -169,42 +170,54 @@ export class EraStyleService {
       }
 
       // Получаем актуальную стоимость из БД
-      const stylizationCost = await this.getEraStyleCost();
+      const stylizationCost = await this.getEraStyleCost(request.userId);
       console.log('💰 [ERA_STYLE] Стоимость стилизации:', stylizationCost);
 
-      // Проверяем баланс пользователя
-      console.log('💰 [ERA_STYLE] Проверяем баланс пользователя...');
-      const currentBalance = await BalanceService.getBalance(request.telegramId);
-      console.log('💰 [ERA_STYLE] Текущий баланс:', currentBalance);
-      
-      if (currentBalance < stylizationCost) {
-        console.log('❌ [ERA_STYLE] Недостаточно средств');
-        return {
-          success: false,
-          error: `Недостаточно средств на балансе. Требуется: ${stylizationCost} ₽`
-        };
+      // Резервируем стоимость на балансе пользователя (кроме админского перезапуска)
+      // Задача из очереди: запрос и резерв уже созданы при постановке в очередь
+      const queuedRequest = request.apiRequestId ? await ApiRequest.findByPk(request.apiRequestId) : null;
+      if (queuedRequest) {
+        holdId = queuedRequest.hold_id || undefined;
+      } else if (!request.adminRetry) {
+        console.log('💰 [ERA_STYLE] Резервируем средства на балансе...');
+        await BalanceService.syncWithLeadTech(request.telegramId);
+        const hold = await BalanceService.reserve(request.userId, stylizationCost, `Изменение стиля эпохи: ${request.eraId}`, 'era_style');
+
+        if (!hold.success) {
+          console.log('❌ [ERA_STYLE] Недостаточно средств, доступно:', hold.available);
+          return {
+            success: false,
+            error: hold.error || `Недостаточно средств на балансе. Требуется: ${stylizationCost} ₽`
+          };
+        }
+        holdId = hold.holdId;
       }
 
       // Создаем запрос в базе данных
-      const apiRequest = await ApiRequest.create({
-        user_id: request.userId,
-        api_name: 'era_style',
-        request_type: 'era_style',
-        request_data: JSON.stringify({
-          eraId: request.eraId,
-          originalFilename: request.originalFilename,
-          imageUrl: request.imageUrl,
-          prompt: request.prompt
-        }),
-        prompt: request.prompt,
-        cost: stylizationCost,
-        status: 'pending'
-      });
+      const apiRequest = queuedRequest
+        ? await queuedRequest.update({ status: 'processing' })
+        : await ApiRequest.create({
+          user_id: request.userId,
+          api_name: 'era_style',
+          request_type: 'era_style',
+          request_data: JSON.stringify({
+            eraId: request.eraId,
+            originalFilename: request.originalFilename,
+            imageUrl: request.imageUrl,
+            prompt: request.prompt
+          }),
+          prompt: request.prompt,
+          cost: stylizationCost,
+          hold_id: holdId,
+          status: 'pending'
+        });
+      await IdempotencyService.attachApiRequest(request.idempotencyKeyId, apiRequest.id);
 
       console.log('💳 [ERA_STYLE] Создан запрос API с ID:', apiRequest.id);
       
       // Обновляем статус на "processing"
       await apiRequest.update({ status: 'processing' });
+      JobEventsService.processing(apiRequest.id);
 
       // Обрабатываем изображение
       const processingResult = await this.processEraStyleImage(
@@ -212,7 +225,8 @@ export class EraStyleService {
         request.prompt,
         request.telegramId,
         request.eraId,
-        request.originalFilename
+        request.originalFilename,
+        apiRequest.id
       );
 
       if (!processingResult.success) {
@@ -223,12 +237,38 @@ export class EraStyleService {
           error_message: processingResult.error 
         });
 
+        if (holdId) {
+          await BalanceService.releaseHold(holdId, processingResult.error);
+        }
+
         return {
           success: false,
           error: 'Сервис временно недоступен, попробуйте чуть позже'
         };
       }
 
+      // Списываем зарезервированные средства до сохранения результата: без оплаты запрос завершается ошибкой
+      if (holdId) {
+        console.log('💰 [ERA_STYLE] Списываем зарезервированные средства...');
+        const balanceResult = await BalanceService.captureRequestHold(holdId, apiRequest.id.toString());
+
+        if (!balanceResult.success) {
+          console.error('❌ [ERA_STYLE] Не удалось списать средства:', balanceResult.error);
+          await apiRequest.update({
+            status: 'failed',
+            error_message: `Не удалось списать оплату: ${balanceResult.error}`
+          });
+          await BalanceService.releaseHold(holdId, 'ошибка списания');
+
+          return {
+            success: false,
+            error: 'Не удалось списать оплату, попробуйте еще раз'
+          };
+        }
+      } else {
+        console.log('🔧 [ERA_STYLE] Админский перезапуск - пропускаем списание баланса');
+      }
+
       // Обновляем запрос как завершенный
       await apiRequest.update({
         status: 'completed',
@@ -239,16 +279,6 @@ export class EraStyleService {
         completed_date: new Date()
       });
 
-      // Списываем средства с баланса пользователя только после успешного завершения
-      console.log('💰 [ERA_STYLE] Списываем средства с баланса...');
-      const balanceResult = await BalanceService.debit(request.userId, stylizationCost, `Изменение стиля эпохи: ${request.eraId}`);
-
-      if (!balanceResult.success) {
-        console.log('❌ [ERA_STYLE] Ошибка списания средств');
-        // В случае ошибки списания возвращаем результат как успешный, но логируем ошибку
-        console.error('⚠️ [ERA_STYLE] Не удалось списать средства, но обработка прошла успешно');
-      }
-
       console.log('✅ [ERA_STYLE] Изменение стиля эпохи завершено');
 
       return {
@@ -261,6 +291,9 @@ export class EraStyleService {
 
     } catch (error) {
       console.error('💥 [ERA_STYLE] Непредвиденная ошибка:', error);
+      if (holdId) {
+        await BalanceService.releaseHold(holdId, 'непредвиденная ошибка');
+      }
       return {
         success: false,
         error: 'Сервис временно недоступен, попробуйте чуть позже'
@@ -276,7 +309,8 @@ export class EraStyleService {
     prompt: string,
     telegramId: number,
     eraId: string,
-    originalFilename: string
+    originalFilename: string,
+    requestId?: number
   ): Promise<{ success: boolean; styledUrl?: string; error?: string }> {
     try {
       console.log('🎨 [ERA_STYLE] Начинаем обработку изображения...');
@@ -314,9 +348,11 @@ export class EraStyleService {
 
       // Отправляем запрос к Gemini API для стилизации с retry механизмом
       console.log('🤖 [ERA_STYLE] Отправляем запрос к Gemini API...');
-      const styledImageBuffer = await this.executeWithRetry(
-        () => this.callGeminiEraStyleAPI(processedBuffer, prompt),
-        'era_style_api_call'
+      const styledImageBuffer = await GenerationProviderService.withFailover('era_style', providerName =>
+        ResilienceService.execute(
+          () => this.callGeminiEraStyleAPI(processedBuffer, prompt, providerName),
+          { operation: 'era_style_api_call', provider: providerName, requestId: requestId }
+        )
       );
       
       const processedDir = FileManagerService.createProcessedDirectory(telegramId, 'era-style');
@@ -352,173 +388,19 @@ export class EraStyleService {
   }
 
   /**
-   * Выполнить операцию с retry механизмом
+   * Вызов модели генерации для стилизации изображения в стиле эпохи
    */
-  private static async executeWithRetry<T>(
-    operation: () => Promise<T>,
-    operationName: string
-  ): Promise<T> {
-    const startTime = Date.now();
-    let attempt = 0;
-    let lastError: Error | null = null;
-    let totalDelayTime = 0;
-
-    console.log(`🚀 [RETRY] Начинаем ${operationName} с retry механизмом (макс. время: ${this.MAX_RETRY_DURATION}мс)`);
-
-    while (Date.now() - startTime < this.MAX_RETRY_DURATION) {
-      attempt++;
-      const attemptStartTime = Date.now();
-      
-      try {
-        console.log(`🔄 [RETRY] ${operationName} - попытка ${attempt} (время с начала: ${Date.now() - startTime}мс)`);
-        const result = await operation();
-        
-        const attemptDuration = Date.now() - attemptStartTime;
-        if (attempt > 1) {
-          console.log(`✅ [RETRY] ${operationName} - успешно выполнено с попытки ${attempt} за ${attemptDuration}мс (общее время: ${Date.now() - startTime}мс, время задержек: ${totalDelayTime}мс)`);
-        } else {
-          console.log(`✅ [RETRY] ${operationName} - выполнено с первой попытки за ${attemptDuration}мс`);
-        }
-        
-        return result;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        const attemptDuration = Date.now() - attemptStartTime;
-        console.log(`❌ [RETRY] ${operationName} - попытка ${attempt} неудачна за ${attemptDuration}мс:`, lastError.message);
-
-        // Проверяем, стоит ли повторять попытку
-        if (!this.isRetryableError(lastError)) {
-          console.log(`🚫 [RETRY] ${operationName} - ошибка не подлежит повторению, прекращаем попытки`);
-          throw lastError;
-        }
-
-        // Вычисляем задержку для следующей попытки
-        const delay = Math.min(
-          this.INITIAL_RETRY_DELAY * Math.pow(this.BACKOFF_MULTIPLIER, attempt - 1),
-          this.MAX_RETRY_DELAY
-        );
-
-        // Проверяем, остается ли время для следующей попытки
-        const remainingTime = this.MAX_RETRY_DURATION - (Date.now() - startTime);
-        if (delay >= remainingTime) {
-          console.log(`⏰ [RETRY] ${operationName} - время ожидания истекло (осталось ${remainingTime}мс, нужно ${delay}мс)`);
-          break;
-        }
-
-        console.log(`⏳ [RETRY] ${operationName} - ожидание ${delay}мс перед попыткой ${attempt + 1} (осталось времени: ${remainingTime}мс)`);
-        await this.sleep(delay);
-        totalDelayTime += delay;
-      }
-    }
-
-    const totalDuration = Date.now() - startTime;
-    console.log(`💥 [RETRY] ${operationName} - все попытки исчерпаны. Попыток: ${attempt}, общее время: ${totalDuration}мс, время задержек: ${totalDelayTime}мс`);
-    throw lastError || new Error(`Все попытки выполнения ${operationName} исчерпаны за ${totalDuration}мс`);
-  }
-
-  /**
-   * Определить, подлежит ли ошибка повторению
-   */
-  private static isRetryableError(error: Error): boolean {
-    const retryableMessages = [
-      'timeout',
-      'network',
-      'connection',
-      'unavailable',
-      'service unavailable',
-      'internal server error',
-      'bad gateway',
-      'gateway timeout',
-      'temporarily unavailable',
-      'rate limit',
-      'quota exceeded',
-      'fetch failed',
-      'socket hang up',
-      'econnreset',
-      'enotfound',
-      'etimedout',
-      'econnrefused',
-      'server error',
-      '503',
-      '502',
-      '504',
-      '429', // Too Many Requests
-      '500', // Internal Server Error
-      'internal'  // Для ошибок типа "Internal error encountered"
-    ];
-
-    const errorMessage = error.message.toLowerCase();
-    const isRetryable = retryableMessages.some(msg => errorMessage.includes(msg));
-    
-    console.log(`🔍 [RETRY] Анализ ошибки: "${error.message}" - подлежит повторению: ${isRetryable}`);
-    
-    return isRetryable;
-  }
-
-  /**
-   * Пауза на указанное количество миллисекунд
-   */
-  private static sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
-  /**
-   * Вызов Gemini API для стилизации изображения в стиле эпохи
-   */
-  private static async callGeminiEraStyleAPI(imageBuffer: Buffer, prompt: string): Promise<Buffer> {
+  private static async callGeminiEraStyleAPI(imageBuffer: Buffer, prompt: string, providerName?: ImageGenerationProviderName): Promise<Buffer> {
     console.log('🤖 [GEMINI] Подготавливаем запрос к API...');
     console.log('🤖 [GEMINI] Промпт для отправки в API:', prompt);
     console.log('🤖 [GEMINI] Размер изображения:', imageBuffer.length, 'байт');
     
-    // Инициализируем Google GenAI
-    const genAI = new GoogleGenAI({ 
-      apiKey: this.GEMINI_API_KEY
-    });
-
-    // Конвертируем изображение в base64
-    const imageBase64 = imageBuffer.toString('base64');
-
-    const apiPrompt = [
-      { text: prompt },
-      {
-        inlineData: {
-          mimeType: 'image/jpeg',
-          data: imageBase64,
-        },
-      },
-    ];
-
-    console.log('📸 [GEMINI] Отправляем запрос к API...');
-    
-    // Создаем промис с таймаутом
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Timeout: запрос превысил 3 минуты')), 180000);
-    });
-
-    const apiPromise = genAI.models.generateContent({
-      model: "gemini-2.5-flash-image-preview",
-      contents: apiPrompt,
-    });
-
-    const response = await Promise.race([apiPromise, timeoutPromise]) as any;
-
-    console.log('✅ [GEMINI] Получен ответ от Gemini API');
-    
-    if (response.candidates && response.candidates.length > 0) {
-      const candidate = response.candidates[0];
-      if (candidate.content && candidate.content.parts) {
-        for (const part of candidate.content.parts) {
-          if (part.inlineData && part.inlineData.data) {
-            console.log('✅ [GEMINI] Найдено стилизованное изображение, MIME:', part.inlineData.mimeType);
-            return Buffer.from(part.inlineData.data, 'base64');
-          }
-        }
-      }
-    }
+    const result = await GenerationProviderService.generate('era_style', {
+      prompt,
+      images: [{ data: imageBuffer, mimeType: 'image/jpeg' }]
+    }, providerName);
 
-    // Если стилизованное изображение не получено, это ошибка API
-    console.log('❌ [GEMINI] Стилизованное изображение не получено от API');
-    throw new Error('API не вернул стилизованное изображение');
+    return result.images[0].data;
   }
 
   /**
@@ -0,0 +1,177 @@
+/**
+ * Ограничение для группы вызовов (модель или API ключ)
+ */
+export interface LimitSpec {
+  name: string; // например gemini:model:gemini-2.5-flash-image-preview
+  maxConcurrent: number; // одновременных вызовов, 0 — без ограничения
+  requestsPerMinute: number; // скорость (token bucket), 0 — без ограничения
+}
+
+export interface LimiterStats {
+  name: string;
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  requestsPerMinute: number;
+  availableTokens: number | null;
+  pausedUntil?: Date; // пауза после 429 от провайдера
+}
+
+interface Limiter {
+  spec: LimitSpec;
+  active: number;
+  tokens: number;
+  lastRefill: number;
+  pausedUntil: number;
+  queue: Array<() => void>; // ожидающие вызовы в порядке поступления
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Ограничение одновременных вызовов и скорости запросов к моделям генерации
+ * Общее для всех сервисов обработки в процессе: лишние вызовы ждут в очереди в порядке поступления,
+ * а не уходят к провайдеру и не тратят квоту на заведомо отклоненные запросы
+ */
+export class GenerationLimiterService {
+  private static readonly limiters = new Map<string, Limiter>();
+
+  /**
+   * Выполнить операцию, заняв место во всех ограничениях
+   * Ограничения занимаются по порядку списка; место освобождается после завершения операции
+   */
+  static async run<T>(limits: LimitSpec[], operation: () => Promise<T>): Promise<T> {
+    const acquired: Limiter[] = [];
+    try {
+      for (const spec of limits) {
+        const limiter = this.getLimiter(spec);
+        await this.acquire(limiter);
+        acquired.push(limiter);
+      }
+      return await operation();
+    } finally {
+      for (const limiter of acquired) {
+        this.release(limiter);
+      }
+    }
+  }
+
+  /**
+   * Приостановить выдачу новых вызовов (провайдер ответил 429 и сообщил, сколько ждать)
+   */
+  static pause(name: string, ms: number): void {
+    const limiter = this.limiters.get(name);
+    if (!limiter || ms <= 0) {
+      return;
+    }
+
+    const until = Date.now() + ms;
+    if (until > limiter.pausedUntil) {
+      limiter.pausedUntil = until;
+      console.warn(`⏸️ [LIMITER] ${name}: пауза ${ms}мс по ответу провайдера`);
+    }
+  }
+
+  /**
+   * Текущее состояние ограничений (для статистики админки)
+   */
+  static getStats(): LimiterStats[] {
+    return Array.from(this.limiters.values()).map(limiter => {
+      this.refill(limiter);
+      return {
+        name: limiter.spec.name,
+        active: limiter.active,
+        queued: limiter.queue.length,
+        maxConcurrent: limiter.spec.maxConcurrent,
+        requestsPerMinute: limiter.spec.requestsPerMinute,
+        availableTokens: limiter.spec.requestsPerMinute > 0 ? Math.floor(limiter.tokens) : null,
+        pausedUntil: limiter.pausedUntil > Date.now() ? new Date(limiter.pausedUntil) : undefined
+      };
+    });
+  }
+
+  private static acquire(limiter: Limiter): Promise<void> {
+    return new Promise(resolve => {
+      limiter.queue.push(resolve);
+      if (limiter.queue.length > 1 || !this.canStart(limiter)) {
+        console.log(`🚦 [LIMITER] ${limiter.spec.name}: вызов ждет в очереди (в очереди: ${limiter.queue.length}, выполняется: ${limiter.active})`);
+      }
+      this.drain(limiter);
+    });
+  }
+
+  private static release(limiter: Limiter): void {
+    limiter.active--;
+    this.drain(limiter);
+  }
+
+  /**
+   * Запустить ожидающие вызовы, пока позволяют ограничения
+   * Если мешает скорость или пауза, проверка повторяется по таймеру
+   */
+  private static drain(limiter: Limiter): void {
+    this.refill(limiter);
+
+    while (limiter.queue.length > 0 && this.canStart(limiter)) {
+      const next = limiter.queue.shift()!;
+      limiter.active++;
+      if (limiter.spec.requestsPerMinute > 0) {
+        limiter.tokens -= 1;
+      }
+      next();
+    }
+
+    if (limiter.queue.length === 0 || limiter.timer || this.isConcurrencyFull(limiter)) {
+      return;
+    }
+
+    const now = Date.now();
+    const waitForPause = Math.max(0, limiter.pausedUntil - now);
+    const waitForToken = limiter.spec.requestsPerMinute > 0 && limiter.tokens < 1
+      ? Math.ceil((1 - limiter.tokens) * 60000 / limiter.spec.requestsPerMinute)
+      : 0;
+
+    limiter.timer = setTimeout(() => {
+      limiter.timer = undefined;
+      this.drain(limiter);
+    }, Math.max(waitForPause, waitForToken, 1));
+  }
+
+  private static canStart(limiter: Limiter): boolean {
+    if (this.isConcurrencyFull(limiter) || Date.now() < limiter.pausedUntil) {
+      return false;
+    }
+    return limiter.spec.requestsPerMinute <= 0 || limiter.tokens >= 1;
+  }
+
+  private static isConcurrencyFull(limiter: Limiter): boolean {
+    return limiter.spec.maxConcurrent > 0 && limiter.active >= limiter.spec.maxConcurrent;
+  }
+
+  /**
+   * Пополнить token bucket: requestsPerMinute токенов в минуту, не больше requestsPerMinute
+   */
+  private static refill(limiter: Limiter): void {
+    const now = Date.now();
+    const rate = limiter.spec.requestsPerMinute;
+    if (rate > 0) {
+      limiter.tokens = Math.min(rate, limiter.tokens + (now - limiter.lastRefill) * rate / 60000);
+    }
+    limiter.lastRefill = now;
+  }
+
+  private static getLimiter(spec: LimitSpec): Limiter {
+    let limiter = this.limiters.get(spec.name);
+    if (!limiter) {
+      limiter = {
+        spec,
+        active: 0,
+        tokens: spec.requestsPerMinute,
+        lastRefill: Date.now(),
+        pausedUntil: 0,
+        queue: []
+      };
+      this.limiters.set(spec.name, limiter);
+    }
+    return limiter;
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  ImageGenerationProvider,
+  ImageGenerationProviderName,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  GenerationServiceType
+} from './generation/ImageGenerationProvider';
+import { GeminiProvider } from './generation/GeminiProvider';
+import { OpenAIProvider } from './generation/OpenAIProvider';
+import { StabilityProvider } from './generation/StabilityProvider';
+import { ComfyUIProvider } from './generation/ComfyUIProvider';
+import { MockProvider } from './generation/MockProvider';
+
+/**
+ * Единая точка вызова моделей генерации изображений для всех сервисов обработки
+ * Основной и резервный провайдер задаются глобально и могут быть переопределены для типа обработки:
+ * GENERATION_PROVIDER_PHOTO_STYLIZE=openai, GENERATION_FALLBACK_PROVIDER_PHOTO_STYLIZE=stability
+ */
+export class GenerationProviderService {
+  private static readonly DEFAULT_PROVIDER = process.env.GENERATION_PROVIDER || 'gemini';
+  private static readonly DEFAULT_FALLBACK_PROVIDER = process.env.GENERATION_FALLBACK_PROVIDER || '';
+  private static readonly MOCK_PROVIDER_ENABLED = process.env.GENERATION_MOCK_PROVIDER === 'true';
+
+  private static providers: Map<ImageGenerationProviderName, ImageGenerationProvider> | null = null;
+
+  /**
+   * Провайдеры для типа обработки в порядке использования: основной, затем резервный
+   * Ненастроенные провайдеры пропускаются; если не настроен ни один, остается основной (его ошибка дойдет до сервиса)
+   */
+  static getProviderChain(serviceType: GenerationServiceType): ImageGenerationProvider[] {
+    if (this.MOCK_PROVIDER_ENABLED) {
+      return [this.getProvider('mock')!];
+    }
+
+    const envSuffix = serviceType.toUpperCase();
+    const names = [
+      process.env[`GENERATION_PROVIDER_${envSuffix}`] || this.DEFAULT_PROVIDER,
+      process.env[`GENERATION_FALLBACK_PROVIDER_${envSuffix}`] ?? this.DEFAULT_FALLBACK_PROVIDER
+    ];
+
+    const chain: ImageGenerationProvider[] = [];
+    for (const name of names) {
+      const provider = this.getProvider(name);
+      if (!provider) {
+        if (name) {
+          console.warn(`⚠️ [GENERATION] Неизвестный провайдер генерации "${name}" для ${serviceType}`);
+        }
+        continue;
+      }
+      if (!provider.isConfigured()) {
+        console.warn(`⚠️ [GENERATION] Провайдер ${provider.name} не настроен, пропускаем для ${serviceType}`);
+        continue;
+      }
+      if (!chain.includes(provider)) {
+        chain.push(provider);
+      }
+    }
+
+    if (chain.length === 0) {
+      chain.push(this.getProvider(names[0]) || this.getProvider('gemini')!);
+    }
+
+    return chain;
+  }
+
+  /**
+   * Получить провайдера по имени (null, если провайдер неизвестен)
+   */
+  static getProvider(name: string): ImageGenerationProvider | null {
+    return this.getProviders().get(name as ImageGenerationProviderName) || null;
+  }
+
+  /**
+   * Выполнить операцию с переключением на резервного провайдера
+   * operation получает имя провайдера и выполняет все свои повторы; если она завершилась ошибкой,
+   * операция выполняется заново со следующим провайдером цепочки
+   */
+  static async withFailover<T>(
+    serviceType: GenerationServiceType,
+    operation: (providerName: ImageGenerationProviderName) => Promise<T>
+  ): Promise<T> {
+    const chain = this.getProviderChain(serviceType);
+    let lastError: unknown;
+
+    for (let i = 0; i < chain.length; i++) {
+      try {
+        return await operation(chain[i].name);
+      } catch (error) {
+        lastError = error;
+        if (i < chain.length - 1) {
+          console.warn(`🔀 [GENERATION] ${serviceType}: провайдер ${chain[i].name} исчерпал попытки, переключаемся на ${chain[i + 1].name}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Сгенерировать изображение (одна попытка)
+   * Без providerName используется основной провайдер типа обработки
+   */
+  static async generate(
+    serviceType: GenerationServiceType,
+    request: ImageGenerationRequest,
+    providerName?: ImageGenerationProviderName
+  ): Promise<ImageGenerationResult> {
+    const provider = (providerName && this.getProvider(providerName)) || this.getProviderChain(serviceType)[0];
+    const result = await provider.generate(request);
+
+    if (result.usage) {
+      console.log(`📊 [GENERATION] ${serviceType}: ${result.provider}/${result.model}, токены: ${result.usage.promptTokens ?? '?'} + ${result.usage.outputTokens ?? '?'} = ${result.usage.totalTokens ?? '?'}`);
+    }
+
+    return result;
+  }
+
+  private static getProviders(): Map<ImageGenerationProviderName, ImageGenerationProvider> {
+    if (!this.providers) {
+      const providers: ImageGenerationProvider[] = [
+        new GeminiProvider(),
+        new OpenAIProvider(),
+        new StabilityProvider(),
+        new ComfyUIProvider()
+      ];
+      if (this.MOCK_PROVIDER_ENABLED) {
+        providers.push(new MockProvider());
+      }
+      this.providers = new Map(providers.map(provider => [provider.name, provider]));
+    }
+    return this.providers;
+  }
+}
@@ -0,0 +1,118 @@
+import { Op, UniqueConstraintError } from 'sequelize';
+import { IdempotencyKey } from '../models/index';
+
+export type IdempotencyOutcome = 'started' | 'replay' | 'conflict' | 'in_progress';
+
+export interface IdempotencyBeginResult {
+  outcome: IdempotencyOutcome;
+  record: IdempotencyKey;
+}
+
+/**
+ * Идемпотентность платных запросов по заголовку Idempotency-Key
+ * Первый запрос с ключом выполняется и сохраняет ответ, повторы с тем же ключом получают сохраненный ответ
+ */
+export class IdempotencyService {
+  private static readonly KEY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24');
+  private static readonly PROCESSING_TIMEOUT_MINUTES = parseInt(process.env.IDEMPOTENCY_PROCESSING_TIMEOUT_MINUTES || '15'); // после этого незавершенный запрос считается брошенным
+
+  static readonly MAX_KEY_LENGTH = 255;
+
+  /**
+   * Зарегистрировать запрос с ключом
+   * started — ключ новый, запрос нужно выполнить; replay — ответ уже сохранен;
+   * conflict — ключ использован с другими параметрами; in_progress — первый запрос еще выполняется
+   */
+  static async begin(userId: number, key: string, endpoint: string, requestHash: string): Promise<IdempotencyBeginResult> {
+    try {
+      const record = await IdempotencyKey.create({
+        user_id: userId,
+        idempotency_key: key,
+        endpoint,
+        request_hash: requestHash,
+        expires_at: new Date(Date.now() + this.KEY_TTL_HOURS * 60 * 60 * 1000)
+      });
+      return { outcome: 'started', record };
+    } catch (error) {
+      if (!(error instanceof UniqueConstraintError)) {
+        throw error;
+      }
+    }
+
+    const existing = await IdempotencyKey.findOne({ where: { user_id: userId, idempotency_key: key } });
+    if (!existing) {
+      // Запись удалили между вставкой и чтением (истекла или запрос завершился ошибкой) — пробуем заново
+      return await this.begin(userId, key, endpoint, requestHash);
+    }
+
+    const abandonedBefore = new Date(Date.now() - this.PROCESSING_TIMEOUT_MINUTES * 60 * 1000);
+    const expired = existing.expires_at <= new Date();
+    const abandoned = existing.status === 'processing' && existing.updatedAt < abandonedBefore;
+
+    if (expired || abandoned) {
+      // Захватываем ключ заново только если его не успел захватить параллельный запрос
+      const [taken] = await IdempotencyKey.update({
+        endpoint,
+        request_hash: requestHash,
+        status: 'processing',
+        expires_at: new Date(Date.now() + this.KEY_TTL_HOURS * 60 * 60 * 1000)
+      }, {
+        where: { id: existing.id, updatedAt: existing.updatedAt }
+      });
+
+      if (taken > 0) {
+        await existing.reload();
+        return { outcome: 'started', record: existing };
+      }
+      await existing.reload();
+    }
+
+    if (existing.endpoint !== endpoint || existing.request_hash !== requestHash) {
+      return { outcome: 'conflict', record: existing };
+    }
+
+    return {
+      outcome: existing.status === 'completed' ? 'replay' : 'in_progress',
+      record: existing
+    };
+  }
+
+  /**
+   * Сохранить ответ первого запроса для последующих повторов
+   */
+  static async complete(recordId: number, responseStatus: number, responseBody: any): Promise<void> {
+    await IdempotencyKey.update(
+      { status: 'completed', response_status: responseStatus, response_body: responseBody },
+      { where: { id: recordId } }
+    );
+  }
+
+  /**
+   * Освободить ключ (запрос завершился внутренней ошибкой, клиент может повторить его с тем же ключом)
+   */
+  static async abandon(recordId: number): Promise<void> {
+    await IdempotencyKey.destroy({ where: { id: recordId, status: 'processing' } });
+  }
+
+  /**
+   * Привязать к ключу созданный запросом ApiRequest
+   */
+  static async attachApiRequest(recordId: number | undefined, apiRequestId: number): Promise<void> {
+    if (!recordId) {
+      return;
+    }
+
+    try {
+      await IdempotencyKey.update({ api_request_id: apiRequestId }, { where: { id: recordId } });
+    } catch (error) {
+      console.error(`❌ [IDEMPOTENCY] Не удалось привязать запрос ${apiRequestId} к ключу ${recordId}:`, error);
+    }
+  }
+
+  /**
+   * Удалить истекшие ключи
+   */
+  static async cleanupExpired(): Promise<number> {
+    return await IdempotencyKey.destroy({ where: { expires_at: { [Op.lte]: new Date() } } });
+  }
+}
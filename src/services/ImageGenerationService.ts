@@ -1,6 +1,10 @@
-import { GoogleGenAI } from '@google/genai';
 import { Photo, ApiRequest } from '../models/index';
 import { BalanceService } from './BalanceService';
+import { IdempotencyService } from './IdempotencyService';
+import { JobEventsService } from './JobEventsService';
+import { GenerationProviderService } from './GenerationProviderService';
+import { ResilienceService } from './ResilienceService';
+import { ImageGenerationProviderName } from './generation/ImageGenerationProvider';
 import { PriceService } from './PriceService';
 import { FileManagerService } from './FileManagerService';
 import { PromptService } from './PromptService';
@@ -16,6 +20,8 @@ export interface GenerateImageRequest {
     quality?: string;
   };
   adminRetry?: boolean; // Флаг для отключения списания баланса при админском перезапуске
+  idempotencyKeyId?: number; // Ключ идемпотентности запроса (заголовок Idempotency-Key)
+  apiRequestId?: number; // Запрос из очереди: ApiRequest и резерв созданы при постановке в очередь
 }
 
 export interface GenerateImageWithReferenceRequest {
@@ -30,6 +36,8 @@ export interface GenerateImageWithReferenceRequest {
     quality?: string;
   };
   adminRetry?: boolean; // Флаг для отключения списания баланса при админском перезапуске
+  idempotencyKeyId?: number; // Ключ идемпотентности запроса (заголовок Idempotency-Key)
+  apiRequestId?: number; // Запрос из очереди: ApiRequest и резерв созданы при постановке в очередь
 }
 
 export interface GenerateImageResult {
@@ -43,180 +51,92 @@ export interface GenerateImageResult {
 }
 
 export class ImageGenerationService {
-  private static readonly GEMINI_API_KEY = process.env.GEMINI_API_KEY || 'test_key';
   private static readonly MODULE_NAME = 'image_generation';
-  
-  // Настройки для retry механизма
-  private static readonly MAX_RETRY_DURATION = parseInt(process.env.GEMINI_MAX_RETRY_DURATION || '300000'); // 5 минут по умолчанию
-  private static readonly INITIAL_RETRY_DELAY = parseInt(process.env.GEMINI_INITIAL_RETRY_DELAY || '1000'); // 1 секунда по умолчанию
-  private static readonly MAX_RETRY_DELAY = parseInt(process.env.GEMINI_MAX_RETRY_DELAY || '30000'); // 30 секунд по умолчанию
-  private static readonly BACKOFF_MULTIPLIER = parseFloat(process.env.GEMINI_BACKOFF_MULTIPLIER || '2'); // Множитель для экспоненциального роста
 
   /**
-   * Получить текущую стоимость генерации изображения
+   * Получить текущую стоимость генерации изображения с учетом скидок
    */
-  static async getGenerationCost(): Promise<number> {
-    return await PriceService.getServicePrice('image_generate');
-  }
-
-  /**
-   * Выполнить операцию с retry механизмом
-   */
-  private static async executeWithRetry<T>(
-    operation: () => Promise<T>,
-    operationName: string
-  ): Promise<T> {
-    const startTime = Date.now();
-    let attempt = 0;
-    let lastError: Error | null = null;
-    let totalDelayTime = 0;
-
-    console.log(`🚀 [RETRY] Начинаем ${operationName} с retry механизмом (макс. время: ${this.MAX_RETRY_DURATION}мс)`);
-
-    while (Date.now() - startTime < this.MAX_RETRY_DURATION) {
-      attempt++;
-      const attemptStartTime = Date.now();
-      
-      try {
-        console.log(`🔄 [RETRY] ${operationName} - попытка ${attempt} (время с начала: ${Date.now() - startTime}мс)`);
-        const result = await operation();
-        
-        const attemptDuration = Date.now() - attemptStartTime;
-        if (attempt > 1) {
-          console.log(`✅ [RETRY] ${operationName} - успешно выполнено с попытки ${attempt} за ${attemptDuration}мс (общее время: ${Date.now() - startTime}мс, время задержек: ${totalDelayTime}мс)`);
-        } else {
-          console.log(`✅ [RETRY] ${operationName} - выполнено с первой попытки за ${attemptDuration}мс`);
-        }
-        
-        return result;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        const attemptDuration = Date.now() - attemptStartTime;
-        console.log(`❌ [RETRY] ${operationName} - попытка ${attempt} неудачна за ${attemptDuration}мс:`, lastError.message);
-
-        // Проверяем, стоит ли повторять попытку
-        if (!this.isRetryableError(lastError)) {
-          console.log(`🚫 [RETRY] ${operationName} - ошибка не подлежит повторению, прекращаем попытки`);
-          throw lastError;
-        }
-
-        // Вычисляем задержку для следующей попытки
-        const delay = Math.min(
-          this.INITIAL_RETRY_DELAY * Math.pow(this.BACKOFF_MULTIPLIER, attempt - 1),
-          this.MAX_RETRY_DELAY
-        );
-
-        // Проверяем, остается ли время для следующей попытки
-        const remainingTime = this.MAX_RETRY_DURATION - (Date.now() - startTime);
-        if (delay >= remainingTime) {
-          console.log(`⏰ [RETRY] ${operationName} - время ожидания истекло (осталось ${remainingTime}мс, нужно ${delay}мс)`);
-          break;
-        }
-
-        console.log(`⏳ [RETRY] ${operationName} - ожидание ${delay}мс перед попыткой ${attempt + 1} (осталось времени: ${remainingTime}мс)`);
-        await this.sleep(delay);
-        totalDelayTime += delay;
-      }
-    }
-
-    const totalDuration = Date.now() - startTime;
-    console.log(`💥 [RETRY] ${operationName} - все попытки исчерпаны. Попыток: ${attempt}, общее время: ${totalDuration}мс, время задержек: ${totalDelayTime}мс`);
-    throw lastError || new Error(`Все попытки выполнения ${operationName} исчерпаны за ${totalDuration}мс`);
-  }
-
-  /**
-   * Определить, подлежит ли ошибка повторению
-   */
-  private static isRetryableError(error: Error): boolean {
-    const retryableMessages = [
-      'timeout',
-      'network',
-      'connection',
-      'unavailable',
-      'service unavailable',
-      'internal server error',
-      'bad gateway',
-      'gateway timeout',
-      'temporarily unavailable',
-      'rate limit',
-      'quota exceeded',
-      'fetch failed',
-      'socket hang up',
-      'econnreset',
-      'enotfound',
-      'etimedout',
-      'econnrefused',
-      'server error',
-      '503',
-      '502',
-      '504',
-      '429', // Too Many Requests
-      '500' // Internal Server Error
-    ];
-
-    const errorMessage = error.message.toLowerCase();
-    const isRetryable = retryableMessages.some(msg => errorMessage.includes(msg));
-    
-    console.log(`🔍 [RETRY] Анализ ошибки: "${error.message}" - подлежит повторению: ${isRetryable}`);
-    
-    return isRetryable;
-  }
-
-  /**
-   * Пауза на указанное количество миллисекунд
-   */
-  private static sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  static async getGenerationCost(userId?: number): Promise<number> {
+    return (await PriceService.resolvePrice('image_generate', userId)).price;
   }
 
   /**
    * Запустить процесс генерации изображения
    */
   static async generateImage(request: GenerateImageRequest): Promise<GenerateImageResult> {
+    let holdId: number | undefined;
+
     try {
       // Получаем актуальную стоимость генерации из БД
-      const generationCost = await this.getGenerationCost();
-
-      // Проверяем баланс пользователя
-      const canPay = await BalanceService.canDebitById(request.userId, generationCost);
-      if (!canPay) {
-        return { 
-          success: false, 
-          error: 'Недостаточно средств на балансе',
-          cost: generationCost
-        };
+      const generationCost = await this.getGenerationCost(request.userId);
+
+      // Резервируем стоимость (при админском перезапуске списания нет, поэтому и резерв не нужен)
+      // Задача из очереди: запрос и резерв уже созданы при постановке в очередь
+      const queuedRequest = request.apiRequestId ? await ApiRequest.findByPk(request.apiRequestId) : null;
+      if (queuedRequest) {
+        holdId = queuedRequest.hold_id || undefined;
+      } else if (!request.adminRetry) {
+        const hold = await BalanceService.reserve(request.userId, generationCost, 'Генерация изображения', 'image_generate');
+        if (!hold.success) {
+          return { 
+            success: false, 
+            error: hold.error || 'Недостаточно средств на балансе',
+            cost: generationCost
+          };
+        }
+        holdId = hold.holdId;
       }
 
       // Создаем запись фото в базе (используем Photo модель для совместимости)
-      const photo = await Photo.create({
-        user_id: request.userId,
-        original_url: '', // Для генерации нет исходного изображения
-        status: 'processing',
-        request_params: JSON.stringify({
-          prompt: request.prompt,
-          ...request.options
-        })
-      });
+      // Повтор задачи из очереди продолжает с фото предыдущей попытки, а не создает новое
+      const previousPhoto = queuedRequest?.photo_id ? await Photo.findByPk(queuedRequest.photo_id) : null;
+      const photo = previousPhoto
+        ? await previousPhoto.update({ status: 'processing' })
+        : await Photo.create({
+          user_id: request.userId,
+          original_url: '', // Для генерации нет исходного изображения
+          status: 'processing',
+          request_params: JSON.stringify({
+            prompt: request.prompt,
+            ...request.options
+          })
+        });
 
       // Записываем API запрос
-      const apiRequest = await ApiRequest.create({
-        user_id: request.userId,
-        photo_id: photo.id, // Связываем с созданным фото
-        api_name: 'image_generation',
-        request_type: 'image_generate',
-        prompt: request.prompt,
-        request_data: JSON.stringify(request),
-        status: 'processing',
-        cost: generationCost
-      });
+      const apiRequest = queuedRequest
+        ? await queuedRequest.update({ status: 'processing', photo_id: photo.id })
+        : await ApiRequest.create({
+          user_id: request.userId,
+          photo_id: photo.id, // Связываем с созданным фото
+          api_name: 'image_generation',
+          request_type: 'image_generate',
+          prompt: request.prompt,
+          request_data: JSON.stringify(request),
+          status: 'processing',
+          cost: generationCost,
+          hold_id: holdId
+        });
+      await IdempotencyService.attachApiRequest(request.idempotencyKeyId, apiRequest.id);
+      JobEventsService.processing(apiRequest.id);
 
       try {
         // Запускаем процесс генерации
         console.log('📸 [IMAGE_GEN] Вызываем Gemini API...');
         const moduleName = request.moduleName || this.MODULE_NAME;
-        const response = await this.callGeminiAPI(request.prompt, request.options, request.telegramId, moduleName);
+        const response = await this.callGeminiAPI(request.prompt, request.options, request.telegramId, moduleName, apiRequest.id);
         
         if (response.success && response.imageUrl) {
+          // Списываем зарезервированную сумму до сохранения результата: без оплаты запрос завершается ошибкой
+          // При админском перезапуске резерва нет и списание пропускается
+          if (holdId) {
+            const capture = await BalanceService.captureRequestHold(holdId, `photo_${photo.id}`);
+            if (!capture.success) {
+              throw new Error(`Не удалось списать оплату: ${capture.error}`);
+            }
+          } else {
+            console.log('🔧 [IMAGE_GEN] Админский перезапуск - пропускаем списание баланса');
+          }
+
           // Обновляем запись фото
           await photo.update({
             restored_url: response.imageUrl, // В случае генерации используем restored_url для результата
@@ -230,20 +150,6 @@ export class ImageGenerationService {
             status: 'completed'
           });
 
-          // Списываем деньги с баланса
-          // Пропускаем списание при админском перезапуске
-          if (!request.adminRetry) {
-            await BalanceService.debitBalance({
-              userId: request.userId,
-              amount: generationCost,
-              type: 'debit',
-              description: 'Генерация изображения',
-              referenceId: `photo_${photo.id}`
-            });
-          } else {
-            console.log('🔧 [IMAGE_GEN] Админский перезапуск - пропускаем списание баланса');
-          }
-
           return {
             success: true,
             photo_id: photo.id,
@@ -263,6 +169,10 @@ export class ImageGenerationService {
             response_data: JSON.stringify(response)
           });
 
+          if (holdId) {
+            await BalanceService.releaseHold(holdId, response.error);
+          }
+
           return { 
             success: false, 
             error: response.error || 'Ошибка при генерации изображения'
@@ -282,6 +192,10 @@ export class ImageGenerationService {
           response_data: JSON.stringify({ error: error instanceof Error ? error.message : 'Неизвестная ошибка' })
         });
 
+        if (holdId) {
+          await BalanceService.releaseHold(holdId, 'ошибка вызова API');
+        }
+
         return { 
           success: false, 
           error: error instanceof Error ? error.message : 'Ошибка при генерации изображения'
@@ -289,6 +203,9 @@ export class ImageGenerationService {
       }
     } catch (error) {
       console.error('❌ [IMAGE_GEN] Общая ошибка:', error);
+      if (holdId) {
+        await BalanceService.releaseHold(holdId, 'общая ошибка');
+      }
       return { 
         success: false, 
         error: error instanceof Error ? error.message : 'Внутренняя ошибка сервера'
@@ -300,47 +217,65 @@ export class ImageGenerationService {
    * Запустить процесс генерации изображения с референсными изображениями (img2img)
    */
   static async generateImageWithReference(request: GenerateImageWithReferenceRequest): Promise<GenerateImageResult> {
+    let holdId: number | undefined;
+
     try {
       // Получаем актуальную стоимость генерации из БД
-      const generationCost = await this.getGenerationCost();
-
-      // Проверяем баланс пользователя
-      const canPay = await BalanceService.canDebitById(request.userId, generationCost);
-      if (!canPay) {
-        return { 
-          success: false, 
-          error: 'Недостаточно средств на балансе',
-          message: 'Недостаточно средств на балансе',
-          cost: generationCost
-        };
+      const generationCost = await this.getGenerationCost(request.userId);
+
+      // Резервируем стоимость (при админском перезапуске списания нет, поэтому и резерв не нужен)
+      // Задача из очереди: запрос и резерв уже созданы при постановке в очередь
+      const queuedRequest = request.apiRequestId ? await ApiRequest.findByPk(request.apiRequestId) : null;
+      if (queuedRequest) {
+        holdId = queuedRequest.hold_id || undefined;
+      } else if (!request.adminRetry) {
+        const hold = await BalanceService.reserve(request.userId, generationCost, 'Генерация изображения с референсом', 'image_generate');
+        if (!hold.success) {
+          return { 
+            success: false, 
+            error: hold.error || 'Недостаточно средств на балансе',
+            message: hold.error || 'Недостаточно средств на балансе',
+            cost: generationCost
+          };
+        }
+        holdId = hold.holdId;
       }
 
       // Создаем запись фото в базе (используем Photo модель для совместимости)
-      const photo = await Photo.create({
-        user_id: request.userId,
-        original_url: '', // Для генерации нет исходного изображения
-        status: 'processing',
-        request_params: JSON.stringify({
-          prompt: request.prompt,
-          referenceImagesCount: request.referenceImages.length,
-          ...request.options
-        })
-      });
+      // Повтор задачи из очереди продолжает с фото предыдущей попытки, а не создает новое
+      const previousPhoto = queuedRequest?.photo_id ? await Photo.findByPk(queuedRequest.photo_id) : null;
+      const photo = previousPhoto
+        ? await previousPhoto.update({ status: 'processing' })
+        : await Photo.create({
+          user_id: request.userId,
+          original_url: '', // Для генерации нет исходного изображения
+          status: 'processing',
+          request_params: JSON.stringify({
+            prompt: request.prompt,
+            referenceImagesCount: request.referenceImages.length,
+            ...request.options
+          })
+        });
 
       // Записываем API запрос
-      const apiRequest = await ApiRequest.create({
-        user_id: request.userId,
-        photo_id: photo.id, // Связываем с созданным фото
-        api_name: 'image_generation_img2img',
-        request_type: 'image_generate',
-        prompt: request.prompt,
-        request_data: JSON.stringify({
-          ...request,
-          referenceImages: request.referenceImages.map(f => f.filename) // Сохраняем только имена файлов
-        }),
-        status: 'processing',
-        cost: generationCost
-      });
+      const apiRequest = queuedRequest
+        ? await queuedRequest.update({ status: 'processing', photo_id: photo.id })
+        : await ApiRequest.create({
+          user_id: request.userId,
+          photo_id: photo.id, // Связываем с созданным фото
+          api_name: 'image_generation_img2img',
+          request_type: 'image_generate',
+          prompt: request.prompt,
+          request_data: JSON.stringify({
+            ...request,
+            referenceImages: request.referenceImages.map(f => f.filename) // Сохраняем только имена файлов
+          }),
+          status: 'processing',
+          cost: generationCost,
+          hold_id: holdId
+        });
+      await IdempotencyService.attachApiRequest(request.idempotencyKeyId, apiRequest.id);
+      JobEventsService.processing(apiRequest.id);
 
       try {
         // Запускаем процесс генерации с референсными изображениями
@@ -351,10 +286,22 @@ export class ImageGenerationService {
           request.referenceImages, 
           request.options, 
           request.telegramId, 
-          moduleName
+          moduleName,
+          apiRequest.id
         );
         
         if (response.success && response.imageUrl) {
+          // Списываем зарезервированную сумму до сохранения результата: без оплаты запрос завершается ошибкой
+          // При админском перезапуске резерва нет и списание пропускается
+          if (holdId) {
+            const capture = await BalanceService.captureRequestHold(holdId, `photo_${photo.id}`);
+            if (!capture.success) {
+              throw new Error(`Не удалось списать оплату: ${capture.error}`);
+            }
+          } else {
+            console.log('🔧 [IMAGE_GEN_REF] Админский перезапуск - пропускаем списание баланса');
+          }
+
           // Обновляем запись фото
           await photo.update({
             restored_url: response.imageUrl, // В случае генерации используем restored_url для результата
@@ -368,20 +315,6 @@ export class ImageGenerationService {
             status: 'completed'
           });
 
-          // Списываем деньги с баланса
-          // Пропускаем списание при админском перезапуске
-          if (!request.adminRetry) {
-            await BalanceService.debitBalance({
-              userId: request.userId,
-              amount: generationCost,
-              type: 'debit',
-              description: 'Генерация изображения с референсом',
-              referenceId: `photo_${photo.id}`
-            });
-          } else {
-            console.log('🔧 [IMAGE_GEN_REF] Админский перезапуск - пропускаем списание баланса');
-          }
-
           return {
             success: true,
             photo_id: photo.id,
@@ -401,6 +334,10 @@ export class ImageGenerationService {
             response_data: JSON.stringify(response)
           });
 
+          if (holdId) {
+            await BalanceService.releaseHold(holdId, response.error);
+          }
+
           return { 
             success: false, 
             error: response.error || 'Ошибка при генерации изображения',
@@ -421,6 +358,10 @@ export class ImageGenerationService {
           response_data: JSON.stringify({ error: error instanceof Error ? error.message : 'Неизвестная ошибка' })
         });
 
+        if (holdId) {
+          await BalanceService.releaseHold(holdId, 'ошибка вызова API');
+        }
+
         return { 
           success: false, 
           error: error instanceof Error ? error.message : 'Ошибка при генерации изображения',
@@ -429,6 +370,9 @@ export class ImageGenerationService {
       }
     } catch (error) {
       console.error('❌ [IMAGE_GEN_IMG2IMG] Общая ошибка:', error);
+      if (holdId) {
+        await BalanceService.releaseHold(holdId, 'общая ошибка');
+      }
       return { 
         success: false, 
         error: error instanceof Error ? error.message : 'Внутренняя ошибка сервера',
@@ -440,11 +384,13 @@ export class ImageGenerationService {
   /**
    * Вызов Gemini API для генерации изображения
    */
-  private static async callGeminiAPI(prompt: string, options?: any, telegramId?: number, moduleName?: string): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
+  private static async callGeminiAPI(prompt: string, options?: any, telegramId?: number, moduleName?: string, requestId?: number): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
     try {
-      const result = await this.executeWithRetry(async () => {
-        return await this.performGeminiAPICall(prompt, options, telegramId, moduleName);
-      }, 'Gemini API Image Generation');
+      const result = await GenerationProviderService.withFailover('image_generate', providerName =>
+        ResilienceService.execute(async () => {
+          return await this.performGeminiAPICall(prompt, options, telegramId, moduleName, providerName);
+        }, { operation: 'Gemini API Image Generation', provider: providerName, requestId })
+      );
 
       return result;
     } catch (error) {
@@ -457,76 +403,35 @@ export class ImageGenerationService {
   }
 
   /**
-   * Выполнение одиночного вызова Gemini API для генерации изображения
+   * Выполнение одиночного вызова модели для генерации изображения
    */
-  private static async performGeminiAPICall(prompt: string, options?: any, telegramId?: number, moduleName?: string): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
-    // Инициализируем Google GenAI
-    const genai = new GoogleGenAI({ 
-      apiKey: this.GEMINI_API_KEY
-    });
-
-    console.log('🎨 [IMAGE_GEN] Отправляем запрос к Gemini API...');
+  private static async performGeminiAPICall(prompt: string, options?: any, telegramId?: number, moduleName?: string, providerName?: ImageGenerationProviderName): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
+    console.log('🎨 [IMAGE_GEN] Отправляем запрос к модели генерации...');
     console.log('🎨 [IMAGE_GEN] Промпт:', prompt.substring(0, 100) + '...');
-    
-    // Создаем промис с таймаутом для одного запроса (3 минуты)
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Timeout: запрос превысил 3 минуты')), 180000);
-    });
 
     // Формируем промпт для генерации изображения
     const enhancedPrompt = await this.enhancePrompt(prompt, options);
 
-    const apiPromise = genai.models.generateContent({
-      model: "gemini-2.5-flash-image-preview", // Используем модель с поддержкой изображений
-      contents: [{ text: enhancedPrompt }],
-    });
-
-    const response = await Promise.race([apiPromise, timeoutPromise]) as any;
+    const result = await GenerationProviderService.generate('image_generate', { prompt: enhancedPrompt }, providerName);
+    const [image] = result.images;
 
-    console.log('🎨 [IMAGE_GEN] Получен ответ от API');
-    console.log('🎨 [IMAGE_GEN] Количество кандидатов:', response.candidates?.length || 0);
-
-    if (response.candidates && response.candidates.length > 0) {
-      const candidate = response.candidates[0];
-      if (!candidate.content || !candidate.content.parts) {
-        console.log('❌ [IMAGE_GEN] Неверная структура ответа - отсутствует content.parts');
-        throw new Error('Неверная структура ответа API');
-      }
-
-      console.log('🎨 [IMAGE_GEN] Количество частей контента:', candidate.content.parts.length);
-
-      for (const part of candidate.content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          console.log('✅ [IMAGE_GEN] Найдено сгенерированное изображение, MIME:', part.inlineData.mimeType);
-          
-          // Сохраняем сгенерированное изображение с помощью FileManagerService
-          if (telegramId) {
-            const finalModuleName = moduleName || this.MODULE_NAME;
-            const savedFile = FileManagerService.saveBase64File(
-              part.inlineData.data,
-              part.inlineData.mimeType || 'image/jpeg',
-              telegramId,
-              finalModuleName,
-              'generated'
-            );
-            
-            return {
-              success: true,
-              imageUrl: savedFile.url
-            };
-          }
-          
-          throw new Error('telegramId не предоставлен для сохранения изображения');
-        }
-      }
-
-      // Если дошли до сюда - изображения не было найдено
-      console.log('❌ [IMAGE_GEN] В ответе не найдено сгенерированное изображение');
-      throw new Error('API не вернул сгенерированное изображение');
-    } else {
-      console.log('❌ [IMAGE_GEN] API не вернул кандидатов');
-      throw new Error('API не вернул результат');
+    // Сохраняем сгенерированное изображение с помощью FileManagerService
+    if (!telegramId) {
+      throw new Error('telegramId не предоставлен для сохранения изображения');
     }
+
+    const savedFile = FileManagerService.saveBase64File(
+      image.data.toString('base64'),
+      image.mimeType,
+      telegramId,
+      moduleName || this.MODULE_NAME,
+      'generated'
+    );
+
+    return {
+      success: true,
+      imageUrl: savedFile.url
+    };
   }
 
   /**
@@ -582,12 +487,15 @@ export class ImageGenerationService {
     referenceImages: Express.Multer.File[], 
     options?: any, 
     telegramId?: number, 
-    moduleName?: string
+    moduleName?: string,
+    requestId?: number
   ): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
     try {
-      const result = await this.executeWithRetry(async () => {
-        return await this.performGeminiAPICallWithReference(prompt, referenceImages, options, telegramId, moduleName);
-      }, 'Gemini API Image Generation with Reference');
+      const result = await GenerationProviderService.withFailover('image_generate_img2img', providerName =>
+        ResilienceService.execute(async () => {
+          return await this.performGeminiAPICallWithReference(prompt, referenceImages, options, telegramId, moduleName, providerName);
+        }, { operation: 'Gemini API Image Generation with Reference', provider: providerName, requestId })
+      );
 
       return result;
     } catch (error) {
@@ -600,103 +508,51 @@ export class ImageGenerationService {
   }
 
   /**
-   * Выполнение одиночного вызова Gemini API для генерации изображения с референсом
+   * Выполнение одиночного вызова модели для генерации изображения с референсом
    */
   private static async performGeminiAPICallWithReference(
     prompt: string, 
     referenceImages: Express.Multer.File[], 
     options?: any, 
     telegramId?: number, 
-    moduleName?: string
+    moduleName?: string,
+    providerName?: ImageGenerationProviderName
   ): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
-    // Инициализируем Google GenAI
-    const genai = new GoogleGenAI({ 
-      apiKey: this.GEMINI_API_KEY
-    });
-
-    console.log('🎨 [IMAGE_GEN_IMG2IMG] Отправляем запрос к Gemini API...');
+    console.log('🎨 [IMAGE_GEN_IMG2IMG] Отправляем запрос к модели генерации...');
     console.log('🎨 [IMAGE_GEN_IMG2IMG] Промпт:', prompt.substring(0, 100) + '...');
     console.log('🎨 [IMAGE_GEN_IMG2IMG] Количество референсных изображений:', referenceImages.length);
-    
-    // Создаем промис с таймаутом для одного запроса (3 минуты)
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Timeout: запрос превысил 3 минуты')), 180000);
-    });
 
     // Формируем промпт для img2img генерации
     const enhancedPrompt = await this.enhanceImg2ImgPrompt(prompt, options);
 
-    // Подготавливаем контент с референсными изображениями
     const fs = require('fs');
-    const contents: any[] = [];
-    
-    // Добавляем referencer изображения
-    for (const refImage of referenceImages) {
-      const imageData = fs.readFileSync(refImage.path);
-      const base64Image = imageData.toString('base64');
-      
-      contents.push({
-        inlineData: {
-          data: base64Image,
-          mimeType: refImage.mimetype
-        }
-      });
+    const result = await GenerationProviderService.generate('image_generate_img2img', {
+      prompt: enhancedPrompt,
+      images: referenceImages.map(refImage => ({
+        data: fs.readFileSync(refImage.path),
+        mimeType: refImage.mimetype
+      })),
+      promptPosition: 'after_images'
+    }, providerName);
+    const [image] = result.images;
+
+    // Сохраняем сгенерированное изображение с помощью FileManagerService
+    if (!telegramId) {
+      throw new Error('telegramId не предоставлен для сохранения изображения');
     }
-    
-    // Добавляем текстовый промпт
-    contents.push({ text: enhancedPrompt });
-
-    const apiPromise = genai.models.generateContent({
-      model: "gemini-2.5-flash-image-preview", // Используем модель с поддержкой изображений
-      contents: [{ parts: contents }],
-    });
-
-    const response = await Promise.race([apiPromise, timeoutPromise]) as any;
-
-    console.log('🎨 [IMAGE_GEN_IMG2IMG] Получен ответ от API');
-    console.log('🎨 [IMAGE_GEN_IMG2IMG] Количество кандидатов:', response.candidates?.length || 0);
 
-    if (response.candidates && response.candidates.length > 0) {
-      const candidate = response.candidates[0];
-      if (!candidate.content || !candidate.content.parts) {
-        console.log('❌ [IMAGE_GEN_IMG2IMG] Неверная структура ответа - отсутствует content.parts');
-        throw new Error('Неверная структура ответа API');
-      }
-
-      console.log('🎨 [IMAGE_GEN_IMG2IMG] Количество частей контента:', candidate.content.parts.length);
-
-      for (const part of candidate.content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          console.log('✅ [IMAGE_GEN_IMG2IMG] Найдено сгенерированное изображение, MIME:', part.inlineData.mimeType);
-          
-          // Сохраняем сгенерированное изображение с помощью FileManagerService
-          if (telegramId) {
-            const finalModuleName = moduleName || 'image_generation_img2img';
-            const savedFile = FileManagerService.saveBase64File(
-              part.inlineData.data,
-              part.inlineData.mimeType || 'image/jpeg',
-              telegramId,
-              finalModuleName,
-              'generated'
-            );
-            
-            return {
-              success: true,
-              imageUrl: savedFile.url
-            };
-          }
-          
-          throw new Error('telegramId не предоставлен для сохранения изображения');
-        }
-      }
-
-      // Если дошли до сюда - изображения не было найдено
-      console.log('❌ [IMAGE_GEN_IMG2IMG] В ответе не найдено сгенерированное изображение');
-      throw new Error('API не вернул сгенерированное изображение');
-    } else {
-      console.log('❌ [IMAGE_GEN_IMG2IMG] API не вернул кандидатов');
-      throw new Error('API не вернул результат');
-    }
+    const savedFile = FileManagerService.saveBase64File(
+      image.data.toString('base64'),
+      image.mimeType,
+      telegramId,
+      moduleName || 'image_generation_img2img',
+      'generated'
+    );
+
+    return {
+      success: true,
+      imageUrl: savedFile.url
+    };
   }
 
   /**
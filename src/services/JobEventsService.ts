@@ -0,0 +1,102 @@
+import { EventEmitter } from 'events';
+import type { JobStatus } from './JobQueueService';
+
+export type JobEventType = 'queued' | 'processing' | 'retrying' | 'completed' | 'failed';
+
+export interface JobEvent {
+  type: JobEventType;
+  requestId: number; // id запроса (ApiRequest)
+  queuePosition?: number | null; // queued: место в очереди
+  attempt?: number; // retrying: номер следующей попытки
+  delayMs?: number; // retrying: пауза перед следующей попыткой
+  resultUrls?: string[]; // completed
+  error?: string; // failed: сообщение для пользователя
+  timestamp: string;
+}
+
+/**
+ * События прогресса обработки запросов
+ * Очередь и сервисы обработки публикуют события, SSE эндпоинт /api/jobs/:id/events пересылает их клиенту.
+ * Шина работает внутри процесса; события воркеров другого процесса клиент получает при повторной проверке статуса
+ */
+export class JobEventsService {
+  private static readonly emitter = (() => {
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0); // на каждый открытый SSE поток — свой подписчик
+    return emitter;
+  })();
+
+  /**
+   * Подписаться на события запроса. Возвращает функцию отписки
+   */
+  static subscribe(requestId: number, listener: (event: JobEvent) => void): () => void {
+    const channel = this.channel(requestId);
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  static queued(requestId: number, queuePosition?: number | null): void {
+    this.publish({ type: 'queued', requestId, queuePosition });
+  }
+
+  /**
+   * Запрос взят в обработку (вызывается сервисом обработки)
+   */
+  static processing(requestId?: number): void {
+    if (requestId) {
+      this.publish({ type: 'processing', requestId });
+    }
+  }
+
+  /**
+   * Повтор после ошибки: попытка вызова модели в ResilienceService.execute или повтор задачи очередью
+   */
+  static retrying(requestId: number | undefined, attempt: number, delayMs: number): void {
+    if (requestId) {
+      this.publish({ type: 'retrying', requestId, attempt, delayMs });
+    }
+  }
+
+  static completed(requestId: number, resultUrls: string[]): void {
+    this.publish({ type: 'completed', requestId, resultUrls });
+  }
+
+  static failed(requestId: number, error: string): void {
+    this.publish({ type: 'failed', requestId, error });
+  }
+
+  /**
+   * Событие, соответствующее текущему статусу запроса (первое событие SSE потока)
+   */
+  static fromStatus(status: JobStatus): JobEvent {
+    const timestamp = new Date().toISOString();
+
+    switch (status.status) {
+      case 'completed':
+        return { type: 'completed', requestId: status.id, resultUrls: status.resultUrls, timestamp };
+      case 'failed':
+        return { type: 'failed', requestId: status.id, error: status.error, timestamp };
+      case 'processing':
+        return { type: 'processing', requestId: status.id, timestamp };
+      default:
+        // Задача уже бралась в работу и вернулась в очередь — это повтор
+        return status.attempts > 0
+          ? { type: 'retrying', requestId: status.id, attempt: status.attempts + 1, timestamp }
+          : { type: 'queued', requestId: status.id, queuePosition: status.queuePosition, timestamp };
+    }
+  }
+
+  static isFinal(event: JobEvent): boolean {
+    return event.type === 'completed' || event.type === 'failed';
+  }
+
+  private static publish(event: Omit<JobEvent, 'timestamp'>): void {
+    this.emitter.emit(this.channel(event.requestId), { ...event, timestamp: new Date().toISOString() });
+  }
+
+  private static channel(requestId: number): string {
+    return `job:${requestId}`;
+  }
+}
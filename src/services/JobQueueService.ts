@@ -0,0 +1,513 @@
+import os from 'os';
+import fs from 'fs';
+import { Op } from 'sequelize';
+import { ApiRequest, Job, Photo } from '../models/index';
+import { BalanceService } from './BalanceService';
+import { IdempotencyService } from './IdempotencyService';
+import { JobEventsService } from './JobEventsService';
+import { PhotoRestorationService } from './PhotoRestorationService';
+import { PhotoStylizationService } from './PhotoStylizationService';
+import { EraStyleService } from './EraStyleService';
+import { PoetStyleService } from './PoetStyleService';
+import { ImageGenerationService } from './ImageGenerationService';
+import { ReferralService } from './ReferralService';
+
+export type JobType = 'photo_restore' | 'photo_stylize' | 'era_style' | 'poet_style' | 'image_generate' | 'image_generate_img2img';
+
+export interface EnqueueJobParams {
+  type: JobType;
+  userId: number;
+  apiName: string;
+  requestType: ApiRequest['request_type'];
+  cost: number;
+  description: string; // описание резерва и списания
+  prompt?: string;
+  payload: Record<string, any>; // параметры вызова сервиса обработки
+  idempotencyKeyId?: number;
+}
+
+export interface EnqueueJobResult {
+  success: boolean;
+  apiRequestId?: number;
+  cost?: number; // фактическая стоимость: 0, если запрос покрыт квотой подписки или пакетом
+  coveredBySubscription?: boolean;
+  coveredByPack?: boolean;
+  error?: string;
+}
+
+export interface JobStatus {
+  id: number; // id запроса (ApiRequest)
+  type: ApiRequest['request_type'];
+  status: ApiRequest['status'];
+  queuePosition: number | null; // место в очереди, пока задача ждет воркера
+  attempts: number;
+  maxAttempts: number;
+  resultUrls: string[];
+  error?: string; // сообщение для пользователя, без технических деталей
+  cost: number;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+interface JobOutcome {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Очередь задач обработки на MySQL (таблица jobs)
+ * Маршрут ставит задачу в очередь и сразу отвечает id запроса, обработку выполняет пул воркеров.
+ * Воркер берет задачу в аренду (lease) и продлевает ее, пока работает; задача с истекшей арендой
+ * (процесс упал или был перезапущен) снова берется в работу, пока не исчерпаны попытки
+ */
+export class JobQueueService {
+  private static readonly WORKER_CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || '2');
+  private static readonly POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000');
+  private static readonly LEASE_SECONDS = parseInt(process.env.JOB_LEASE_SECONDS || '120');
+  private static readonly MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3');
+  private static readonly HOLD_REFRESH_SECONDS = parseInt(process.env.JOB_HOLD_REFRESH_SECONDS || '60');
+  private static readonly SHUTDOWN_TIMEOUT_SECONDS = parseInt(process.env.JOB_SHUTDOWN_TIMEOUT_SECONDS || '25');
+
+  private static readonly workerId = `${os.hostname()}:${process.pid}`;
+  private static running = false;
+  private static holdRefreshTimer?: NodeJS.Timeout;
+  private static activeJobs = new Set<Promise<void>>();
+
+  /**
+   * Принять задачу: зарезервировать стоимость (или квоту подписки, запрос пакета), создать ApiRequest со статусом pending и поставить задачу в очередь
+   */
+  static async enqueue(params: EnqueueJobParams): Promise<EnqueueJobResult> {
+    const hold = await BalanceService.reserve(params.userId, params.cost, params.description, params.requestType);
+    if (!hold.success) {
+      return { success: false, error: hold.error };
+    }
+    const cost = hold.coveredBySubscription || hold.coveredByPack ? 0 : params.cost;
+
+    try {
+      const apiRequest = await ApiRequest.create({
+        user_id: params.userId,
+        api_name: params.apiName,
+        request_type: params.requestType,
+        prompt: params.prompt,
+        request_data: JSON.stringify(params.payload),
+        status: 'pending',
+        cost,
+        hold_id: hold.holdId
+      });
+
+      await Job.create({
+        api_request_id: apiRequest.id,
+        type: params.type,
+        payload: params.payload,
+        max_attempts: this.MAX_ATTEMPTS
+      });
+
+      await IdempotencyService.attachApiRequest(params.idempotencyKeyId, apiRequest.id);
+
+      console.log(`📥 [QUEUE] Задача ${params.type} поставлена в очередь, запрос ${apiRequest.id}`);
+      JobEventsService.queued(apiRequest.id);
+      return { success: true, apiRequestId: apiRequest.id, cost, coveredBySubscription: hold.coveredBySubscription || false, coveredByPack: hold.coveredByPack || false };
+    } catch (error) {
+      console.error('❌ [QUEUE] Ошибка постановки задачи в очередь:', error);
+      await BalanceService.releaseHold(hold.holdId!, 'ошибка постановки в очередь');
+      return { success: false, error: 'Внутренняя ошибка сервера' };
+    }
+  }
+
+  /**
+   * Статус запроса пользователя по id ApiRequest
+   * Чужой запрос не отличается от несуществующего (null); без userId проверка владельца не выполняется
+   */
+  static async getJobStatus(apiRequestId: number, userId?: number): Promise<JobStatus | null> {
+    const apiRequest = await ApiRequest.findOne({
+      where: userId === undefined ? { id: apiRequestId } : { id: apiRequestId, user_id: userId },
+      include: [
+        { model: Job, as: 'job', required: false },
+        { model: Photo, as: 'photo', required: false }
+      ]
+    });
+    if (!apiRequest) {
+      return null;
+    }
+
+    const job = apiRequest.job || undefined;
+    const photo = apiRequest.photo || undefined;
+
+    return {
+      id: apiRequest.id,
+      type: apiRequest.request_type,
+      status: apiRequest.status,
+      queuePosition: job ? await this.getQueuePosition(job) : null,
+      attempts: job ? job.attempts : 1,
+      maxAttempts: job ? job.max_attempts : 1,
+      resultUrls: apiRequest.status === 'completed' ? this.extractResultUrls(apiRequest, photo) : [],
+      error: apiRequest.status === 'failed' ? 'Сервис временно недоступен, попробуйте чуть позже' : undefined,
+      cost: Number(apiRequest.cost),
+      createdAt: apiRequest.createdAt,
+      completedAt: apiRequest.completed_date || job?.completed_at
+    };
+  }
+
+  /**
+   * Ждет ли запрос воркера или уже обрабатывается им
+   * Такой запрос нельзя перезапускать или завершать в обход очереди: работа и списание резерва выполнились бы дважды
+   */
+  static async hasActiveJob(apiRequestId: number): Promise<boolean> {
+    const active = await Job.count({ where: { api_request_id: apiRequestId, status: { [Op.in]: ['queued', 'running'] } } });
+    return active > 0;
+  }
+
+  /**
+   * Место задачи в очереди (null, если задача не ждет воркера)
+   */
+  private static async getQueuePosition(job: Job): Promise<number | null> {
+    if (job.status !== 'queued') {
+      return null;
+    }
+
+    const ahead = await Job.count({ where: { status: 'queued', id: { [Op.lt]: job.id } } });
+    return ahead + 1;
+  }
+
+  /**
+   * URL результатов из response_data (restoredUrl, styledUrl, imageUrl) и записи фото
+   */
+  private static extractResultUrls(apiRequest: ApiRequest, photo?: Photo): string[] {
+    const urls = new Set<string>();
+
+    if (apiRequest.response_data) {
+      try {
+        const response = JSON.parse(apiRequest.response_data);
+        for (const url of [response.restoredUrl, response.styledUrl, response.imageUrl]) {
+          if (typeof url === 'string' && url) {
+            urls.add(url);
+          }
+        }
+      } catch (error) {
+        console.error(`❌ [QUEUE] Некорректный response_data у запроса ${apiRequest.id}:`, error);
+      }
+    }
+
+    if (photo?.restored_url) {
+      urls.add(photo.restored_url);
+    }
+
+    return Array.from(urls);
+  }
+
+  /**
+   * Запустить пул воркеров текущего процесса
+   */
+  static startWorkers(): void {
+    if (this.running || this.WORKER_CONCURRENCY <= 0) {
+      return;
+    }
+
+    this.running = true;
+    for (let i = 0; i < this.WORKER_CONCURRENCY; i++) {
+      void this.workerLoop(i);
+    }
+    this.holdRefreshTimer = setInterval(() => void this.refreshHolds(), this.HOLD_REFRESH_SECONDS * 1000);
+    console.log(`⚙️ [QUEUE] Запущено воркеров: ${this.WORKER_CONCURRENCY} (${this.workerId})`);
+  }
+
+  /**
+   * Остановить воркеры: новые задачи не берутся, текущие дорабатываются до JOB_SHUTDOWN_TIMEOUT_SECONDS
+   * Задачи, не успевшие завершиться, возвращаются в очередь, чтобы другой процесс взял их сразу, не дожидаясь истечения аренды
+   */
+  static async stopWorkers(): Promise<void> {
+    this.running = false;
+    if (this.holdRefreshTimer) {
+      clearInterval(this.holdRefreshTimer);
+      this.holdRefreshTimer = undefined;
+    }
+
+    if (this.activeJobs.size === 0) {
+      return;
+    }
+
+    console.log(`⏳ [QUEUE] Ожидаем завершения задач: ${this.activeJobs.size}`);
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = await Promise.race([
+      Promise.allSettled(Array.from(this.activeJobs)).then(() => false),
+      new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(true), this.SHUTDOWN_TIMEOUT_SECONDS * 1000); })
+    ]);
+    clearTimeout(timer);
+
+    if (timedOut) {
+      const [requeued] = await Job.update(
+        { status: 'queued', locked_by: null, lease_expires_at: null, run_at: new Date() },
+        { where: { status: 'running', locked_by: this.workerId } }
+      );
+      console.warn(`⚠️ [QUEUE] Задачи не успели завершиться, возвращено в очередь: ${requeued}`);
+    }
+  }
+
+  /**
+   * Продлить резервы задач, которые ждут в очереди или выполняются
+   * Резерв живет BALANCE_HOLD_TTL_MINUTES, а задача может ждать и повторяться дольше: без продления
+   * те же средства (квоту подписки, запрос пакета) можно было бы зарезервировать повторно
+   */
+  private static async refreshHolds(): Promise<void> {
+    try {
+      const requests = await ApiRequest.findAll({
+        attributes: ['hold_id'],
+        include: [{ model: Job, as: 'job', attributes: [], where: { status: { [Op.in]: ['queued', 'running'] } } }]
+      });
+      const holdIds = requests.map(request => request.hold_id).filter((holdId): holdId is number => !!holdId);
+      await BalanceService.extendHolds(holdIds);
+    } catch (error) {
+      console.error('❌ [QUEUE] Не удалось продлить резервы задач:', error);
+    }
+  }
+
+  /**
+   * Цикл воркера: берет задачи, пока они есть, иначе ждет POLL_INTERVAL_MS
+   */
+  private static async workerLoop(index: number): Promise<void> {
+    while (this.running) {
+      try {
+        const job = await this.claimNextJob();
+        if (!job) {
+          await this.sleep(this.POLL_INTERVAL_MS);
+          continue;
+        }
+
+        const run = this.runJob(job);
+        this.activeJobs.add(run);
+        try {
+          await run;
+        } finally {
+          this.activeJobs.delete(run);
+        }
+      } catch (error) {
+        console.error(`❌ [QUEUE] Ошибка воркера ${index}:`, error);
+        await this.sleep(this.POLL_INTERVAL_MS);
+      }
+    }
+  }
+
+  /**
+   * Взять в аренду следующую задачу: новую или брошенную упавшим воркером (аренда истекла)
+   */
+  private static async claimNextJob(): Promise<Job | null> {
+    const now = new Date();
+
+    const candidates = await Job.findAll({
+      where: {
+        [Op.or]: [
+          { status: 'queued', run_at: { [Op.lte]: now } },
+          { status: 'running', lease_expires_at: { [Op.lt]: now } }
+        ]
+      },
+      order: [['id', 'ASC']],
+      limit: 5
+    });
+
+    for (const candidate of candidates) {
+      if (candidate.status === 'running') {
+        console.warn(`⚠️ [QUEUE] Аренда задачи ${candidate.id} истекла (${candidate.locked_by}), попытка ${candidate.attempts}/${candidate.max_attempts}`);
+
+        if (candidate.attempts >= candidate.max_attempts) {
+          await this.failJob(candidate, 'Обработка прервалась: исчерпаны попытки');
+          continue;
+        }
+      }
+
+      // Условное обновление: задачу получит только один воркер, даже если ее выбрали несколько
+      const [claimed] = await Job.update({
+        status: 'running',
+        locked_by: this.workerId,
+        lease_expires_at: this.leaseDeadline(),
+        attempts: candidate.attempts + 1
+      }, {
+        where: {
+          id: candidate.id,
+          status: candidate.status,
+          attempts: candidate.attempts
+        }
+      });
+
+      if (claimed > 0) {
+        await candidate.reload();
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Выполнить задачу, продлевая аренду, пока идет обработка
+   */
+  private static async runJob(job: Job): Promise<void> {
+    console.log(`⚙️ [QUEUE] Задача ${job.id} (${job.type}), запрос ${job.api_request_id}, попытка ${job.attempts}/${job.max_attempts}`);
+
+    const heartbeat = setInterval(() => {
+      Job.update(
+        { lease_expires_at: this.leaseDeadline() },
+        { where: { id: job.id, locked_by: this.workerId, status: 'running' } }
+      ).catch(error => console.error(`❌ [QUEUE] Не удалось продлить аренду задачи ${job.id}:`, error));
+    }, (this.LEASE_SECONDS * 1000) / 3);
+
+    try {
+      const outcome = await this.executeJob(job);
+
+      if (!outcome.success) {
+        // Сервис мог вернуть ошибку, не тронув запрос (например, неверный стиль): failJob завершает его и компенсирует оплату
+        await this.failJob(job, outcome.error || 'ошибка обработки');
+        return;
+      }
+
+      await job.update({ status: 'completed', completed_at: new Date(), lease_expires_at: null, locked_by: null });
+      console.log(`✅ [QUEUE] Задача ${job.id} выполнена`);
+      await this.rewardReferral(job);
+
+      if (job.type === 'image_generate_img2img') {
+        this.removeReferenceImages(job.payload?.referenceImages);
+      }
+      await this.publishFinalEvent(job.api_request_id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Неизвестная ошибка';
+      console.error(`❌ [QUEUE] Непредвиденная ошибка задачи ${job.id}:`, error);
+
+      if (job.attempts >= job.max_attempts) {
+        await this.failJob(job, message);
+      } else {
+        // Возвращаем в очередь с задержкой, следующая попытка начнется заново
+        const delayMs = job.attempts * 30 * 1000;
+        await job.update({
+          status: 'queued',
+          last_error: message,
+          run_at: new Date(Date.now() + delayMs),
+          locked_by: null,
+          lease_expires_at: null
+        });
+        JobEventsService.retrying(job.api_request_id, job.attempts + 1, delayMs);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Вызвать сервис обработки для задачи
+   * Сервис получает apiRequestId: запрос и резерв уже созданы при постановке в очередь
+   */
+  private static async executeJob(job: Job): Promise<JobOutcome> {
+    // После падения процесса запрос мог успеть завершиться до того, как задача была отмечена
+    const apiRequest = await ApiRequest.findByPk(job.api_request_id);
+    if (!apiRequest) {
+      return { success: false, error: 'Запрос задачи не найден' };
+    }
+    if (apiRequest.status === 'completed' || apiRequest.status === 'failed') {
+      return { success: apiRequest.status === 'completed', error: apiRequest.error_message };
+    }
+
+    const payload = { ...job.payload, apiRequestId: job.api_request_id };
+
+    switch (job.type as JobType) {
+      case 'photo_restore':
+        return await PhotoRestorationService.restorePhoto(payload);
+
+      case 'photo_stylize':
+        return await PhotoStylizationService.stylizePhoto(payload);
+
+      case 'era_style':
+        return await EraStyleService.stylePhotoByEra(payload);
+
+      case 'poet_style':
+        return await PoetStyleService.stylePhotoWithPoet(payload);
+
+      case 'image_generate':
+        return await ImageGenerationService.generateImage(payload);
+
+      case 'image_generate_img2img':
+        // Референсы удаляются, только когда задача завершена: повторной попытке они нужны
+        return await ImageGenerationService.generateImageWithReference(payload);
+
+      default:
+        return { success: false, error: `Неподдерживаемый тип задачи: ${job.type}` };
+    }
+  }
+
+  /**
+   * Окончательно провалить задачу: запрос помечается failed, резерв снимается (или оплата возвращается, если уже списана)
+   */
+  private static async failJob(job: Job, error: string): Promise<void> {
+    await job.update({ status: 'failed', last_error: error, completed_at: new Date() });
+
+    const apiRequest = await ApiRequest.findByPk(job.api_request_id);
+    if (apiRequest && apiRequest.status !== 'completed' && apiRequest.status !== 'failed') {
+      await apiRequest.update({
+        status: 'failed',
+        error_message: error,
+        completed_date: new Date()
+      });
+    }
+
+    if (apiRequest) {
+      await BalanceService.compensateFailedRequest(apiRequest, `задача ${job.id}: ${error}`);
+    }
+
+    if (job.type === 'image_generate_img2img') {
+      this.removeReferenceImages(job.payload?.referenceImages);
+    }
+
+    console.log(`❌ [QUEUE] Задача ${job.id} провалена: ${error}`);
+    await this.publishFinalEvent(job.api_request_id);
+  }
+
+  /**
+   * Бонусы по приглашению после первой оплаченной задачи приглашенного пользователя
+   */
+  private static async rewardReferral(job: Job): Promise<void> {
+    const apiRequest = await ApiRequest.findByPk(job.api_request_id);
+    if (apiRequest?.status === 'completed') {
+      await ReferralService.rewardForPaidRequest(apiRequest);
+    }
+  }
+
+  /**
+   * Опубликовать итоговое событие (completed или failed) по сохраненному статусу запроса
+   */
+  private static async publishFinalEvent(apiRequestId: number): Promise<void> {
+    try {
+      const status = await this.getJobStatus(apiRequestId);
+      if (status) {
+        const event = JobEventsService.fromStatus(status);
+        if (event.type === 'completed') {
+          JobEventsService.completed(apiRequestId, event.resultUrls || []);
+        } else if (event.type === 'failed') {
+          JobEventsService.failed(apiRequestId, event.error || '');
+        }
+      }
+    } catch (error) {
+      console.error(`❌ [QUEUE] Не удалось опубликовать итог запроса ${apiRequestId}:`, error);
+    }
+  }
+
+  /**
+   * Удалить временные референсные изображения img2img после обработки
+   */
+  private static removeReferenceImages(files?: { path?: string }[]): void {
+    for (const file of files || []) {
+      try {
+        if (file.path && fs.existsSync(file.path)) {
+          fs.unlinkSync(file.path);
+          console.log('🗑️ Удален временный файл:', file.path);
+        }
+      } catch (error) {
+        console.error('❌ Ошибка при очистке временных файлов:', error);
+      }
+    }
+  }
+
+  private static leaseDeadline(): Date {
+    return new Date(Date.now() + this.LEASE_SECONDS * 1000);
+  }
+
+  private static sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import { Op, QueryTypes, Transaction } from 'sequelize';
+import { sequelize, LedgerEntry } from '../models/index';
+
+export type LedgerEntryType =
+  | 'opening_balance'
+  | 'welcome_bonus'
+  | 'promo_bonus'
+  | 'referral_bonus'
+  | 'leadtech_transfer'
+  | 'top_up'
+  | 'top_up_refund'
+  | 'job_charge'
+  | 'subscription_charge'
+  | 'pack_charge'
+  | 'refund'
+  | 'admin_adjustment';
+
+export interface LedgerPosting {
+  userId: number;
+  amount: number; // положительная сумма зачисляется на счет пользователя, отрицательная списывается
+  entryType: LedgerEntryType;
+  description: string;
+  referenceId?: string;
+  paymentId?: number;
+}
+
+export interface BalanceMismatch {
+  userId: number;
+  telegramId: number;
+  cachedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+}
+
+export interface ReconciliationReport {
+  checkedAt: Date;
+  usersChecked: number;
+  mismatches: BalanceMismatch[];
+  unbalancedTransactions: string[]; // проводки, у которых сумма частей не равна нулю
+}
+
+/**
+ * Двойная запись: каждая операция — проводка из двух записей с противоположными суммами
+ * на счете пользователя (user:<id>) и на системном счете источника/назначения средств
+ */
+const COUNTER_ACCOUNTS: Record<LedgerEntryType, string> = {
+  opening_balance: 'system:opening_balance',
+  welcome_bonus: 'system:bonuses',
+  promo_bonus: 'system:bonuses',
+  referral_bonus: 'system:bonuses',
+  leadtech_transfer: 'external:leadtech',
+  top_up: 'external:payments',
+  top_up_refund: 'external:payments',
+  job_charge: 'system:revenue',
+  subscription_charge: 'system:revenue',
+  pack_charge: 'system:revenue',
+  refund: 'system:revenue',
+  admin_adjustment: 'system:adjustments'
+};
+
+/**
+ * Журнал операций с балансом (ledger_entries)
+ * Журнал только дополняется; баланс пользователя — сумма записей на его счете,
+ * а users.balance хранит кэш этой суммы
+ */
+export class LedgerService {
+  private static readonly RECONCILE_INTERVAL_MINUTES = parseInt(process.env.LEDGER_RECONCILE_INTERVAL_MINUTES || '60'); // 0 — отключить
+
+  private static reconcileTimer?: NodeJS.Timeout;
+
+  /**
+   * Счет пользователя в журнале
+   */
+  static userAccount(userId: number): string {
+    return `user:${userId}`;
+  }
+
+  /**
+   * Записать проводку в рамках транзакции вызывающего кода
+   * Возвращает запись по счету пользователя
+   */
+  static async post(posting: LedgerPosting, t: Transaction): Promise<LedgerEntry> {
+    const transactionId = crypto.randomUUID();
+    const amount = Math.round(posting.amount * 100) / 100;
+    const common = {
+      transaction_id: transactionId,
+      user_id: posting.userId,
+      entry_type: posting.entryType,
+      description: posting.description.substring(0, 255),
+      reference_id: posting.referenceId,
+      payment_id: posting.paymentId
+    };
+
+    const [userEntry] = await LedgerEntry.bulkCreate([
+      { ...common, account: this.userAccount(posting.userId), amount },
+      { ...common, account: COUNTER_ACCOUNTS[posting.entryType], amount: -amount }
+    ], { transaction: t });
+
+    return userEntry;
+  }
+
+  /**
+   * Баланс пользователя по журналу
+   * Внутри транзакции с заблокированной строкой пользователя значение не изменится до коммита
+   */
+  static async getUserBalance(userId: number, t?: Transaction): Promise<number> {
+    const sum = await LedgerEntry.sum('amount', {
+      where: { account: this.userAccount(userId) },
+      transaction: t
+    });
+    return Math.round((Number(sum) || 0) * 100) / 100;
+  }
+
+  /**
+   * Сумма оплат пользователя за все время: списания в выручку за вычетом возвратов
+   */
+  static async getUserSpend(userId: number): Promise<number> {
+    const revenueTypes = (Object.keys(COUNTER_ACCOUNTS) as LedgerEntryType[])
+      .filter(type => COUNTER_ACCOUNTS[type] === 'system:revenue');
+    const sum = await LedgerEntry.sum('amount', {
+      where: { account: this.userAccount(userId), entry_type: { [Op.in]: revenueTypes } }
+    });
+    return Math.max(0, Math.round(-(Number(sum) || 0) * 100) / 100);
+  }
+
+  /**
+   * Записи журнала по счету пользователя (новые сначала)
+   */
+  static async getUserEntries(userId: number, limit: number = 50): Promise<LedgerEntry[]> {
+    return await LedgerEntry.findAll({
+      where: { account: this.userAccount(userId) },
+      order: [['id', 'DESC']],
+      limit
+    });
+  }
+
+  /**
+   * Пользователи с ненулевым users.balance без единой записи в журнале: начальные остатки еще не перенесены
+   * Пока они есть, сервер не запускается — первая же операция посчитала бы баланс от нуля и перезаписала users.balance
+   */
+  static async countUnseededUsers(): Promise<number> {
+    const [row] = await sequelize.query<{ count: number }>(
+      `SELECT COUNT(*) AS count
+       FROM users u
+       WHERE u.balance <> 0
+         AND NOT EXISTS (SELECT 1 FROM ledger_entries l WHERE l.account = CONCAT('user:', u.id))`,
+      { type: QueryTypes.SELECT }
+    );
+    return Number(row?.count || 0);
+  }
+
+  /**
+   * Сверка: пользователи, у которых кэш users.balance расходится с суммой по журналу,
+   * и проводки, части которых не сходятся в ноль
+   */
+  static async reconcile(): Promise<ReconciliationReport> {
+    const rows = await sequelize.query<{ user_id: number; telegram_id: number; cached_balance: string; ledger_balance: string | null }>(
+      `SELECT u.id AS user_id, u.telegram_id, u.balance AS cached_balance, l.ledger_balance
+       FROM users u
+       LEFT JOIN (
+         SELECT user_id, SUM(amount) AS ledger_balance
+         FROM ledger_entries
+         WHERE account LIKE 'user:%'
+         GROUP BY user_id
+       ) l ON l.user_id = u.id`,
+      { type: QueryTypes.SELECT }
+    );
+
+    const mismatches: BalanceMismatch[] = [];
+    for (const row of rows) {
+      const cachedBalance = Math.round(Number(row.cached_balance) * 100) / 100;
+      const ledgerBalance = Math.round(Number(row.ledger_balance || 0) * 100) / 100;
+      const difference = Math.round((cachedBalance - ledgerBalance) * 100) / 100;
+
+      if (difference !== 0) {
+        mismatches.push({
+          userId: row.user_id,
+          telegramId: Number(row.telegram_id),
+          cachedBalance,
+          ledgerBalance,
+          difference
+        });
+      }
+    }
+
+    const unbalanced = await sequelize.query<{ transaction_id: string }>(
+      `SELECT transaction_id FROM ledger_entries GROUP BY transaction_id HAVING SUM(amount) <> 0`,
+      { type: QueryTypes.SELECT }
+    );
+
+    return {
+      checkedAt: new Date(),
+      usersChecked: rows.length,
+      mismatches,
+      unbalancedTransactions: unbalanced.map(row => row.transaction_id)
+    };
+  }
+
+  /**
+   * Запустить периодическую сверку (результат пишется в лог)
+   */
+  static startReconciliationJob(): void {
+    if (this.RECONCILE_INTERVAL_MINUTES <= 0 || this.reconcileTimer) {
+      return;
+    }
+
+    const run = async () => {
+      try {
+        const report = await this.reconcile();
+        if (report.mismatches.length === 0 && report.unbalancedTransactions.length === 0) {
+          console.log(`✅ [LEDGER] Сверка: расхождений нет (пользователей: ${report.usersChecked})`);
+          return;
+        }
+
+        for (const mismatch of report.mismatches) {
+          console.error(`⚠️ [LEDGER] Расхождение у пользователя ${mismatch.userId} (telegram ${mismatch.telegramId}): users.balance=${mismatch.cachedBalance}, журнал=${mismatch.ledgerBalance}, разница=${mismatch.difference}`);
+        }
+        if (report.unbalancedTransactions.length > 0) {
+          console.error(`⚠️ [LEDGER] Несбалансированные проводки: ${report.unbalancedTransactions.join(', ')}`);
+        }
+      } catch (error) {
+        console.error('❌ [LEDGER] Ошибка сверки журнала:', error);
+      }
+    };
+
+    this.reconcileTimer = setInterval(run, this.RECONCILE_INTERVAL_MINUTES * 60 * 1000);
+    this.reconcileTimer.unref();
+    console.log(`🧾 [LEDGER] Сверка журнала запускается каждые ${this.RECONCILE_INTERVAL_MINUTES} мин.`);
+  }
+
+  static stopReconciliationJob(): void {
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = undefined;
+    }
+  }
+}
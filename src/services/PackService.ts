@@ -0,0 +1,151 @@
+import { Op, Transaction } from 'sequelize';
+import { BalanceHold, PricingRule, UserPack } from '../models/index';
+import { PriceService } from './PriceService';
+
+export interface PackOffer {
+  ruleId: number;
+  name: string;
+  serviceType: string;
+  size: number; // число запросов в пакете
+  basePrice: number; // стоимость запросов по базовой цене («было»)
+  price: number; // цена пакета («стало»)
+  unitPrice: number; // цена одного запроса в пакете
+  discountPercent: number;
+  endsAt?: Date | null;
+}
+
+export interface UserPackStatus {
+  id: number;
+  serviceType: string;
+  quantity: number;
+  used: number;
+  remaining: number;
+  purchasedAt: Date;
+}
+
+/**
+ * Пакеты запросов (правила ценообразования типа pack)
+ * Пакет оплачивается со скидкой от базовой цены и расходуется резервами на 0 RUB с user_pack_id
+ * (см. BalanceService.reserve). Остаток пакета — количество минус действующие и списанные резервы,
+ * поэтому снятый резерв (ошибка обработки) запрос возвращает. Скидки распродаж и уровней на пакеты не действуют
+ */
+export class PackService {
+  /**
+   * Действующие предложения пакетов с ценами «было/стало»
+   */
+  static async getOffers(serviceType?: string): Promise<PackOffer[]> {
+    const rules = await PriceService.getActiveRules(['pack']);
+
+    const offers: PackOffer[] = [];
+    for (const rule of rules) {
+      if (!serviceType || rule.service_type === serviceType) {
+        offers.push(await this.toOffer(rule));
+      }
+    }
+    return offers;
+  }
+
+  /**
+   * Действующее предложение пакета по id правила (null, если правило не найдено, отключено или закончилось)
+   */
+  static async findOffer(ruleId: number): Promise<PackOffer | null> {
+    if (!Number.isInteger(ruleId) || ruleId <= 0) {
+      return null;
+    }
+    const rule = (await PriceService.getActiveRules(['pack'])).find(candidate => candidate.id === ruleId);
+    return rule ? await this.toOffer(rule) : null;
+  }
+
+  /**
+   * Пакет с остатком, которым оплачивается запрос (null — запрос оплачивается с баланса)
+   * Пакеты расходуются в порядке покупки. Вызывается под блокировкой пользователя, поэтому параллельные резервы не превышают остаток
+   */
+  static async findQuotaPack(userId: number, serviceType: string, t: Transaction): Promise<UserPack | null> {
+    const packs = await UserPack.findAll({
+      where: { user_id: userId, service_type: serviceType },
+      order: [['id', 'ASC']],
+      transaction: t
+    });
+
+    for (const pack of packs) {
+      if (await this.countUsage(pack, t) < pack.quantity) {
+        return pack;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Выдать оплаченный пакет пользователю
+   */
+  static async grant(userId: number, rule: PricingRule, price: number, paymentId: number, t: Transaction): Promise<UserPack> {
+    const pack = await UserPack.create({
+      user_id: userId,
+      pricing_rule_id: rule.id,
+      service_type: rule.service_type!,
+      quantity: rule.pack_size!,
+      price,
+      payment_id: paymentId
+    }, { transaction: t });
+
+    console.log(`📦 [PACK] Пользователю ${userId} выдан пакет ${pack.id}: ${pack.quantity} × ${pack.service_type} за ${price} RUB`);
+    return pack;
+  }
+
+  /**
+   * Пакеты пользователя с остатком для Mini App
+   */
+  static async getUserPacks(userId: number): Promise<UserPackStatus[]> {
+    const packs = await UserPack.findAll({ where: { user_id: userId }, order: [['id', 'ASC']] });
+
+    const statuses: UserPackStatus[] = [];
+    for (const pack of packs) {
+      const used = await this.countUsage(pack);
+      if (used < pack.quantity) {
+        statuses.push({
+          id: pack.id,
+          serviceType: pack.service_type,
+          quantity: pack.quantity,
+          used,
+          remaining: pack.quantity - used,
+          purchasedAt: pack.createdAt
+        });
+      }
+    }
+    return statuses;
+  }
+
+  private static async toOffer(rule: PricingRule): Promise<PackOffer> {
+    const size = rule.pack_size!;
+    const basePrice = Math.round(await PriceService.getServicePrice(rule.service_type!) * size * 100) / 100;
+    const price = PriceService.applyDiscount(basePrice, Number(rule.discount_percent));
+
+    return {
+      ruleId: rule.id,
+      name: rule.name,
+      serviceType: rule.service_type!,
+      size,
+      basePrice,
+      price,
+      unitPrice: Math.round(price / size * 100) / 100,
+      discountPercent: Number(rule.discount_percent),
+      endsAt: rule.ends_at
+    };
+  }
+
+  /**
+   * Израсходовано из пакета: резервы пакета, кроме снятых и просроченных
+   */
+  private static async countUsage(pack: UserPack, t?: Transaction): Promise<number> {
+    return await BalanceHold.count({
+      where: {
+        user_pack_id: pack.id,
+        [Op.or]: [
+          { status: 'captured' },
+          { status: 'held', expires_at: { [Op.gt]: new Date() } }
+        ]
+      },
+      transaction: t
+    });
+  }
+}
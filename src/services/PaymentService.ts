@@ -0,0 +1,529 @@
+import crypto from 'crypto';
+import { sequelize, Payment, User, SubscriptionPlan, PricingRule } from '../models/index';
+import { BalanceService, BalanceOperationError } from './BalanceService';
+import { PromoCodeService } from './PromoCodeService';
+import { SubscriptionService } from './SubscriptionService';
+import { PackService, PackOffer } from './PackService';
+import { PaymentProvider, PaymentProviderName, PaymentMethod, PAYMENT_METHODS, WebhookEvent } from './payments/PaymentProvider';
+import { YooKassaProvider } from './payments/YooKassaProvider';
+import { TinkoffProvider } from './payments/TinkoffProvider';
+import { QiwiProvider } from './payments/QiwiProvider';
+import { TelegramStarsProvider } from './payments/TelegramStarsProvider';
+import { FakePaymentProvider } from './payments/FakePaymentProvider';
+
+export interface TopUpIntentResult {
+  success: boolean;
+  payment?: Payment;
+  confirmationUrl?: string;
+  error?: string;
+}
+
+export interface PaymentWebhookResult {
+  success: boolean;
+  status?: Payment['status'];
+  balance?: number;
+  alreadyProcessed?: boolean;
+  error?: string;
+}
+
+export interface TopUpRefundResult {
+  success: boolean;
+  balance?: number;
+  providerRefundId?: string;
+  error?: string;
+}
+
+/**
+ * Сервис пополнения баланса через платежных провайдеров
+ * Пополнение создается в статусе pending и зачисляется только после проверенного webhook провайдера
+ */
+export class PaymentService {
+  private static readonly MIN_TOP_UP_AMOUNT = parseFloat(process.env.PAYMENT_MIN_AMOUNT || '10');
+  private static readonly MAX_TOP_UP_AMOUNT = parseFloat(process.env.PAYMENT_MAX_AMOUNT || '50000');
+  private static readonly FAKE_PROVIDER_ENABLED = process.env.PAYMENT_FAKE_PROVIDER === 'true';
+  private static readonly CARD_PROVIDER = (process.env.PAYMENT_PROVIDER_CARD || 'yookassa') as PaymentProviderName;
+  private static readonly RETURN_URL = process.env.PAYMENT_RETURN_URL;
+  private static readonly MAX_STARS_PER_INVOICE = parseInt(process.env.TELEGRAM_STARS_MAX_PER_INVOICE || '10000');
+  private static readonly SUBSCRIPTION_PAYMENT_PREFIX = 'subscription_';
+  private static readonly PACK_PAYMENT_PREFIX = 'pack_';
+
+  private static providers: Map<PaymentProviderName, PaymentProvider> | null = null;
+
+  /**
+   * Получить провайдера по имени (null, если провайдер неизвестен или отключен)
+   */
+  static getProvider(name: string): PaymentProvider | null {
+    return this.getProviders().get(name as PaymentProviderName) || null;
+  }
+
+  /**
+   * Выбрать провайдера для способа оплаты
+   */
+  static resolveProvider(method: PaymentMethod): PaymentProvider | null {
+    if (this.FAKE_PROVIDER_ENABLED) {
+      return this.getProvider('fake');
+    }
+
+    const providerByMethod: Record<PaymentMethod, PaymentProviderName> = {
+      card: this.CARD_PROVIDER,
+      yoomoney: 'yookassa',
+      sberpay: 'yookassa',
+      tinkoff: 'tinkoff',
+      qiwi: 'qiwi',
+      telegram_stars: 'telegram_stars'
+    };
+
+    const provider = this.getProvider(providerByMethod[method]);
+    return provider && provider.supports(method) ? provider : null;
+  }
+
+  /**
+   * Создать платежное намерение на пополнение баланса и счет у провайдера
+   */
+  static async createTopUpIntent(userId: number, amount: number, paymentMethod: PaymentMethod = 'card', description?: string): Promise<TopUpIntentResult> {
+    const amountError = this.validateTopUpAmount(amount);
+    if (amountError) {
+      return { success: false, error: amountError };
+    }
+
+    return await this.createIntent(userId, amount, paymentMethod, {
+      paymentId: `topup_${crypto.randomUUID()}`,
+      description: description || 'Пополнение баланса'
+    });
+  }
+
+  private static validateTopUpAmount(amount: number): string | null {
+    if (typeof amount !== 'number' || isNaN(amount) || amount < this.MIN_TOP_UP_AMOUNT || amount > this.MAX_TOP_UP_AMOUNT) {
+      return `Сумма пополнения должна быть от ${this.MIN_TOP_UP_AMOUNT} до ${this.MAX_TOP_UP_AMOUNT} RUB`;
+    }
+    return null;
+  }
+
+  /**
+   * Создать платеж за подписку
+   * Оплата зачисляется на баланс и сразу списывается за подписку (см. handleWebhookEvent)
+   */
+  static async createSubscriptionIntent(userId: number, plan: SubscriptionPlan, paymentMethod: PaymentMethod = 'card'): Promise<TopUpIntentResult> {
+    const planChangeError = await SubscriptionService.checkPlanChange(userId, plan);
+    if (planChangeError) {
+      return { success: false, error: planChangeError };
+    }
+
+    return await this.createIntent(userId, Number(plan.price), paymentMethod, {
+      paymentId: `${this.SUBSCRIPTION_PAYMENT_PREFIX}${crypto.randomUUID()}`,
+      description: `Подписка «${plan.name}» на ${plan.period_days} дн.`,
+      referenceId: `subscription_plan_${plan.id}`
+    });
+  }
+
+  /**
+   * Создать платеж за пакет запросов по цене предложения
+   * Как и подписка, оплата зачисляется на баланс и сразу списывается за пакет
+   */
+  static async createPackIntent(userId: number, offer: PackOffer, paymentMethod: PaymentMethod = 'card'): Promise<TopUpIntentResult> {
+    return await this.createIntent(userId, offer.price, paymentMethod, {
+      paymentId: `${this.PACK_PAYMENT_PREFIX}${crypto.randomUUID()}`,
+      description: `Пакет «${offer.name}»: ${offer.size} запросов`,
+      referenceId: `pack_rule_${offer.ruleId}`
+    });
+  }
+
+  /**
+   * Создать платеж в статусе pending и счет у провайдера
+   * Telegram Stars принимаются только для пополнения на целое число Stars (createStarsTopUp):
+   * произвольная сумма в RUB не переводится в Stars без округления и не совпала бы с суммой оплаты
+   */
+  private static async createIntent(
+    userId: number,
+    amount: number,
+    paymentMethod: PaymentMethod,
+    options: { paymentId: string; description: string; referenceId?: string; stars?: number }
+  ): Promise<TopUpIntentResult> {
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      return { success: false, error: 'Неверный способ оплаты' };
+    }
+
+    if (paymentMethod === 'telegram_stars' && options.stars === undefined) {
+      return { success: false, error: 'Оплата в Telegram Stars доступна только для пополнения баланса на количество Stars' };
+    }
+
+    const provider = this.resolveProvider(paymentMethod);
+    if (!provider) {
+      return { success: false, error: 'Способ оплаты временно недоступен' };
+    }
+
+    const payment = await Payment.create({
+      user_id: userId,
+      amount: Math.round(amount * 100) / 100,
+      payment_method: paymentMethod,
+      transaction_type: 'credit',
+      payment_id: options.paymentId,
+      status: 'pending',
+      description: options.description,
+      reference_id: options.referenceId,
+      provider: provider.name
+    });
+
+    const invoice = await provider.createInvoice({
+      paymentId: payment.payment_id!,
+      amount: Number(payment.amount),
+      description: payment.description!,
+      paymentMethod,
+      userId,
+      returnUrl: this.RETURN_URL
+    });
+
+    if (!invoice.success) {
+      await payment.update({ status: 'failed' });
+      return { success: false, error: invoice.error || 'Не удалось создать счет на оплату' };
+    }
+
+    await payment.update({ provider_payment_id: invoice.providerPaymentId });
+
+    console.log(`🧾 [PAYMENT] Создано намерение ${payment.payment_id} на ${payment.amount} RUB (${paymentMethod}, ${provider.name}) для пользователя ${userId}`);
+    return { success: true, payment, confirmationUrl: invoice.confirmationUrl };
+  }
+
+  /**
+   * Создать пополнение, оплачиваемое в Telegram Stars
+   * Сумма в RUB считается по курсу TELEGRAM_STARS_RUB_RATE
+   */
+  static async createStarsTopUp(userId: number, stars: number): Promise<TopUpIntentResult & { stars?: number }> {
+    const provider = this.getProvider('telegram_stars');
+    if (!(provider instanceof TelegramStarsProvider)) {
+      return { success: false, error: 'Способ оплаты временно недоступен' };
+    }
+
+    if (!Number.isInteger(stars) || stars < 1 || stars > this.MAX_STARS_PER_INVOICE) {
+      return { success: false, error: `Количество Stars должно быть целым числом от 1 до ${this.MAX_STARS_PER_INVOICE}` };
+    }
+
+    // Сумма платежа выводится из количества Stars, поэтому при подтверждении совпадает с оплаченной
+    const amount = provider.starsToRub(stars);
+    const amountError = this.validateTopUpAmount(amount);
+    if (amountError) {
+      return { success: false, error: amountError };
+    }
+
+    const result = await this.createIntent(userId, amount, 'telegram_stars', {
+      paymentId: `topup_${crypto.randomUUID()}`,
+      description: `Пополнение через Telegram Stars (${stars} ⭐)`,
+      stars
+    });
+    return { ...result, stars };
+  }
+
+  /**
+   * Получить пополнение пользователя по идентификатору платежа
+   */
+  static async getTopUp(paymentId: string, userId: number): Promise<Payment | null> {
+    return await Payment.findOne({
+      where: {
+        payment_id: paymentId,
+        user_id: userId,
+        transaction_type: 'credit'
+      }
+    });
+  }
+
+  /**
+   * Обработать проверенное событие webhook провайдера
+   * Перевод pending -> completed и зачисление выполняются ровно один раз
+   */
+  static async handleWebhookEvent(providerName: PaymentProviderName, event: WebhookEvent): Promise<PaymentWebhookResult> {
+    const where: any = { provider: providerName, transaction_type: 'credit' };
+    if (event.paymentId) {
+      where.payment_id = event.paymentId;
+    } else if (event.providerPaymentId) {
+      where.provider_payment_id = event.providerPaymentId;
+    } else {
+      return { success: false, error: 'Платеж не найден' };
+    }
+
+    const payment = await Payment.findOne({ where });
+
+    if (event.checkoutQueryId) {
+      return await this.answerCheckout(providerName, event, payment);
+    }
+
+    if (!payment) {
+      return { success: false, error: 'Платеж не найден' };
+    }
+
+    if (event.status === 'pending') {
+      return { success: true, status: payment.status, alreadyProcessed: payment.status !== 'pending' };
+    }
+
+    if (event.amount !== undefined && Math.abs(event.amount - Number(payment.amount)) > 0.001) {
+      console.error(`❌ [PAYMENT] Сумма в webhook (${event.amount}) не совпадает с платежом ${payment.payment_id} (${payment.amount})`);
+      return { success: false, error: 'Сумма платежа не совпадает' };
+    }
+
+    if (event.providerPaymentId && !payment.provider_payment_id) {
+      await payment.update({ provider_payment_id: event.providerPaymentId });
+    }
+
+    if (event.status === 'succeeded') {
+      const result = await BalanceService.completePendingPayment(payment.payment_id!);
+      if (result.success && !result.alreadyProcessed) {
+        if (payment.payment_id!.startsWith(this.SUBSCRIPTION_PAYMENT_PREFIX)) {
+          const balance = await this.activateSubscription(payment);
+          if (balance !== null) {
+            result.balance = balance;
+          }
+        } else if (payment.payment_id!.startsWith(this.PACK_PAYMENT_PREFIX)) {
+          const balance = await this.activatePack(payment);
+          if (balance !== null) {
+            result.balance = balance;
+          }
+        } else {
+          // Процентный промокод, активированный до пополнения
+          const bonus = await PromoCodeService.applyTopUpBonus(payment.user_id, Number(payment.amount), payment.id);
+          if (bonus > 0) {
+            result.balance = Math.round(((result.balance || 0) + bonus) * 100) / 100;
+          }
+        }
+      }
+      return {
+        success: result.success,
+        status: result.success ? 'completed' : payment.status,
+        balance: result.balance,
+        alreadyProcessed: result.alreadyProcessed,
+        error: result.error
+      };
+    }
+
+    const finalStatus = event.status === 'cancelled' ? 'cancelled' : 'failed';
+    const [updatedRows] = await Payment.update(
+      { status: finalStatus },
+      { where: { id: payment.id, status: 'pending' } }
+    );
+
+    console.log(`⚠️ [PAYMENT] Платеж ${payment.payment_id} отклонен провайдером ${providerName}: ${event.status}`);
+    return {
+      success: true,
+      status: updatedRows > 0 ? finalStatus : payment.status,
+      alreadyProcessed: updatedRows === 0
+    };
+  }
+
+  /**
+   * Оплатить подписку зачисленным платежом: списание и продление выполняются в одной транзакции
+   * Если активировать не удалось, деньги остаются на балансе пользователя. Возвращает новый баланс
+   */
+  private static async activateSubscription(payment: Payment): Promise<number | null> {
+    const planId = Number(payment.reference_id?.replace('subscription_plan_', ''));
+
+    try {
+      return await sequelize.transaction(async (t) => {
+        const plan = await SubscriptionPlan.findByPk(planId, { transaction: t });
+        if (!plan) {
+          throw new Error(`Тариф ${planId} не найден`);
+        }
+
+        const { balance, paymentId } = await BalanceService.chargeInTransaction({
+          userId: payment.user_id,
+          amount: Number(payment.amount),
+          entryType: 'subscription_charge',
+          description: payment.description || `Подписка «${plan.name}»`,
+          referenceId: `subscription_payment_${payment.id}`
+        }, t);
+
+        await SubscriptionService.extend(payment.user_id, plan, paymentId, t);
+        return balance;
+      });
+    } catch (error) {
+      console.error(`❌ [PAYMENT] Не удалось активировать подписку по платежу ${payment.payment_id}, сумма осталась на балансе:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Выдать пакет по зачисленному платежу: списание и выдача выполняются в одной транзакции
+   * Размер пакета берется из правила, даже если предложение уже закончилось. Возвращает новый баланс
+   */
+  private static async activatePack(payment: Payment): Promise<number | null> {
+    const ruleId = Number(payment.reference_id?.replace('pack_rule_', ''));
+
+    try {
+      return await sequelize.transaction(async (t) => {
+        const rule = await PricingRule.findByPk(ruleId, { transaction: t });
+        if (!rule || rule.rule_type !== 'pack') {
+          throw new Error(`Пакет ${ruleId} не найден`);
+        }
+
+        const { balance, paymentId } = await BalanceService.chargeInTransaction({
+          userId: payment.user_id,
+          amount: Number(payment.amount),
+          entryType: 'pack_charge',
+          description: payment.description || `Пакет «${rule.name}»`,
+          referenceId: `pack_payment_${payment.id}`
+        }, t);
+
+        await PackService.grant(payment.user_id, rule, Number(payment.amount), paymentId, t);
+        return balance;
+      });
+    } catch (error) {
+      console.error(`❌ [PAYMENT] Не удалось выдать пакет по платежу ${payment.payment_id}, сумма осталась на балансе:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Подтвердить или отклонить оплату до списания денег у пользователя (pre_checkout_query)
+   */
+  private static async answerCheckout(providerName: PaymentProviderName, event: WebhookEvent, payment: Payment | null): Promise<PaymentWebhookResult> {
+    const provider = this.getProvider(providerName);
+
+    let error: string | undefined;
+    if (!payment) {
+      error = 'Платеж не найден';
+    } else if (payment.status !== 'pending') {
+      error = 'Платеж уже обработан';
+    } else if (event.amount !== undefined && Math.abs(event.amount - Number(payment.amount)) > 0.001) {
+      error = 'Сумма платежа не совпадает';
+    }
+
+    await provider?.answerCheckout?.(event.checkoutQueryId!, !error, error);
+
+    console.log(`🧾 [PAYMENT] Проверка перед оплатой ${event.paymentId} (${providerName}): ${error || 'OK'}`);
+    return { success: true, status: payment?.status };
+  }
+
+  /**
+   * Вернуть пополнение через провайдера и списать сумму с баланса пользователя
+   * Возвращенная сумма и номер возврата хранятся в платеже и меняются под его блокировкой,
+   * поэтому повторные и параллельные возвраты не превышают сумму пополнения
+   */
+  static async refundTopUp(paymentId: string, amount?: number): Promise<TopUpRefundResult> {
+    if (amount !== undefined && !(Number.isFinite(amount) && amount > 0)) {
+      return { success: false, error: 'Неверная сумма возврата' };
+    }
+
+    // Сначала списываем с баланса, чтобы не вернуть деньги, которые уже потрачены
+    let reservation: { payment: Payment; provider: PaymentProvider; refundAmount: number; refundId: string; balance: number };
+    try {
+      const result = await sequelize.transaction(async (t) => {
+        const payment = await Payment.findOne({
+          where: { payment_id: paymentId, transaction_type: 'credit' },
+          transaction: t,
+          lock: t.LOCK.UPDATE
+        });
+        if (!payment || (payment.status !== 'completed' && payment.status !== 'refunded')) {
+          return { error: 'Завершенное пополнение не найдено' };
+        }
+
+        const provider = payment.provider ? this.getProvider(payment.provider) : null;
+        if (!provider || !payment.provider_payment_id) {
+          return { error: 'Платеж не привязан к провайдеру' };
+        }
+
+        const remaining = Math.round((Number(payment.amount) - Number(payment.refunded_amount || 0)) * 100) / 100;
+        if (remaining <= 0) {
+          return { error: 'Платеж уже полностью возвращен' };
+        }
+
+        const refundAmount = amount !== undefined ? Math.round(amount * 100) / 100 : remaining;
+        if (refundAmount <= 0 || refundAmount > remaining) {
+          return { error: `Сумма возврата должна быть не больше ${remaining} RUB` };
+        }
+
+        const refundNumber = (payment.refund_count || 0) + 1;
+        const refundId = `refund_${payment.payment_id}_${refundNumber}`;
+
+        const { balance } = await BalanceService.chargeInTransaction({
+          userId: payment.user_id,
+          amount: refundAmount,
+          entryType: 'top_up_refund',
+          description: `Возврат пополнения ${payment.payment_id}`,
+          referenceId: refundId
+        }, t);
+
+        const refundedAmount = Math.round((Number(payment.refunded_amount || 0) + refundAmount) * 100) / 100;
+        await payment.update({
+          refunded_amount: refundedAmount,
+          refund_count: refundNumber,
+          status: refundedAmount >= Number(payment.amount) ? 'refunded' : 'completed'
+        }, { transaction: t });
+
+        return { payment, provider, refundAmount, refundId, balance };
+      });
+
+      if ('error' in result) {
+        return { success: false, error: result.error };
+      }
+      reservation = result;
+    } catch (error) {
+      if (error instanceof BalanceOperationError) {
+        return { success: false, error: error.message };
+      }
+      console.error(`❌ [PAYMENT] Ошибка при возврате платежа ${paymentId}:`, error);
+      return { success: false, error: 'Внутренняя ошибка сервера' };
+    }
+
+    const { payment, provider, refundAmount, refundId } = reservation;
+    const user = await User.findByPk(payment.user_id);
+    const refund = await provider.refund({
+      paymentId: payment.payment_id!,
+      refundId,
+      providerPaymentId: payment.provider_payment_id!,
+      amount: refundAmount,
+      totalAmount: Number(payment.amount),
+      telegramId: user ? Number(user.telegram_id) : undefined
+    });
+
+    if (!refund.success) {
+      await this.cancelRefund(payment.id, refundAmount, refundId);
+      return { success: false, error: refund.error };
+    }
+
+    console.log(`↩️ [PAYMENT] Возврат ${refundAmount} RUB по платежу ${payment.payment_id} (${provider.name}, ${refundId}): ${refund.providerRefundId}`);
+    return { success: true, balance: reservation.balance, providerRefundId: refund.providerRefundId };
+  }
+
+  /**
+   * Отменить возврат, от которого отказался провайдер: вернуть сумму на баланс и уменьшить возвращенную сумму платежа
+   * Номер возврата не уменьшается: следующая попытка уходит провайдеру с новым ключом идемпотентности
+   */
+  private static async cancelRefund(paymentId: number, refundAmount: number, refundId: string): Promise<void> {
+    try {
+      await sequelize.transaction(async (t) => {
+        const payment = await Payment.findByPk(paymentId, { transaction: t, lock: t.LOCK.UPDATE });
+        if (!payment) {
+          return;
+        }
+
+        await BalanceService.creditInTransaction({
+          userId: payment.user_id,
+          amount: refundAmount,
+          entryType: 'top_up_refund',
+          description: `Отмена возврата пополнения ${payment.payment_id}`,
+          referenceId: refundId
+        }, t);
+
+        await payment.update({
+          refunded_amount: Math.max(0, Math.round((Number(payment.refunded_amount || 0) - refundAmount) * 100) / 100),
+          status: 'completed'
+        }, { transaction: t });
+      });
+    } catch (error) {
+      console.error(`❌ [PAYMENT] Не удалось отменить возврат ${refundId}:`, error);
+    }
+  }
+
+  /**
+   * Реестр провайдеров (создается при первом обращении)
+   */
+  private static getProviders(): Map<PaymentProviderName, PaymentProvider> {
+    if (!this.providers) {
+      const providers: PaymentProvider[] = [new YooKassaProvider(), new TinkoffProvider(), new QiwiProvider(), new TelegramStarsProvider()];
+      if (this.FAKE_PROVIDER_ENABLED) {
+        providers.push(new FakePaymentProvider());
+      }
+      // Провайдер без ключей не регистрируется: оплата через него недоступна, webhook отклоняется
+      const configured = providers.filter(provider => provider.isConfigured());
+      this.providers = new Map(configured.map(provider => [provider.name, provider]));
+    }
+    return this.providers;
+  }
+}
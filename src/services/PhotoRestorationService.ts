@@ -2,9 +2,13 @@ import axios from 'axios';
 import sharp from 'sharp';
 import fs from 'fs';
 import path from 'path';
-import { GoogleGenAI } from '@google/genai';
 import { Photo, ApiRequest, User } from '../models/index';
 import { BalanceService } from './BalanceService';
+import { IdempotencyService } from './IdempotencyService';
+import { JobEventsService } from './JobEventsService';
+import { GenerationProviderService } from './GenerationProviderService';
+import { ResilienceService } from './ResilienceService';
+import { ImageGenerationProviderName } from './generation/ImageGenerationProvider';
 import { PriceService } from './PriceService';
 import { FileManagerService } from './FileManagerService';
 import { PromptService } from './PromptService';
@@ -20,6 +24,8 @@ export interface RestorePhotoRequest {
     color_correction?: boolean;
   };
   adminRetry?: boolean; // Флаг для отключения списания баланса при админском перезапуске
+  idempotencyKeyId?: number; // Ключ идемпотентности запроса (заголовок Idempotency-Key)
+  apiRequestId?: number; // Запрос из очереди: ApiRequest и резерв созданы при постановке в очередь
 }
 
 export interface RestorePhotoResult {
@@ -31,65 +37,90 @@ export interface RestorePhotoResult {
 }
 
 export class PhotoRestorationService {
-  private static readonly GEMINI_API_KEY = process.env.GEMINI_API_KEY || 'test_key';
   
-  // Настройки для retry механизма
-  private static readonly MAX_RETRY_DURATION = parseInt(process.env.GEMINI_MAX_RETRY_DURATION || '300000'); // 5 минут по умолчанию
-  private static readonly INITIAL_RETRY_DELAY = parseInt(process.env.GEMINI_INITIAL_RETRY_DELAY || '1000'); // 1 секунда по умолчанию
-  private static readonly MAX_RETRY_DELAY = parseInt(process.env.GEMINI_MAX_RETRY_DELAY || '30000'); // 30 секунд по умолчанию
-  private static readonly BACKOFF_MULTIPLIER = parseFloat(process.env.GEMINI_BACKOFF_MULTIPLIER || '2'); // Множитель для экспоненциального роста
-
   /**
-   * Получить текущую стоимость реставрации
+   * Получить текущую стоимость реставрации с учетом скидок
    */
-  static async getRestorationCost(): Promise<number> {
-    return await PriceService.getServicePrice('photo_restore');
+  static async getRestorationCost(userId?: number): Promise<number> {
+    return (await PriceService.resolvePrice('photo_restore', userId)).price;
   }
 
   /**
    * Запустить процесс реставрации фото
    */
   static async restorePhoto(request: RestorePhotoRequest): Promise<RestorePhotoResult> {
+    let holdId: number | undefined;
+
     try {
       // Получаем актуальную стоимость реставрации из БД
-      const restorationCost = await this.getRestorationCost();
-
-      // Проверяем баланс пользователя
-      const canPay = await BalanceService.canDebitById(request.userId, restorationCost);
-      if (!canPay) {
-        return { 
-          success: false, 
-          error: 'Недостаточно средств на балансе',
-          cost: restorationCost
-        };
+      const restorationCost = await this.getRestorationCost(request.userId);
+
+      // Резервируем стоимость: параллельные задачи не смогут потратить те же средства
+      // При админском перезапуске списания нет, поэтому и резерв не нужен
+      // Задача из очереди: запрос и резерв уже созданы при постановке в очередь
+      const queuedRequest = request.apiRequestId ? await ApiRequest.findByPk(request.apiRequestId) : null;
+      if (queuedRequest) {
+        holdId = queuedRequest.hold_id || undefined;
+      } else if (!request.adminRetry) {
+        const hold = await BalanceService.reserve(request.userId, restorationCost, 'Реставрация фотографии', 'photo_restore');
+        if (!hold.success) {
+          return { 
+            success: false, 
+            error: hold.error || 'Недостаточно средств на балансе',
+            cost: restorationCost
+          };
+        }
+        holdId = hold.holdId;
       }
 
       // Создаем запись фото в базе
-      const photo = await Photo.create({
-        user_id: request.userId,
-        original_url: request.imageUrl,
-        status: 'processing',
-        request_params: JSON.stringify(request.options || {})
-      });
+      // Повтор задачи из очереди продолжает с фото предыдущей попытки, а не создает новое
+      const previousPhoto = queuedRequest?.photo_id ? await Photo.findByPk(queuedRequest.photo_id) : null;
+      const photo = previousPhoto
+        ? await previousPhoto.update({ status: 'processing' })
+        : await Photo.create({
+          user_id: request.userId,
+          original_url: request.imageUrl,
+          status: 'processing',
+          request_params: JSON.stringify(request.options || {})
+        });
 
       // Записываем API запрос с привязкой к фото
-      const apiRequest = await ApiRequest.create({
-        user_id: request.userId,
-        photo_id: photo.id, // Добавляем связь с фотографией
-        api_name: 'photo_restoration',
-        request_type: 'photo_restore',
-        request_data: JSON.stringify(request),
-        status: 'processing',
-        cost: restorationCost
-      });
+      const apiRequest = queuedRequest
+        ? await queuedRequest.update({ status: 'processing', photo_id: photo.id })
+        : await ApiRequest.create({
+          user_id: request.userId,
+          photo_id: photo.id, // Добавляем связь с фотографией
+          api_name: 'photo_restoration',
+          request_type: 'photo_restore',
+          request_data: JSON.stringify(request),
+          status: 'processing',
+          cost: restorationCost,
+          hold_id: holdId
+        });
+      await IdempotencyService.attachApiRequest(request.idempotencyKeyId, apiRequest.id);
+      JobEventsService.processing(apiRequest.id);
 
       try {
-        // Отправляем запрос к Gemini API с retry механизмом
-        const response = await this.executeWithRetry(
-          () => this.callGeminiAPI(request.imageUrl, request.options, request.userId, request.telegramId, request.moduleName),
-          'photo_restoration_api_call'
+        // Отправляем запрос к модели с retry механизмом, после исчерпания попыток — к резервному провайдеру
+        const response = await GenerationProviderService.withFailover('photo_restore', providerName =>
+          ResilienceService.execute(
+            () => this.callGeminiAPI(request.imageUrl, request.options, request.userId, request.telegramId, request.moduleName, providerName),
+            { operation: 'photo_restoration_api_call', provider: providerName, requestId: apiRequest.id }
+          )
         );
         
+        // Списываем зарезервированную сумму до сохранения результата: без оплаты запрос завершается ошибкой
+        // При админском перезапуске резерва нет и списание пропускается
+        if (holdId) {
+          const capture = await BalanceService.captureRequestHold(holdId, `photo_${photo.id}`);
+          if (!capture.success) {
+            throw new Error(`Не удалось списать оплату: ${capture.error}`);
+          }
+        } else {
+          console.log('🔧 [RESTORE] Админский перезапуск - пропускаем списание баланса');
+        }
+
         // Обновляем запись фото
         await photo.update({
           restored_url: response.restoredUrl,
@@ -103,20 +134,6 @@ export class PhotoRestorationService {
           status: 'completed'
         });
 
-        // Списываем деньги с баланса
-        // Пропускаем списание при админском перезапуске
-        if (!request.adminRetry) {
-          await BalanceService.debitBalance({
-            userId: request.userId,
-            amount: restorationCost,
-            type: 'debit',
-            description: 'Реставрация фотографии',
-            referenceId: `photo_${photo.id}`
-          });
-        } else {
-          console.log('🔧 [RESTORE] Админский перезапуск - пропускаем списание баланса');
-        }
-
         return {
           success: true,
           photoId: photo.id,
@@ -138,6 +155,10 @@ export class PhotoRestorationService {
           error_message: errorMessage
         });
 
+        if (holdId) {
+          await BalanceService.releaseHold(holdId, errorMessage);
+        }
+
         // Возвращаем более понятное сообщение пользователю
         return { 
           success: false, 
@@ -147,6 +168,9 @@ export class PhotoRestorationService {
 
     } catch (error) {
       console.error('Ошибка в restorePhoto:', error);
+      if (holdId) {
+        await BalanceService.releaseHold(holdId, 'ошибка обработки');
+      }
       return { 
         success: false, 
         error: 'Сервис временно недоступен, попробуйте чуть позже'
@@ -180,198 +204,40 @@ export class PhotoRestorationService {
   }
 
   /**
-   * Вызов Gemini API для реставрации фото
+   * Вызов модели генерации для реставрации фото
    */
-  private static async callGeminiAPI(imageUrl: string, options?: any, userId?: number, telegramId?: number, moduleName?: string): Promise<{ success: boolean; restoredUrl?: string; error?: string }> {
+  private static async callGeminiAPI(imageUrl: string, options?: any, userId?: number, telegramId?: number, moduleName?: string, providerName?: ImageGenerationProviderName): Promise<{ success: boolean; restoredUrl?: string; error?: string }> {
     // Получаем изображение и конвертируем в base64
     const imageBase64 = await this.getImageAsBase64(imageUrl);
     if (!imageBase64) {
       throw new Error('Не удалось получить изображение для обработки');
     }
 
-    // Инициализируем Google GenAI
-    const genai = new GoogleGenAI({ 
-      apiKey: this.GEMINI_API_KEY
-    });
-
     // Формируем промпт для реставрации
     const restorationPromptText = await PromptService.getPrompt('photo_restoration_base');
-    
-    const prompt = [
-      { text: restorationPromptText },
-      {
-        inlineData: {
-          mimeType: 'image/jpeg',
-          data: imageBase64,
-        },
-      },
-    ];
 
-    console.log('📸 [GEMINI] Отправляем запрос к API...');
-    
-    // Создаем промис с таймаутом
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Timeout: запрос превысил 3 минуты')), 180000);
-    });
+    const result = await GenerationProviderService.generate('photo_restore', {
+      prompt: restorationPromptText,
+      images: [{ data: Buffer.from(imageBase64, 'base64'), mimeType: 'image/jpeg' }]
+    }, providerName);
 
-    const apiPromise = genai.models.generateContent({
-      model: "gemini-2.5-flash-image-preview",
-      contents: prompt,
-    });
-
-    const response = await Promise.race([apiPromise, timeoutPromise]) as any;
-
-    console.log('📸 [GEMINI] Получен ответ от API');
-    console.log('📸 [GEMINI] Количество кандидатов:', response.candidates?.length || 0);
-
-    if (response.candidates && response.candidates.length > 0) {
-      const candidate = response.candidates[0];
-      if (!candidate.content || !candidate.content.parts) {
-        console.log('❌ [GEMINI] Неверная структура ответа - отсутствует content.parts');
-        throw new Error('Неверная структура ответа API');
-      }
-
-      console.log('📸 [GEMINI] Количество частей контента:', candidate.content.parts.length);
-
-      for (const part of candidate.content.parts) {
-        if (part.text) {
-          console.log('📸 [GEMINI] Найден текст:', part.text.substring(0, 100) + '...');
-        } else if (part.inlineData && part.inlineData.data) {
-          console.log('✅ [GEMINI] Найдено изображение, MIME:', part.inlineData.mimeType);
-          
-          // Сохраняем восстановленное изображение с поддержкой модуля
-          const restoredImagePath = await this.saveBase64Image(
-            part.inlineData.data, 
-            part.inlineData.mimeType || 'image/jpeg', 
-            telegramId,
-            moduleName
-          );
-          
-          return {
-            success: true,
-            restoredUrl: restoredImagePath
-          };
-        }
-      }
-
-      // Если дошли до сюда - изображения не было найдено
-      console.log('❌ [GEMINI] В ответе не найдено восстановленное изображение');
-      throw new Error('API не вернул восстановленное изображение');
-    } else {
-      console.log('❌ [GEMINI] API не вернул кандидатов');
-      throw new Error('API не вернул результат');
-    }
-  }
-
-  /**
-   * Выполнить операцию с retry механизмом
-   */
-  private static async executeWithRetry<T>(
-    operation: () => Promise<T>,
-    operationName: string
-  ): Promise<T> {
-    const startTime = Date.now();
-    let attempt = 0;
-    let lastError: Error | null = null;
-    let totalDelayTime = 0;
-
-    console.log(`🚀 [RETRY] Начинаем ${operationName} с retry механизмом (макс. время: ${this.MAX_RETRY_DURATION}мс)`);
-
-    while (Date.now() - startTime < this.MAX_RETRY_DURATION) {
-      attempt++;
-      const attemptStartTime = Date.now();
-      
-      try {
-        console.log(`🔄 [RETRY] ${operationName} - попытка ${attempt} (время с начала: ${Date.now() - startTime}мс)`);
-        const result = await operation();
-        
-        const attemptDuration = Date.now() - attemptStartTime;
-        if (attempt > 1) {
-          console.log(`✅ [RETRY] ${operationName} - успешно выполнено с попытки ${attempt} за ${attemptDuration}мс (общее время: ${Date.now() - startTime}мс, время задержек: ${totalDelayTime}мс)`);
-        } else {
-          console.log(`✅ [RETRY] ${operationName} - выполнено с первой попытки за ${attemptDuration}мс`);
-        }
-        
-        return result;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        const attemptDuration = Date.now() - attemptStartTime;
-        console.log(`❌ [RETRY] ${operationName} - попытка ${attempt} неудачна за ${attemptDuration}мс:`, lastError.message);
-
-        // Проверяем, стоит ли повторять попытку
-        if (!this.isRetryableError(lastError)) {
-          console.log(`🚫 [RETRY] ${operationName} - ошибка не подлежит повторению, прекращаем попытки`);
-          throw lastError;
-        }
-
-        // Вычисляем задержку для следующей попытки
-        const delay = Math.min(
-          this.INITIAL_RETRY_DELAY * Math.pow(this.BACKOFF_MULTIPLIER, attempt - 1),
-          this.MAX_RETRY_DELAY
-        );
-
-        // Проверяем, остается ли время для следующей попытки
-        const remainingTime = this.MAX_RETRY_DURATION - (Date.now() - startTime);
-        if (delay >= remainingTime) {
-          console.log(`⏰ [RETRY] ${operationName} - время ожидания истекло (осталось ${remainingTime}мс, нужно ${delay}мс)`);
-          break;
-        }
-
-        console.log(`⏳ [RETRY] ${operationName} - ожидание ${delay}мс перед попыткой ${attempt + 1} (осталось времени: ${remainingTime}мс)`);
-        await this.sleep(delay);
-        totalDelayTime += delay;
-      }
+    if (result.text) {
+      console.log('📸 [GEMINI] Найден текст:', result.text.substring(0, 100) + '...');
     }
 
-    const totalDuration = Date.now() - startTime;
-    console.log(`💥 [RETRY] ${operationName} - все попытки исчерпаны. Попыток: ${attempt}, общее время: ${totalDuration}мс, время задержек: ${totalDelayTime}мс`);
-    throw lastError || new Error(`Все попытки выполнения ${operationName} исчерпаны за ${totalDuration}мс`);
-  }
-
-  /**
-   * Определить, подлежит ли ошибка повторению
-   */
-  private static isRetryableError(error: Error): boolean {
-    const retryableMessages = [
-      'timeout',
-      'network',
-      'connection',
-      'unavailable',
-      'service unavailable',
-      'internal server error',
-      'bad gateway',
-      'gateway timeout',
-      'temporarily unavailable',
-      'rate limit',
-      'quota exceeded',
-      'fetch failed',
-      'socket hang up',
-      'econnreset',
-      'enotfound',
-      'etimedout',
-      'econnrefused',
-      'server error',
-      '503',
-      '502',
-      '504',
-      '429', // Too Many Requests
-      '500', // Internal Server Error
-      'internal'  // Для ошибок типа "Internal error encountered"
-    ];
-
-    const errorMessage = error.message.toLowerCase();
-    const isRetryable = retryableMessages.some(msg => errorMessage.includes(msg));
-    
-    console.log(`🔍 [RETRY] Анализ ошибки: "${error.message}" - подлежит повторению: ${isRetryable}`);
-    
-    return isRetryable;
-  }
+    // Сохраняем восстановленное изображение с поддержкой модуля
+    const [image] = result.images;
+    const restoredImagePath = await this.saveBase64Image(
+      image.data.toString('base64'),
+      image.mimeType,
+      telegramId,
+      moduleName
+    );
 
-  /**
-   * Пауза на указанное количество миллисекунд
-   */
-  private static sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return {
+      success: true,
+      restoredUrl: restoredImagePath
+    };
   }
 
   /**
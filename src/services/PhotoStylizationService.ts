@@ -2,9 +2,13 @@ import axios from 'axios';
 import sharp from 'sharp';
 import fs from 'fs';
 import path from 'path';
-import { GoogleGenAI } from '@google/genai';
 import { Photo, ApiRequest, User } from '../models/index';
 import { BalanceService } from './BalanceService';
+import { IdempotencyService } from './IdempotencyService';
+import { JobEventsService } from './JobEventsService';
+import { GenerationProviderService } from './GenerationProviderService';
+import { ResilienceService } from './ResilienceService';
+import { ImageGenerationProviderName } from './generation/ImageGenerationProvider';
 import { PriceService } from './PriceService';
 import { FileManagerService } from './FileManagerService';
 import { PromptService } from './PromptService';
@@ -18,6 +22,8 @@ export interface StylizePhotoRequest {
   prompt: string;
   originalFilename: string;
   adminRetry?: boolean; // Флаг для отключения списания баланса при админском перезапуске
+  idempotencyKeyId?: number; // Ключ идемпотентности запроса (заголовок Idempotency-Key)
+  apiRequestId?: number; // Запрос из очереди: ApiRequest и резерв созданы при постановке в очередь
 }
 
 export interface StylizePhotoResult {
@@ -30,33 +36,26 @@ export interface StylizePhotoResult {
 }
 
 export class PhotoStylizationService {
-  private static readonly GEMINI_API_KEY = process.env.GEMINI_API_KEY || 'test_key';
   
-  // Настройки для retry механизма
-  private static readonly MAX_RETRY_DURATION = parseInt(process.env.GEMINI_MAX_RETRY_DURATION || '300000'); // 5 минут по умолчанию
-  private static readonly INITIAL_RETRY_DELAY = parseInt(process.env.GEMINI_INITIAL_RETRY_DELAY || '1000'); // 1 секунда по умолчанию
-  private static readonly MAX_RETRY_DELAY = parseInt(process.env.GEMINI_MAX_RETRY_DELAY || '30000'); // 30 секунд по умолчанию
-  private static readonly BACKOFF_MULTIPLIER = parseFloat(process.env.GEMINI_BACKOFF_MULTIPLIER || '2'); // Множитель для экспоненциального роста
-
   /**
-   * Получить текущую стоимость стилизации
+   * Получить текущую стоимость стилизации с учетом скидок
    */
-  static async getStylizationCost(): Promise<number> {
-    return await PriceService.getServicePrice('photo_stylize');
+  static async getStylizationCost(userId?: number): Promise<number> {
+    return (await PriceService.resolvePrice('photo_stylize', userId)).price;
   }
 
   /**
-   * Получить стоимость стилизации для конкретного стиля
+   * Получить стоимость стилизации для конкретного стиля с учетом скидок
    */
-  static async getStylizationCostByStyle(styleId: string): Promise<number> {
+  static async getStylizationCostByStyle(styleId: string, userId?: number): Promise<number> {
     // Для эпох используем повышенную стоимость
     const eraStyles = ['russia_early_20', 'russia_19', 'soviet', 'nineties'];
     
     if (eraStyles.includes(styleId)) {
-      return await PriceService.getServicePrice('era_style');
+      return (await PriceService.resolvePrice('era_style', userId)).price;
     }
     
-    return await PriceService.getServicePrice('photo_stylize');
+    return (await PriceService.resolvePrice('photo_stylize', userId)).price;
   }
 
   /**
@@ -138,6 +137,8 @@ export class PhotoStylizationService {
    * Запустить процесс стилизации фото
    */
   static async stylizePhoto(request: StylizePhotoRequest): Promise<StylizePhotoResult> {
+    let holdId: number | undefined;
+
     try {
       console.log('🎨 [STYLIZE] Начинаем процесс стилизации фото');
       console.log('🎨 [STYLIZE] userId:', request.userId);
@@ -157,43 +158,55 @@ export class PhotoStylizationService {
       }
 
       // Получаем актуальную стоимость стилизации из БД (зависит от стиля)
-      const stylizationCost = await this.getStylizationCostByStyle(request.styleId);
+      const stylizationCost = await this.getStylizationCostByStyle(request.styleId, request.userId);
       console.log('💰 [STYLIZE] Стоимость стилизации:', stylizationCost);
 
-      // Проверяем баланс пользователя
-      console.log('💰 [STYLIZE] Проверяем баланс пользователя...');
-      const currentBalance = await BalanceService.getBalance(request.telegramId);
-      console.log('💰 [STYLIZE] Текущий баланс:', currentBalance);
-      
-      if (currentBalance < stylizationCost) {
-        console.log('❌ [STYLIZE] Недостаточно средств');
-        return {
-          success: false,
-          error: `Недостаточно средств на балансе. Требуется: ${stylizationCost} ₽`
-        };
-      }
-
       // Определяем тип запроса в зависимости от стиля
       const isEraStyle = request.styleId.startsWith('era_style_');
       const requestType = isEraStyle ? 'era_style' : 'photo_stylize';
       const apiName = isEraStyle ? 'gemini_era_style' : 'gemini_stylize';
-      
+
+      // Резервируем стоимость на балансе пользователя (кроме админского перезапуска)
+      // Задача из очереди: запрос и резерв уже созданы при постановке в очередь
+      const queuedRequest = request.apiRequestId ? await ApiRequest.findByPk(request.apiRequestId) : null;
+      if (queuedRequest) {
+        holdId = queuedRequest.hold_id || undefined;
+      } else if (!request.adminRetry) {
+        console.log('💰 [STYLIZE] Резервируем средства на балансе...');
+        await BalanceService.syncWithLeadTech(request.telegramId);
+        const hold = await BalanceService.reserve(request.userId, stylizationCost, `Стилизация фото (${request.styleId})`, requestType);
+
+        if (!hold.success) {
+          console.log('❌ [STYLIZE] Недостаточно средств, доступно:', hold.available);
+          return {
+            success: false,
+            error: hold.error || `Недостаточно средств на балансе. Требуется: ${stylizationCost} ₽`
+          };
+        }
+        holdId = hold.holdId;
+      }
+
       // Создаем запрос в базе данных
-      const apiRequest = await ApiRequest.create({
-        user_id: request.userId,
-        api_name: apiName,
-        request_type: requestType,
-        prompt: request.prompt,
-        cost: stylizationCost,
-        status: 'processing',
-        request_data: JSON.stringify({
-          styleId: request.styleId,
-          originalFilename: request.originalFilename,
-          imageUrl: request.imageUrl,
-          operation: requestType,
-          ...(isEraStyle && { eraId: request.styleId })
-        })
-      });
+      const apiRequest = queuedRequest
+        ? await queuedRequest.update({ status: 'processing' })
+        : await ApiRequest.create({
+          user_id: request.userId,
+          api_name: apiName,
+          request_type: requestType,
+          prompt: request.prompt,
+          cost: stylizationCost,
+          hold_id: holdId,
+          status: 'processing',
+          request_data: JSON.stringify({
+            styleId: request.styleId,
+            originalFilename: request.originalFilename,
+            imageUrl: request.imageUrl,
+            operation: requestType,
+            ...(isEraStyle && { eraId: request.styleId })
+          })
+        });
+      await IdempotencyService.attachApiRequest(request.idempotencyKeyId, apiRequest.id);
+      JobEventsService.processing(apiRequest.id);
 
       console.log('📝 [STYLIZE] Создан запрос в БД:', apiRequest.id);
 
@@ -214,9 +227,11 @@ export class PhotoStylizationService {
 
         // Отправляем запрос к Gemini API для стилизации с retry механизмом
         console.log('🤖 [STYLIZE] Отправляем запрос к Gemini API...');
-        const styledImageBuffer = await this.executeWithRetry(
-          () => this.callGeminiStyleAPI(request.localPath || request.imageUrl, request.prompt),
-          'photo_stylization_api_call'
+        const styledImageBuffer = await GenerationProviderService.withFailover('photo_stylize', providerName =>
+          ResilienceService.execute(
+            () => this.callGeminiStyleAPI(request.localPath || request.imageUrl, request.prompt, providerName),
+            { operation: 'photo_stylization_api_call', provider: providerName, requestId: apiRequest.id }
+          )
         );
         
         // Сохраняем стилизованное изображение
@@ -229,6 +244,18 @@ export class PhotoStylizationService {
         
         console.log('🔗 [STYLIZE] URL стилизованного изображения:', styledUrl);
 
+        // Списываем зарезервированные средства до сохранения результата: без оплаты запрос завершается ошибкой
+        // При админском перезапуске резерва нет и списание пропускается
+        if (holdId) {
+          console.log('💸 [STYLIZE] Списываем зарезервированные средства...');
+          const capture = await BalanceService.captureRequestHold(holdId, apiRequest.id.toString());
+          if (!capture.success) {
+            throw new Error(`Не удалось списать оплату: ${capture.error}`);
+          }
+        } else {
+          console.log('🔧 [STYLIZE] Админский перезапуск - пропускаем списание баланса');
+        }
+
         // Обновляем статус запроса на completed
         await apiRequest.update({
           status: 'completed',
@@ -240,21 +267,6 @@ export class PhotoStylizationService {
           })
         });
 
-        // Списываем средства с баланса пользователя только после успешного завершения
-        // Пропускаем списание при админском перезапуске
-        if (!request.adminRetry) {
-          console.log('💸 [STYLIZE] Списываем средства с баланса...');
-          await BalanceService.debitBalance({
-            userId: request.userId,
-            amount: stylizationCost,
-            type: 'debit',
-            description: `Стилизация фото (${request.styleId})`,
-            referenceId: apiRequest.id.toString()
-          });
-        } else {
-          console.log('🔧 [STYLIZE] Админский перезапуск - пропускаем списание баланса');
-        }
-
         console.log('✅ [STYLIZE] Стилизация завершена успешно');
 
         return {
@@ -275,6 +287,10 @@ export class PhotoStylizationService {
           completed_date: new Date()
         });
 
+        if (holdId) {
+          await BalanceService.releaseHold(holdId, 'ошибка стилизации');
+        }
+
         return {
           success: false,
           error: 'Сервис временно недоступен, попробуйте чуть позже'
@@ -283,6 +299,9 @@ export class PhotoStylizationService {
 
     } catch (error) {
       console.error('💥 [STYLIZE] Критическая ошибка стилизации:', error);
+      if (holdId) {
+        await BalanceService.releaseHold(holdId, 'критическая ошибка стилизации');
+      }
       return {
         success: false,
         error: 'Сервис временно недоступен, попробуйте чуть позже'
@@ -291,15 +310,10 @@ export class PhotoStylizationService {
   }
 
   /**
-   * Вызов API Gemini для стилизации изображения
+   * Вызов модели генерации для стилизации изображения
    */
-  private static async callGeminiStyleAPI(imagePath: string, prompt: string): Promise<Buffer> {
+  private static async callGeminiStyleAPI(imagePath: string, prompt: string, providerName?: ImageGenerationProviderName): Promise<Buffer> {
     try {
-      console.log('🤖 [GEMINI] Инициализируем Gemini AI...');
-      const genAI = new GoogleGenAI({ 
-        apiKey: this.GEMINI_API_KEY
-      });
-
       // Читаем изображение
       let imageBuffer: Buffer;
       
@@ -314,59 +328,22 @@ export class PhotoStylizationService {
         imageBuffer = fs.readFileSync(imagePath);
       }
       
-      // Конвертируем в base64
-      const imageBase64 = imageBuffer.toString('base64');
       const mimeType = this.getMimeTypeFromPath(imagePath);
 
       console.log('🖼️ [GEMINI] Отправляем изображение на стилизацию...');
       console.log('📝 [GEMINI] Промпт:', prompt ? prompt.substring(0, 100) + '...' : 'undefined');
 
-      // Формируем промпт для стилизации
-      const apiPrompt = [
-        { text: `${prompt}\n\nReturn only the stylized image without any text or explanations.` },
-        {
-          inlineData: {
-            mimeType: mimeType,
-            data: imageBase64,
-          },
-        },
-      ];
-
-      console.log('📸 [GEMINI] Отправляем запрос к API...');
-      
-      // Создаем промис с таймаутом
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Timeout: запрос превысил 3 минуты')), 180000);
-      });
-
-      const apiPromise = genAI.models.generateContent({
-        model: "gemini-2.5-flash-image-preview",
-        contents: apiPrompt,
-      });
-
-      const response = await Promise.race([apiPromise, timeoutPromise]) as any;
+      const result = await GenerationProviderService.generate('photo_stylize', {
+        prompt: `${prompt}\n\nReturn only the stylized image without any text or explanations.`,
+        images: [{ data: imageBuffer, mimeType }]
+      }, providerName);
 
-      console.log('✅ [GEMINI] Получен ответ от Gemini API');
-      
-      if (response.candidates && response.candidates.length > 0) {
-        const candidate = response.candidates[0];
-        if (candidate.content && candidate.content.parts) {
-          for (const part of candidate.content.parts) {
-            if (part.inlineData && part.inlineData.data) {
-              console.log('✅ [GEMINI] Найдено стилизованное изображение, MIME:', part.inlineData.mimeType);
-              return Buffer.from(part.inlineData.data, 'base64');
-            }
-          }
-        }
-      }
-
-      // Если стилизованное изображение не получено, это ошибка API
-      console.log('❌ [GEMINI] Стилизованное изображение не получено от API');
-      throw new Error('API не вернул стилизованное изображение');
+      return result.images[0].data;
 
     } catch (error) {
       console.error('❌ [GEMINI] Ошибка вызова Gemini API:', error);
-      throw new Error('Ошибка при обращении к сервису стилизации');
+      // Исходная ошибка нужна ResilienceService для решения о повторе
+      throw error;
     }
   }
 
@@ -439,114 +416,4 @@ export class PhotoStylizationService {
     ];
   }
 
-  /**
-   * Выполнить операцию с retry механизмом
-   */
-  private static async executeWithRetry<T>(
-    operation: () => Promise<T>,
-    operationName: string
-  ): Promise<T> {
-    const startTime = Date.now();
-    let attempt = 0;
-    let lastError: Error | null = null;
-    let totalDelayTime = 0;
-
-    console.log(`🚀 [RETRY] Начинаем ${operationName} с retry механизмом (макс. время: ${this.MAX_RETRY_DURATION}мс)`);
-
-    while (Date.now() - startTime < this.MAX_RETRY_DURATION) {
-      attempt++;
-      const attemptStartTime = Date.now();
-      
-      try {
-        console.log(`🔄 [RETRY] ${operationName} - попытка ${attempt} (время с начала: ${Date.now() - startTime}мс)`);
-        const result = await operation();
-        
-        const attemptDuration = Date.now() - attemptStartTime;
-        if (attempt > 1) {
-          console.log(`✅ [RETRY] ${operationName} - успешно выполнено с попытки ${attempt} за ${attemptDuration}мс (общее время: ${Date.now() - startTime}мс, время задержек: ${totalDelayTime}мс)`);
-        } else {
-          console.log(`✅ [RETRY] ${operationName} - выполнено с первой попытки за ${attemptDuration}мс`);
-        }
-        
-        return result;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        const attemptDuration = Date.now() - attemptStartTime;
-        console.log(`❌ [RETRY] ${operationName} - попытка ${attempt} неудачна за ${attemptDuration}мс:`, lastError.message);
-
-        // Проверяем, стоит ли повторять попытку
-        if (!this.isRetryableError(lastError)) {
-          console.log(`🚫 [RETRY] ${operationName} - ошибка не подлежит повторению, прекращаем попытки`);
-          throw lastError;
-        }
-
-        // Вычисляем задержку для следующей попытки
-        const delay = Math.min(
-          this.INITIAL_RETRY_DELAY * Math.pow(this.BACKOFF_MULTIPLIER, attempt - 1),
-          this.MAX_RETRY_DELAY
-        );
-
-        // Проверяем, остается ли время для следующей попытки
-        const remainingTime = this.MAX_RETRY_DURATION - (Date.now() - startTime);
-        if (delay >= remainingTime) {
-          console.log(`⏰ [RETRY] ${operationName} - время ожидания истекло (осталось ${remainingTime}мс, нужно ${delay}мс)`);
-          break;
-        }
-
-        console.log(`⏳ [RETRY] ${operationName} - ожидание ${delay}мс перед попыткой ${attempt + 1} (осталось времени: ${remainingTime}мс)`);
-        await this.sleep(delay);
-        totalDelayTime += delay;
-      }
-    }
-
-    const totalDuration = Date.now() - startTime;
-    console.log(`💥 [RETRY] ${operationName} - все попытки исчерпаны. Попыток: ${attempt}, общее время: ${totalDuration}мс, время задержек: ${totalDelayTime}мс`);
-    throw lastError || new Error(`Все попытки выполнения ${operationName} исчерпаны за ${totalDuration}мс`);
-  }
-
-  /**
-   * Определить, подлежит ли ошибка повторению
-   */
-  private static isRetryableError(error: Error): boolean {
-    const retryableMessages = [
-      'timeout',
-      'network',
-      'connection',
-      'unavailable',
-      'service unavailable',
-      'internal server error',
-      'bad gateway',
-      'gateway timeout',
-      'temporarily unavailable',
-      'rate limit',
-      'quota exceeded',
-      'fetch failed',
-      'socket hang up',
-      'econnreset',
-      'enotfound',
-      'etimedout',
-      'econnrefused',
-      'server error',
-      '503',
-      '502',
-      '504',
-      '429', // Too Many Requests
-      '500', // Internal Server Error
-      'internal'  // Для ошибок типа "Internal error encountered"
-    ];
-
-    const errorMessage = error.message.toLowerCase();
-    const isRetryable = retryableMessages.some(msg => errorMessage.includes(msg));
-    
-    console.log(`🔍 [RETRY] Анализ ошибки: "${error.message}" - подлежит повторению: ${isRetryable}`);
-    
-    return isRetryable;
-  }
-
-  /**
-   * Пауза на указанное количество миллисекунд
-   */
-  private static sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
@@ -1,6 +1,10 @@
-import { GoogleGenAI } from '@google/genai';
 import { Photo, ApiRequest, Poet } from '../models/index';
 import { BalanceService } from './BalanceService';
+import { IdempotencyService } from './IdempotencyService';
+import { JobEventsService } from './JobEventsService';
+import { GenerationProviderService } from './GenerationProviderService';
+import { ResilienceService } from './ResilienceService';
+import { ImageGenerationProviderName } from './generation/ImageGenerationProvider';
 import { PriceService } from './PriceService';
 import { FileManagerService } from './FileManagerService';
 import { PromptService } from './PromptService';
@@ -16,6 +20,8 @@ export interface PoetStyleRequest {
   prompt?: string;
   originalFilename?: string;
   adminRetry?: boolean; // Флаг для отключения списания баланса при админском перезапуске
+  idempotencyKeyId?: number; // Ключ идемпотентности запроса (заголовок Idempotency-Key)
+  apiRequestId?: number; // Запрос из очереди: ApiRequest и резерв созданы при постановке в очередь
 }
 
 export interface PoetStyleResult {
@@ -29,20 +35,13 @@ export interface PoetStyleResult {
 }
 
 export class PoetStyleService {
-  private static readonly GEMINI_API_KEY = process.env.GEMINI_API_KEY || 'test_key';
   private static readonly MODULE_NAME = 'poet_style';
-  
-  // Настройки для retry механизма
-  private static readonly MAX_RETRY_DURATION = parseInt(process.env.GEMINI_MAX_RETRY_DURATION || '300000'); // 5 минут по умолчанию
-  private static readonly INITIAL_RETRY_DELAY = parseInt(process.env.GEMINI_INITIAL_RETRY_DELAY || '1000'); // 1 секунда по умолчанию
-  private static readonly MAX_RETRY_DELAY = parseInt(process.env.GEMINI_MAX_RETRY_DELAY || '30000'); // 30 секунд по умолчанию
-  private static readonly BACKOFF_MULTIPLIER = parseFloat(process.env.GEMINI_BACKOFF_MULTIPLIER || '2'); // Множитель для экспоненциального роста
 
   /**
-   * Получить текущую стоимость стилизации с поэтом
+   * Получить текущую стоимость стилизации с поэтом с учетом скидок
    */
-  static async getPoetStyleCost(): Promise<number> {
-    return await PriceService.getServicePrice('poet_style');
+  static async getPoetStyleCost(userId?: number): Promise<number> {
+    return (await PriceService.resolvePrice('poet_style', userId)).price;
   }
 
   /**
@@ -78,134 +77,15 @@ export class PoetStyleService {
     return await Poet.findByPk(poetId);
   }
 
-  /**
-   * Выполнить операцию с retry механизмом
-   */
-  private static async executeWithRetry<T>(
-    operation: () => Promise<T>,
-    operationName: string
-  ): Promise<T> {
-    const startTime = Date.now();
-    let attempt = 0;
-    let lastError: Error | null = null;
-    let totalDelayTime = 0;
-
-    console.log(`🚀 [RETRY] Начинаем ${operationName} с retry механизмом (макс. время: ${this.MAX_RETRY_DURATION}мс)`);
-
-    while (Date.now() - startTime < this.MAX_RETRY_DURATION) {
-      attempt++;
-      const attemptStartTime = Date.now();
-      
-      try {
-        console.log(`🔄 [RETRY] ${operationName} - попытка ${attempt} (время с начала: ${Date.now() - startTime}мс)`);
-        const result = await operation();
-        
-        const attemptDuration = Date.now() - attemptStartTime;
-        if (attempt > 1) {
-          console.log(`✅ [RETRY] ${operationName} - успешно выполнено с попытки ${attempt} за ${attemptDuration}мс (общее время: ${Date.now() - startTime}мс, время задержек: ${totalDelayTime}мс)`);
-        } else {
-          console.log(`✅ [RETRY] ${operationName} - выполнено с первой попытки за ${attemptDuration}мс`);
-        }
-        
-        return result;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        const attemptDuration = Date.now() - attemptStartTime;
-        console.log(`❌ [RETRY] ${operationName} - попытка ${attempt} неудачна за ${attemptDuration}мс:`, lastError.message);
-
-        // Проверяем, стоит ли повторять попытку
-        if (!this.isRetryableError(lastError)) {
-          console.log(`🚫 [RETRY] ${operationName} - ошибка не подлежит повторению, прекращаем попытки`);
-          throw lastError;
-        }
-
-        // Вычисляем задержку для следующей попытки
-        const delay = Math.min(
-          this.INITIAL_RETRY_DELAY * Math.pow(this.BACKOFF_MULTIPLIER, attempt - 1),
-          this.MAX_RETRY_DELAY
-        );
-
-        // Проверяем, остается ли время для следующей попытки
-        const remainingTime = this.MAX_RETRY_DURATION - (Date.now() - startTime);
-        if (delay >= remainingTime) {
-          console.log(`⏰ [RETRY] ${operationName} - время ожидания истекло (осталось ${remainingTime}мс, нужно ${delay}мс)`);
-          break;
-        }
-
-        console.log(`⏳ [RETRY] ${operationName} - ожидание ${delay}мс перед попыткой ${attempt + 1} (осталось времени: ${remainingTime}мс)`);
-        await this.sleep(delay);
-        totalDelayTime += delay;
-      }
-    }
-
-    const totalDuration = Date.now() - startTime;
-    console.log(`💥 [RETRY] ${operationName} - все попытки исчерпаны. Попыток: ${attempt}, общее время: ${totalDuration}мс, время задержек: ${totalDelayTime}мс`);
-    throw lastError || new Error(`Все попытки выполнения ${operationName} исчерпаны за ${totalDuration}мс`);
-  }
-
-  /**
-   * Определить, подлежит ли ошибка повторению
-   */
-  private static isRetryableError(error: Error): boolean {
-    const retryableMessages = [
-      'timeout',
-      'network',
-      'connection',
-      'unavailable',
-      'service unavailable',
-      'internal server error',
-      'bad gateway',
-      'gateway timeout',
-      'temporarily unavailable',
-      'rate limit',
-      'quota exceeded',
-      'fetch failed',
-      'socket hang up',
-      'econnreset',
-      'enotfound',
-      'etimedout',
-      'econnrefused',
-      'server error',
-      '503',
-      '502',
-      '504',
-      '429', // Too Many Requests
-      '500' // Internal Server Error
-    ];
-
-    const errorMessage = error.message.toLowerCase();
-    const isRetryable = retryableMessages.some(msg => errorMessage.includes(msg));
-    
-    console.log(`🔍 [RETRY] Анализ ошибки: "${error.message}" - подлежит повторению: ${isRetryable}`);
-    
-    return isRetryable;
-  }
-
-  /**
-   * Пауза на указанное количество миллисекунд
-   */
-  private static sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Запустить процесс стилизации с поэтом
    */
   static async stylePhotoWithPoet(request: PoetStyleRequest): Promise<PoetStyleResult> {
+    let holdId: number | undefined;
+
     try {
       // Получаем актуальную стоимость стилизации из БД
-      const styleCost = await this.getPoetStyleCost();
-
-      // Проверяем баланс пользователя
-      const canPay = await BalanceService.canDebitById(request.userId, styleCost);
-      if (!canPay) {
-        return { 
-          success: false, 
-          error: 'Недостаточно средств на балансе',
-          message: 'Недостаточно средств на балансе',
-          cost: styleCost
-        };
-      }
+      const styleCost = await this.getPoetStyleCost(request.userId);
 
       // Получаем информацию о поэте
       const poet = await this.getPoetById(request.poetId);
@@ -217,37 +97,64 @@ export class PoetStyleService {
         };
       }
 
+      // Резервируем стоимость (при админском перезапуске списания нет, поэтому и резерв не нужен)
+      // Задача из очереди: запрос и резерв уже созданы при постановке в очередь
+      const queuedRequest = request.apiRequestId ? await ApiRequest.findByPk(request.apiRequestId) : null;
+      if (queuedRequest) {
+        holdId = queuedRequest.hold_id || undefined;
+      } else if (!request.adminRetry) {
+        const hold = await BalanceService.reserve(request.userId, styleCost, `Стилизация в стиле ${poet.name}`, 'poet_style');
+        if (!hold.success) {
+          return { 
+            success: false, 
+            error: hold.error || 'Недостаточно средств на балансе',
+            message: hold.error || 'Недостаточно средств на балансе',
+            cost: styleCost
+          };
+        }
+        holdId = hold.holdId;
+      }
+
       // Создаем запись фото в базе
-      const photo = await Photo.create({
-        user_id: request.userId,
-        original_url: request.imageUrl,
-        status: 'processing',
-        request_params: JSON.stringify({
-          poetId: request.poetId,
-          poetName: poet.name,
-          prompt: request.prompt
-        })
-      });
+      // Повтор задачи из очереди продолжает с фото предыдущей попытки, а не создает новое
+      const previousPhoto = queuedRequest?.photo_id ? await Photo.findByPk(queuedRequest.photo_id) : null;
+      const photo = previousPhoto
+        ? await previousPhoto.update({ status: 'processing' })
+        : await Photo.create({
+          user_id: request.userId,
+          original_url: request.imageUrl,
+          status: 'processing',
+          request_params: JSON.stringify({
+            poetId: request.poetId,
+            poetName: poet.name,
+            prompt: request.prompt
+          })
+        });
 
       // Записываем API запрос
-      const apiRequest = await ApiRequest.create({
-        user_id: request.userId,
-        photo_id: photo.id,
-        api_name: 'poet_style',
-        request_type: 'poet_style',
-        prompt: request.prompt || `Стилизация в стиле ${poet.name}`,
-        request_data: JSON.stringify({
-          ...request,
-          poet: {
-            id: poet.id,
-            name: poet.name,
-            full_name: poet.full_name,
-            era: poet.era
-          }
-        }),
-        status: 'processing',
-        cost: styleCost
-      });
+      const apiRequest = queuedRequest
+        ? await queuedRequest.update({ status: 'processing', photo_id: photo.id })
+        : await ApiRequest.create({
+          user_id: request.userId,
+          photo_id: photo.id,
+          api_name: 'poet_style',
+          request_type: 'poet_style',
+          prompt: request.prompt || `Стилизация в стиле ${poet.name}`,
+          request_data: JSON.stringify({
+            ...request,
+            poet: {
+              id: poet.id,
+              name: poet.name,
+              full_name: poet.full_name,
+              era: poet.era
+            }
+          }),
+          status: 'processing',
+          cost: styleCost,
+          hold_id: holdId
+        });
+      await IdempotencyService.attachApiRequest(request.idempotencyKeyId, apiRequest.id);
+      JobEventsService.processing(apiRequest.id);
 
       try {
         // Запускаем процесс стилизации
@@ -256,10 +163,22 @@ export class PoetStyleService {
           request.localPath,
           poet,
           request.prompt || `Селфи с ${poet.name}`,
-          request.telegramId
+          request.telegramId,
+          apiRequest.id
         );
         
         if (response.success && response.imageUrl) {
+          // Списываем зарезервированную сумму до сохранения результата: без оплаты запрос завершается ошибкой
+          // При админском перезапуске резерва нет и списание пропускается
+          if (holdId) {
+            const capture = await BalanceService.captureRequestHold(holdId, `photo_${photo.id}`);
+            if (!capture.success) {
+              throw new Error(`Не удалось списать оплату: ${capture.error}`);
+            }
+          } else {
+            console.log('🔧 [POET_STYLE] Админский перезапуск - пропускаем списание баланса');
+          }
+
           // Обновляем запись фото
           await photo.update({
             restored_url: response.imageUrl,
@@ -273,20 +192,6 @@ export class PoetStyleService {
             status: 'completed'
           });
 
-          // Списываем деньги с баланса
-          // Пропускаем списание при админском перезапуске
-          if (!request.adminRetry) {
-            await BalanceService.debitBalance({
-              userId: request.userId,
-              amount: styleCost,
-              type: 'debit',
-              description: `Стилизация в стиле ${poet.name}`,
-              referenceId: `photo_${photo.id}`
-            });
-          } else {
-            console.log('🔧 [POET_STYLE] Админский перезапуск - пропускаем списание баланса');
-          }
-
           return {
             success: true,
             photo_id: photo.id,
@@ -306,6 +211,10 @@ export class PoetStyleService {
             response_data: JSON.stringify(response)
           });
 
+          if (holdId) {
+            await BalanceService.releaseHold(holdId, response.error);
+          }
+
           return { 
             success: false, 
             error: response.error || 'Ошибка при стилизации фото',
@@ -326,6 +235,10 @@ export class PoetStyleService {
           response_data: JSON.stringify({ error: error instanceof Error ? error.message : 'Неизвестная ошибка' })
         });
 
+        if (holdId) {
+          await BalanceService.releaseHold(holdId, 'ошибка вызова API');
+        }
+
         return { 
           success: false, 
           error: error instanceof Error ? error.message : 'Ошибка при стилизации фото',
@@ -334,6 +247,9 @@ export class PoetStyleService {
       }
     } catch (error) {
       console.error('❌ [POET_STYLE] Общая ошибка:', error);
+      if (holdId) {
+        await BalanceService.releaseHold(holdId, 'общая ошибка');
+      }
       return { 
         success: false, 
         error: error instanceof Error ? error.message : 'Внутренняя ошибка сервера',
@@ -349,12 +265,15 @@ export class PoetStyleService {
     userImagePath: string,
     poet: Poet,
     prompt: string,
-    telegramId: number
+    telegramId: number,
+    requestId?: number
   ): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
     try {
-      const result = await this.executeWithRetry(async () => {
-        return await this.performGeminiAPICallWithPoet(userImagePath, poet, prompt, telegramId);
-      }, 'Gemini API Poet Style');
+      const result = await GenerationProviderService.withFailover('poet_style', providerName =>
+        ResilienceService.execute(async () => {
+          return await this.performGeminiAPICallWithPoet(userImagePath, poet, prompt, telegramId, providerName);
+        }, { operation: 'Gemini API Poet Style', provider: providerName, requestId })
+      );
 
       return result;
     } catch (error) {
@@ -367,111 +286,52 @@ export class PoetStyleService {
   }
 
   /**
-   * Выполнение одиночного вызова Gemini API для стилизации с поэтом
+   * Выполнение одиночного вызова модели для стилизации с поэтом
    */
   private static async performGeminiAPICallWithPoet(
     userImagePath: string,
     poet: Poet,
     prompt: string,
-    telegramId: number
+    telegramId: number,
+    providerName?: ImageGenerationProviderName
   ): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
-    // Инициализируем Google GenAI
-    const genai = new GoogleGenAI({ 
-      apiKey: this.GEMINI_API_KEY
-    });
-
-    console.log('🎭 [POET_STYLE] Отправляем запрос к Gemini API...');
+    console.log('🎭 [POET_STYLE] Отправляем запрос к модели генерации...');
     console.log('🎭 [POET_STYLE] Поэт:', poet.name);
     console.log('🎭 [POET_STYLE] Промпт:', prompt.substring(0, 100) + '...');
-    
-    // Создаем промис с таймаутом для одного запроса (3 минуты)
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Timeout: запрос превысил 3 минуты')), 180000);
-    });
 
     // Формируем промпт для селфи с поэтом
     const enhancedPrompt = await this.enhancePoetPrompt(prompt, poet, 'selfie');
 
-    // Подготавливаем контент с изображениями
+    // Изображение поэта идет первым, затем фото пользователя
     const fs = require('fs');
-    const contents: any[] = [];
-    
-    // Добавляем изображение поэта
     const poetImagePath = `uploads/${poet.image_path}`;
-    if (ImageCopyService.checkPoetImageExists(poet.image_path)) {
-      const poetImageData = fs.readFileSync(poetImagePath);
-      const base64PoetImage = poetImageData.toString('base64');
-      
-      contents.push({
-        inlineData: {
-          data: base64PoetImage,
-          mimeType: 'image/jpeg'
-        }
-      });
-    } else {
+    if (!ImageCopyService.checkPoetImageExists(poet.image_path)) {
       throw new Error(`Изображение поэта не найдено: ${poetImagePath}`);
     }
-    
-    // Добавляем изображение пользователя
-    const userImageData = fs.readFileSync(userImagePath);
-    const base64UserImage = userImageData.toString('base64');
-    
-    contents.push({
-      inlineData: {
-        data: base64UserImage,
-        mimeType: 'image/jpeg'
-      }
-    });
-    
-    // Добавляем текстовый промпт
-    contents.push({ text: enhancedPrompt });
-
-    const apiPromise = genai.models.generateContent({
-      model: "gemini-2.5-flash-image-preview", // Используем модель с поддержкой изображений
-      contents: [{ parts: contents }],
-    });
-
-    const response = await Promise.race([apiPromise, timeoutPromise]) as any;
 
-    console.log('🎭 [POET_STYLE] Получен ответ от API');
-    console.log('🎭 [POET_STYLE] Количество кандидатов:', response.candidates?.length || 0);
-
-    if (response.candidates && response.candidates.length > 0) {
-      const candidate = response.candidates[0];
-      if (!candidate.content || !candidate.content.parts) {
-        console.log('❌ [POET_STYLE] Неверная структура ответа - отсутствует content.parts');
-        throw new Error('Неверная структура ответа API');
-      }
-
-      console.log('🎭 [POET_STYLE] Количество частей контента:', candidate.content.parts.length);
-
-      for (const part of candidate.content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          console.log('✅ [POET_STYLE] Найдено стилизованное изображение, MIME:', part.inlineData.mimeType);
-          
-          // Сохраняем стилизованное изображение с помощью FileManagerService
-          const savedFile = FileManagerService.saveBase64File(
-            part.inlineData.data,
-            part.inlineData.mimeType || 'image/jpeg',
-            telegramId,
-            this.MODULE_NAME,
-            'poet_style'
-          );
-          
-          return {
-            success: true,
-            imageUrl: savedFile.url
-          };
-        }
-      }
-
-      // Если дошли до сюда - изображения не было найдено
-      console.log('❌ [POET_STYLE] В ответе не найдено стилизованное изображение');
-      throw new Error('API не вернул стилизованное изображение');
-    } else {
-      console.log('❌ [POET_STYLE] API не вернул кандидатов');
-      throw new Error('API не вернул результат');
-    }
+    const result = await GenerationProviderService.generate('poet_style', {
+      prompt: enhancedPrompt,
+      images: [
+        { data: fs.readFileSync(poetImagePath), mimeType: 'image/jpeg' },
+        { data: fs.readFileSync(userImagePath), mimeType: 'image/jpeg' }
+      ],
+      promptPosition: 'after_images'
+    }, providerName);
+    const [image] = result.images;
+
+    // Сохраняем стилизованное изображение с помощью FileManagerService
+    const savedFile = FileManagerService.saveBase64File(
+      image.data.toString('base64'),
+      image.mimeType,
+      telegramId,
+      this.MODULE_NAME,
+      'poet_style'
+    );
+
+    return {
+      success: true,
+      imageUrl: savedFile.url
+    };
   }
 
   /**
@@ -1,4 +1,6 @@
-import { ServicePrice } from '../models/index';
+import { Op } from 'sequelize';
+import { ServicePrice, PricingRule } from '../models/index';
+import { LedgerService } from './LedgerService';
 
 export interface CreatePriceRequest {
   service_name: string;
@@ -14,7 +16,32 @@ export interface UpdatePriceRequest {
   description?: string;
 }
 
+export interface AppliedPriceRule {
+  id: number;
+  name: string;
+  type: PricingRule['rule_type'];
+  discountPercent: number;
+  endsAt?: Date | null; // окончание распродажи для отображения в Mini App
+}
+
+export interface ResolvedPrice {
+  serviceType: string;
+  basePrice: number; // цена без скидок («было»)
+  price: number; // цена к оплате («стало»)
+  rule: AppliedPriceRule | null; // правило, по которому получена цена
+}
+
+export interface PricingRuleInputResult {
+  attributes?: Partial<PricingRule['_creationAttributes']>;
+  error?: string;
+}
+
 export class PriceService {
+  /**
+   * Услуги Mini App, для которых рассчитываются цены и действуют правила
+   */
+  static readonly SERVICE_TYPES = ['photo_restore', 'photo_stylize', 'era_style', 'poet_style', 'image_generate'];
+
   /**
    * Получить текущую цену услуги
    */
@@ -40,6 +67,164 @@ export class PriceService {
     }
   }
 
+  /**
+   * Цена услуги с учетом правил ценообразования
+   * Скидки не суммируются: из действующих распродаж и уровней по сумме оплат пользователя (tier)
+   * применяется самая большая. Без userId уровни не учитываются
+   */
+  static async resolvePrice(serviceType: string, userId?: number): Promise<ResolvedPrice> {
+    const [basePrice, rules] = await Promise.all([
+      this.getServicePrice(serviceType),
+      this.getActiveRules(['sale', 'tier'])
+    ]);
+    const lifetimeSpend = await this.getLifetimeSpend(rules, userId);
+    return this.applyRules(serviceType, basePrice, rules, lifetimeSpend);
+  }
+
+  /**
+   * Цены всех услуг Mini App с учетом правил («было/стало»)
+   */
+  static async resolveAllPrices(userId?: number): Promise<ResolvedPrice[]> {
+    const rules = await this.getActiveRules(['sale', 'tier']);
+    const lifetimeSpend = await this.getLifetimeSpend(rules, userId);
+
+    const prices: ResolvedPrice[] = [];
+    for (const serviceType of this.SERVICE_TYPES) {
+      prices.push(this.applyRules(serviceType, await this.getServicePrice(serviceType), rules, lifetimeSpend));
+    }
+    return prices;
+  }
+
+  /**
+   * Действующие правила указанных типов, сначала с большей скидкой
+   */
+  static async getActiveRules(types: PricingRule['rule_type'][]): Promise<PricingRule[]> {
+    const now = new Date();
+    try {
+      return await PricingRule.findAll({
+        where: {
+          rule_type: { [Op.in]: types },
+          is_active: true,
+          [Op.and]: [
+            { [Op.or]: [{ starts_at: null }, { starts_at: { [Op.lte]: now } }] },
+            { [Op.or]: [{ ends_at: null }, { ends_at: { [Op.gt]: now } }] }
+          ]
+        },
+        order: [['discount_percent', 'DESC'], ['id', 'DESC']]
+      });
+    } catch (error) {
+      console.error('Ошибка при получении правил ценообразования:', error);
+      return [];
+    }
+  }
+
+  static async listRules(): Promise<PricingRule[]> {
+    return await PricingRule.findAll({ order: [['createdAt', 'DESC']] });
+  }
+
+  /**
+   * Сумма со скидкой в процентах, с округлением до копеек
+   */
+  static applyDiscount(amount: number, discountPercent: number): number {
+    return Math.round(amount * (100 - discountPercent)) / 100;
+  }
+
+  static describeRule(rule: PricingRule): AppliedPriceRule {
+    return {
+      id: rule.id,
+      name: rule.name,
+      type: rule.rule_type,
+      discountPercent: Number(rule.discount_percent),
+      endsAt: rule.ends_at
+    };
+  }
+
+  /**
+   * Проверить поля правила из запроса администратора
+   * current — правило при обновлении: отсутствующие поля не меняются, а проверка согласованности
+   * выполняется для правила с примененными изменениями
+   */
+  static parseRuleInput(body: any, current?: PricingRule): PricingRuleInputResult {
+    const attributes: PricingRuleInputResult['attributes'] = {};
+    const partial = !!current;
+
+    if (body.name !== undefined || !partial) {
+      if (!body.name || typeof body.name !== 'string' || body.name.trim().length === 0) {
+        return { error: 'Необходимо указать name' };
+      }
+      attributes.name = body.name.trim().substring(0, 255);
+    }
+
+    if (body.ruleType !== undefined || !partial) {
+      if (!['sale', 'tier', 'pack'].includes(body.ruleType)) {
+        return { error: 'ruleType должен быть sale, tier или pack' };
+      }
+      if (current && body.ruleType !== current.rule_type) {
+        return { error: 'Тип правила нельзя изменить' };
+      }
+      attributes.rule_type = body.ruleType;
+    }
+
+    if (body.serviceType !== undefined) {
+      if (body.serviceType !== null && !this.SERVICE_TYPES.includes(body.serviceType)) {
+        return { error: `serviceType должен быть одним из: ${this.SERVICE_TYPES.join(', ')} или null` };
+      }
+      attributes.service_type = body.serviceType;
+    }
+
+    if (body.discountPercent !== undefined || !partial) {
+      if (typeof body.discountPercent !== 'number' || !(body.discountPercent > 0 && body.discountPercent < 100)) {
+        return { error: 'discountPercent должен быть числом больше 0 и меньше 100' };
+      }
+      attributes.discount_percent = Math.round(body.discountPercent * 100) / 100;
+    }
+
+    if (body.minLifetimeSpend !== undefined) {
+      if (body.minLifetimeSpend !== null && (typeof body.minLifetimeSpend !== 'number' || !(body.minLifetimeSpend > 0))) {
+        return { error: 'minLifetimeSpend должен быть положительным числом или null' };
+      }
+      attributes.min_lifetime_spend = body.minLifetimeSpend;
+    }
+
+    if (body.packSize !== undefined) {
+      if (body.packSize !== null && (!Number.isInteger(body.packSize) || body.packSize < 2)) {
+        return { error: 'packSize должен быть целым числом не меньше 2 или null' };
+      }
+      attributes.pack_size = body.packSize;
+    }
+
+    for (const [field, attribute] of [['startsAt', 'starts_at'], ['endsAt', 'ends_at']] as const) {
+      if (body[field] === undefined) {
+        continue;
+      }
+      const date = body[field] === null ? null : new Date(body[field]);
+      if (date && isNaN(date.getTime())) {
+        return { error: `Неверный формат ${field}` };
+      }
+      attributes[attribute] = date;
+    }
+
+    if (body.isActive !== undefined) {
+      attributes.is_active = Boolean(body.isActive);
+    }
+
+    const rule = { ...(current ? current.get({ plain: true }) : {}), ...attributes };
+    if (rule.rule_type === 'sale' && !rule.ends_at) {
+      return { error: 'Для распродажи необходимо указать endsAt' };
+    }
+    if (rule.rule_type === 'tier' && !rule.min_lifetime_spend) {
+      return { error: 'Для уровня (tier) необходимо указать minLifetimeSpend' };
+    }
+    if (rule.rule_type === 'pack' && (!rule.service_type || !rule.pack_size)) {
+      return { error: 'Для пакета необходимо указать serviceType и packSize' };
+    }
+    if (rule.starts_at && rule.ends_at && rule.starts_at >= rule.ends_at) {
+      return { error: 'endsAt должен быть позже startsAt' };
+    }
+
+    return { attributes };
+  }
+
   /**
    * Получить все активные цены
    */
@@ -153,6 +338,42 @@ export class PriceService {
     }
   }
 
+  /**
+   * Сумма оплат пользователя — только если есть уровни, для которых она нужна
+   */
+  private static async getLifetimeSpend(rules: PricingRule[], userId?: number): Promise<number | null> {
+    if (!userId || !rules.some(rule => rule.rule_type === 'tier')) {
+      return null;
+    }
+    try {
+      return await LedgerService.getUserSpend(userId);
+    } catch (error) {
+      console.error(`Ошибка при расчете суммы оплат пользователя ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Выбрать правило с наибольшей скидкой, подходящее по услуге и сумме оплат (правила уже отсортированы по скидке)
+   */
+  private static applyRules(serviceType: string, basePrice: number, rules: PricingRule[], lifetimeSpend: number | null): ResolvedPrice {
+    const rule = rules.find(candidate =>
+      (!candidate.service_type || candidate.service_type === serviceType) &&
+      (candidate.rule_type !== 'tier' || (lifetimeSpend !== null && lifetimeSpend >= Number(candidate.min_lifetime_spend)))
+    );
+
+    if (!rule) {
+      return { serviceType, basePrice, price: basePrice, rule: null };
+    }
+
+    return {
+      serviceType,
+      basePrice,
+      price: this.applyDiscount(basePrice, Number(rule.discount_percent)),
+      rule: this.describeRule(rule)
+    };
+  }
+
   /**
    * Получить дефолтные цены для услуг
    */
@@ -0,0 +1,194 @@
+import { Op } from 'sequelize';
+import { sequelize, PromoCode, PromoRedemption } from '../models/index';
+import { BalanceService } from './BalanceService';
+
+export interface PromoCodeInput {
+  code: string;
+  bonusType: 'amount' | 'percent';
+  value: number;
+  maxBonusAmount?: number | null;
+  expiresAt?: Date | null;
+  maxRedemptions?: number | null;
+  perUserLimit?: number;
+  description?: string | null;
+}
+
+export interface RedeemResult {
+  success: boolean;
+  status?: 'applied' | 'pending'; // pending — процентный бонус будет начислен при следующем пополнении
+  bonusAmount?: number;
+  percent?: number;
+  balance?: number;
+  error?: string;
+}
+
+/**
+ * Ожидаемая ошибка активации промокода (текст показывается клиенту)
+ */
+class PromoCodeError extends Error {}
+
+/**
+ * Промокоды: фиксированный бонус зачисляется сразу при активации,
+ * процентный — начисляется от суммы следующего подтвержденного пополнения
+ */
+export class PromoCodeService {
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  static async create(input: PromoCodeInput): Promise<PromoCode> {
+    return await PromoCode.create({
+      code: this.normalizeCode(input.code),
+      bonus_type: input.bonusType,
+      value: input.value,
+      max_bonus_amount: input.maxBonusAmount ?? null,
+      expires_at: input.expiresAt ?? null,
+      max_redemptions: input.maxRedemptions ?? null,
+      per_user_limit: input.perUserLimit ?? 1,
+      description: input.description ?? null
+    });
+  }
+
+  /**
+   * Активировать промокод пользователем
+   * Строка промокода блокируется, поэтому лимиты активаций не превышаются при параллельных запросах
+   */
+  static async redeem(userId: number, rawCode: string): Promise<RedeemResult> {
+    const code = this.normalizeCode(rawCode);
+
+    try {
+      return await sequelize.transaction(async (t) => {
+        const promo = await PromoCode.findOne({ where: { code }, transaction: t, lock: t.LOCK.UPDATE });
+        if (!promo || !promo.is_active) {
+          throw new PromoCodeError('Промокод не найден');
+        }
+        if (promo.expires_at && promo.expires_at.getTime() <= Date.now()) {
+          throw new PromoCodeError('Срок действия промокода истек');
+        }
+        if (promo.max_redemptions !== null && promo.max_redemptions !== undefined && promo.redemptions_count >= promo.max_redemptions) {
+          throw new PromoCodeError('Промокод больше недоступен');
+        }
+
+        const userRedemptions = await PromoRedemption.count({
+          where: { promo_code_id: promo.id, user_id: userId },
+          transaction: t
+        });
+        if (userRedemptions >= promo.per_user_limit) {
+          throw new PromoCodeError('Промокод уже активирован');
+        }
+
+        if (promo.bonus_type === 'percent') {
+          const pending = await PromoRedemption.findOne({
+            where: { user_id: userId, status: 'pending' },
+            transaction: t
+          });
+          if (pending) {
+            throw new PromoCodeError('У вас уже есть активированный промокод на бонус к пополнению');
+          }
+
+          await PromoRedemption.create({ promo_code_id: promo.id, user_id: userId, status: 'pending' }, { transaction: t });
+          await promo.update({ redemptions_count: promo.redemptions_count + 1 }, { transaction: t });
+
+          console.log(`🎟️ [PROMO] Пользователь ${userId} активировал промокод ${code}: +${promo.value}% к следующему пополнению`);
+          return { success: true, status: 'pending' as const, percent: Number(promo.value) };
+        }
+
+        const bonusAmount = Number(promo.value);
+        const redemption = await PromoRedemption.create({
+          promo_code_id: promo.id,
+          user_id: userId,
+          status: 'applied',
+          bonus_amount: bonusAmount,
+          applied_at: new Date()
+        }, { transaction: t });
+
+        const { balance, paymentId } = await BalanceService.creditBonus({
+          userId,
+          amount: bonusAmount,
+          entryType: 'promo_bonus',
+          description: `Бонус по промокоду ${code}`,
+          referenceId: `promo_redemption_${redemption.id}`
+        }, t);
+
+        await redemption.update({ payment_id: paymentId }, { transaction: t });
+        await promo.update({ redemptions_count: promo.redemptions_count + 1 }, { transaction: t });
+
+        console.log(`🎟️ [PROMO] Пользователь ${userId} активировал промокод ${code}: +${bonusAmount} RUB`);
+        return { success: true, status: 'applied' as const, bonusAmount, balance };
+      });
+    } catch (error) {
+      if (error instanceof PromoCodeError) {
+        return { success: false, error: error.message };
+      }
+      console.error(`❌ [PROMO] Ошибка активации промокода ${code} пользователем ${userId}:`, error);
+      return { success: false, error: 'Внутренняя ошибка сервера' };
+    }
+  }
+
+  /**
+   * Начислить процентный бонус по ожидающему промокоду после подтвержденного пополнения
+   * Вызывается после зачисления платежа; ожидающая активация блокируется, поэтому бонус начисляется один раз
+   */
+  static async applyTopUpBonus(userId: number, topUpAmount: number, topUpPaymentId: number): Promise<number> {
+    try {
+      return await sequelize.transaction(async (t) => {
+        const redemption = await PromoRedemption.findOne({
+          where: { user_id: userId, status: 'pending' },
+          include: [{ model: PromoCode, as: 'promoCode' }],
+          transaction: t,
+          lock: t.LOCK.UPDATE
+        });
+        if (!redemption) {
+          return 0;
+        }
+
+        const promo = redemption.promoCode!;
+        let bonusAmount = Math.round(topUpAmount * Number(promo.value)) / 100;
+        if (promo.max_bonus_amount !== null && promo.max_bonus_amount !== undefined) {
+          bonusAmount = Math.min(bonusAmount, Number(promo.max_bonus_amount));
+        }
+
+        if (bonusAmount <= 0) {
+          await redemption.update({ status: 'applied', bonus_amount: 0, applied_at: new Date() }, { transaction: t });
+          return 0;
+        }
+
+        const { paymentId } = await BalanceService.creditBonus({
+          userId,
+          amount: bonusAmount,
+          entryType: 'promo_bonus',
+          description: `Бонус ${Number(promo.value)}% к пополнению по промокоду ${promo.code}`,
+          referenceId: `promo_redemption_${redemption.id}`
+        }, t);
+
+        await redemption.update({
+          status: 'applied',
+          bonus_amount: bonusAmount,
+          payment_id: paymentId,
+          applied_at: new Date()
+        }, { transaction: t });
+
+        console.log(`🎟️ [PROMO] Бонус к пополнению ${topUpPaymentId} пользователя ${userId}: +${bonusAmount} RUB (${promo.code})`);
+        return bonusAmount;
+      });
+    } catch (error) {
+      console.error(`❌ [PROMO] Ошибка начисления бонуса к пополнению ${topUpPaymentId}:`, error);
+      return 0;
+    }
+  }
+
+  static async list(includeInactive: boolean = false): Promise<PromoCode[]> {
+    return await PromoCode.findAll({
+      where: includeInactive ? {} : {
+        is_active: true,
+        [Op.or]: [{ expires_at: null }, { expires_at: { [Op.gt]: new Date() } }]
+      },
+      order: [['createdAt', 'DESC']]
+    });
+  }
+
+  static async deactivate(promo: PromoCode): Promise<void> {
+    await promo.update({ is_active: false });
+    console.log(`🎟️ [PROMO] Промокод ${promo.code} отключен`);
+  }
+}
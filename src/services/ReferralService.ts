@@ -0,0 +1,155 @@
+import { Op } from 'sequelize';
+import { sequelize, User, Referral, ApiRequest, BalanceHold, Payment } from '../models/index';
+import { BalanceService } from './BalanceService';
+import { SignupCampaignService } from './SignupCampaignService';
+
+/**
+ * Реферальная программа
+ * Приглашение передается через start_param мини-приложения (ссылка t.me/<bot>/<app>?startapp=ref_<telegram_id>).
+ * Бонусы пригласившему и приглашенному начисляются один раз — после первой оплаченной задачи приглашенного,
+ * который хотя бы раз пополнил баланс через платежного провайдера
+ */
+export class ReferralService {
+  private static readonly REFERRER_BONUS = parseFloat(process.env.REFERRAL_REFERRER_BONUS || '50');
+  private static readonly REFEREE_BONUS = parseFloat(process.env.REFERRAL_REFEREE_BONUS || '30');
+  private static readonly START_PARAM_PREFIX = 'ref_';
+
+  static isEnabled(): boolean {
+    return this.REFERRER_BONUS > 0 || this.REFEREE_BONUS > 0;
+  }
+
+  /**
+   * Telegram ID пригласившего из start_param (ref_<telegram_id>)
+   */
+  static parseStartParam(startParam?: string | null): number | null {
+    if (!startParam || !startParam.startsWith(this.START_PARAM_PREFIX)) {
+      return null;
+    }
+    const telegramId = Number(startParam.slice(this.START_PARAM_PREFIX.length));
+    return Number.isSafeInteger(telegramId) && telegramId > 0 ? telegramId : null;
+  }
+
+  /**
+   * Источник регистрации для подбора кампании приветственного бонуса:
+   * referral для пригласительной ссылки, иначе значение start_param (например, метка рекламной ссылки) или organic
+   */
+  static signupSource(startParam?: string | null): string {
+    if (this.parseStartParam(startParam)) {
+      return SignupCampaignService.REFERRAL_SOURCE;
+    }
+    return startParam?.trim() || SignupCampaignService.ORGANIC_SOURCE;
+  }
+
+  /**
+   * Записать приглашение нового пользователя
+   * Вызывается только при создании пользователя, поэтому существующих пользователей пригласить нельзя
+   */
+  static async registerReferral(referee: User, startParam?: string | null): Promise<Referral | null> {
+    const referrerTelegramId = this.parseStartParam(startParam);
+    if (!referrerTelegramId || !this.isEnabled()) {
+      return null;
+    }
+
+    try {
+      if (referrerTelegramId === Number(referee.telegram_id)) {
+        console.warn(`⚠️ [REFERRAL] Пользователь ${referee.id} пытается пригласить сам себя`);
+        return null;
+      }
+
+      const referrer = await User.findOne({ where: { telegram_id: referrerTelegramId } });
+      if (!referrer || referrer.status !== 'active') {
+        console.warn(`⚠️ [REFERRAL] Пригласивший с telegram_id ${referrerTelegramId} не найден или неактивен`);
+        return null;
+      }
+
+      const [referral] = await Referral.findOrCreate({
+        where: { referee_id: referee.id },
+        defaults: { referrer_id: referrer.id, referee_id: referee.id }
+      });
+
+      console.log(`🤝 [REFERRAL] Пользователь ${referee.id} приглашен пользователем ${referrer.id}`);
+      return referral;
+    } catch (error) {
+      console.error(`❌ [REFERRAL] Ошибка регистрации приглашения пользователя ${referee.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Начислить бонусы по приглашению после оплаченной задачи приглашенного
+   * Строка приглашения блокируется, поэтому бонусы начисляются один раз даже при параллельных задачах
+   */
+  static async rewardForPaidRequest(apiRequest: ApiRequest): Promise<void> {
+    if (!apiRequest.hold_id) {
+      return;
+    }
+
+    try {
+      const referral = await Referral.findOne({ where: { referee_id: apiRequest.user_id, status: 'pending' } });
+      if (!referral) {
+        return;
+      }
+
+      // Запрос, покрытый квотой подписки, оплаченным не считается
+      const hold = await BalanceHold.findByPk(apiRequest.hold_id);
+      if (hold?.status !== 'captured' || !hold.payment_id) {
+        return;
+      }
+
+      // Задачи за приветственный бонус или бонус кампании не в счет: иначе бонусы можно собирать новыми аккаунтами без оплаты
+      if (!await this.hasCompletedPayment(apiRequest.user_id)) {
+        return;
+      }
+
+      await sequelize.transaction(async (t) => {
+        const locked = await Referral.findByPk(referral.id, { transaction: t, lock: t.LOCK.UPDATE });
+        if (!locked || locked.status !== 'pending') {
+          return;
+        }
+
+        if (this.REFERRER_BONUS > 0) {
+          await BalanceService.creditBonus({
+            userId: locked.referrer_id,
+            amount: this.REFERRER_BONUS,
+            entryType: 'referral_bonus',
+            description: 'Бонус за приглашенного пользователя',
+            referenceId: `referral_${locked.id}_referrer`
+          }, t);
+        }
+
+        if (this.REFEREE_BONUS > 0) {
+          await BalanceService.creditBonus({
+            userId: locked.referee_id,
+            amount: this.REFEREE_BONUS,
+            entryType: 'referral_bonus',
+            description: 'Бонус за регистрацию по приглашению',
+            referenceId: `referral_${locked.id}_referee`
+          }, t);
+        }
+
+        await locked.update({
+          status: 'rewarded',
+          referrer_bonus: this.REFERRER_BONUS,
+          referee_bonus: this.REFEREE_BONUS,
+          api_request_id: apiRequest.id,
+          rewarded_at: new Date()
+        }, { transaction: t });
+
+        console.log(`🤝 [REFERRAL] Начислены бонусы по приглашению ${locked.id}: пригласившему ${locked.referrer_id} +${this.REFERRER_BONUS} RUB, приглашенному ${locked.referee_id} +${this.REFEREE_BONUS} RUB`);
+      });
+    } catch (error) {
+      console.error(`❌ [REFERRAL] Ошибка начисления бонусов за запрос ${apiRequest.id}:`, error);
+    }
+  }
+
+  /**
+   * Есть ли у пользователя завершенная оплата через платежного провайдера (пополнение, подписка или пакет)
+   */
+  private static async hasCompletedPayment(userId: number): Promise<boolean> {
+    const payment = await Payment.findOne({
+      where: { user_id: userId, transaction_type: 'credit', status: 'completed', provider: { [Op.ne]: null } },
+      attributes: ['id']
+    });
+    return !!payment;
+  }
+}
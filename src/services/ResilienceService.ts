@@ -0,0 +1,366 @@
+import { GenerationError, GenerationErrorCategory } from './generation/GenerationError';
+import { JobEventsService } from './JobEventsService';
+
+export interface ErrorClassification {
+  category: GenerationErrorCategory;
+  retryable: boolean;
+  status?: number;
+  code?: string;
+  retryAfterMs?: number;
+}
+
+export interface RetryContext {
+  operation: string; // имя операции для логов и метрик
+  provider: string; // провайдер, для которого ведется circuit breaker
+  requestId?: number; // id запроса для событий прогресса (retrying)
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: Date;
+  lastFailure?: string;
+}
+
+export interface OperationMetrics {
+  calls: number; // вызовов execute
+  attempts: number; // попыток внутри вызовов
+  retries: number;
+  successes: number;
+  failures: number;
+  rejectedByCircuit: number; // вызовов, отклоненных открытым circuit breaker
+  failuresByCategory: Partial<Record<GenerationErrorCategory, number>>;
+  totalDurationMs: number;
+}
+
+/**
+ * Поля ошибок SDK и HTTP клиентов, по которым классифицируется сбой
+ */
+interface ProviderErrorShape {
+  message?: string;
+  status?: unknown;
+  code?: unknown;
+  response?: {
+    status?: unknown;
+    headers?: Record<string, unknown>;
+  };
+}
+
+interface CircuitBreaker {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  halfOpenTrialInFlight: boolean;
+  lastFailure?: string;
+}
+
+const RETRYABLE_CATEGORIES: GenerationErrorCategory[] = ['rate_limited', 'timeout', 'transient'];
+
+// Ошибки, которые говорят о состоянии провайдера (а не о конкретном запросе) и открывают circuit breaker
+const PROVIDER_FAILURE_CATEGORIES: GenerationErrorCategory[] = ['rate_limited', 'timeout', 'transient'];
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK'];
+const TIMEOUT_ERROR_CODES = ['ETIMEDOUT', 'ECONNABORTED', 'ESOCKETTIMEDOUT'];
+
+/**
+ * Повторы и circuit breaker для вызовов внешних моделей
+ * Одна реализация для всех сервисов обработки: классификация ошибок по HTTP статусу и gRPC коду,
+ * экспоненциальная задержка с джиттером, отключение провайдера после серии сбоев и метрики попыток
+ */
+export class ResilienceService {
+  // Настройки повторов (см. docs/RETRY_CONFIG.md)
+  private static readonly MAX_RETRY_DURATION = parseInt(process.env.GEMINI_MAX_RETRY_DURATION || '300000'); // 5 минут по умолчанию
+  private static readonly INITIAL_RETRY_DELAY = parseInt(process.env.GEMINI_INITIAL_RETRY_DELAY || '1000'); // 1 секунда по умолчанию
+  private static readonly MAX_RETRY_DELAY = parseInt(process.env.GEMINI_MAX_RETRY_DELAY || '30000'); // 30 секунд по умолчанию
+  private static readonly BACKOFF_MULTIPLIER = parseFloat(process.env.GEMINI_BACKOFF_MULTIPLIER || '2'); // Множитель для экспоненциального роста
+
+  // Circuit breaker: после FAILURE_THRESHOLD сбоев подряд провайдер отключается на RESET_MS
+  private static readonly FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5');
+  private static readonly RESET_MS = parseInt(process.env.CIRCUIT_BREAKER_RESET_MS || '60000');
+
+  private static readonly breakers = new Map<string, CircuitBreaker>();
+  private static readonly metrics = new Map<string, OperationMetrics>();
+
+  /**
+   * Выполнить операцию с повторами временных ошибок
+   * Если circuit breaker провайдера открыт, операция не выполняется (ошибка circuit_open)
+   */
+  static async execute<T>(operation: () => Promise<T>, context: RetryContext): Promise<T> {
+    const { operation: operationName, provider } = context;
+    const metrics = this.getOperationMetrics(provider, operationName);
+    const startTime = Date.now();
+    let attempt = 0;
+    let lastError: Error | null = null;
+
+    metrics.calls++;
+    console.log(`🚀 [RETRY] Начинаем ${operationName} (${provider}) с retry механизмом (макс. время: ${this.MAX_RETRY_DURATION}мс)`);
+
+    try {
+      while (Date.now() - startTime < this.MAX_RETRY_DURATION) {
+        this.acquireCircuit(provider, metrics);
+
+        attempt++;
+        metrics.attempts++;
+        const attemptStartTime = Date.now();
+
+        try {
+          console.log(`🔄 [RETRY] ${operationName} - попытка ${attempt} (время с начала: ${Date.now() - startTime}мс)`);
+          const result = await operation();
+
+          this.recordSuccess(provider);
+          metrics.successes++;
+          console.log(`✅ [RETRY] ${operationName} - выполнено с попытки ${attempt} за ${Date.now() - attemptStartTime}мс (общее время: ${Date.now() - startTime}мс)`);
+          return result;
+        } catch (error) {
+          lastError = error instanceof Error ? error : new Error(String(error));
+          const classification = this.classifyError(lastError);
+          this.recordFailure(provider, classification, lastError);
+          metrics.failuresByCategory[classification.category] = (metrics.failuresByCategory[classification.category] || 0) + 1;
+
+          console.log(`❌ [RETRY] ${operationName} - попытка ${attempt} неудачна за ${Date.now() - attemptStartTime}мс [${classification.category}${classification.status ? ` ${classification.status}` : ''}${classification.code ? ` ${classification.code}` : ''}]:`, lastError.message);
+
+          if (!classification.retryable) {
+            console.log(`🚫 [RETRY] ${operationName} - ошибка не подлежит повторению, прекращаем попытки`);
+            throw lastError;
+          }
+
+          const delay = this.getRetryDelay(attempt, classification.retryAfterMs);
+
+          // Проверяем, остается ли время для следующей попытки
+          const remainingTime = this.MAX_RETRY_DURATION - (Date.now() - startTime);
+          if (delay >= remainingTime) {
+            console.log(`⏰ [RETRY] ${operationName} - время ожидания истекло (осталось ${remainingTime}мс, нужно ${delay}мс)`);
+            break;
+          }
+
+          console.log(`⏳ [RETRY] ${operationName} - ожидание ${delay}мс перед попыткой ${attempt + 1} (осталось времени: ${remainingTime}мс)`);
+          JobEventsService.retrying(context.requestId, attempt + 1, delay);
+          metrics.retries++;
+          await this.sleep(delay);
+        }
+      }
+
+      console.log(`💥 [RETRY] ${operationName} - все попытки исчерпаны. Попыток: ${attempt}, общее время: ${Date.now() - startTime}мс`);
+      throw lastError || new Error(`Все попытки выполнения ${operationName} исчерпаны за ${Date.now() - startTime}мс`);
+    } catch (error) {
+      metrics.failures++;
+      throw error;
+    } finally {
+      metrics.totalDurationMs += Date.now() - startTime;
+    }
+  }
+
+  /**
+   * Классифицировать ошибку: типизированная GenerationError, HTTP статус (axios, @google/genai),
+   * gRPC статус из тела ответа Google API или код сетевой ошибки
+   */
+  static classifyError(error: unknown): ErrorClassification {
+    if (error instanceof GenerationError) {
+      return {
+        category: error.category,
+        retryable: RETRYABLE_CATEGORIES.includes(error.category),
+        ...error.details
+      };
+    }
+
+    const err: ProviderErrorShape = typeof error === 'object' && error !== null ? error : {};
+    const message: string = err.message || String(error);
+    const status: number | undefined = typeof err.status === 'number'
+      ? err.status
+      : typeof err.response?.status === 'number' ? err.response.status : undefined;
+    const grpcStatus = message.match(/"status":\s*"([A-Z_]+)"/)?.[1];
+    const code: string | undefined = grpcStatus || (typeof err.code === 'string' ? err.code : undefined);
+    const retryAfterMs = this.parseRetryAfter(err, message);
+
+    const classify = (category: GenerationErrorCategory): ErrorClassification => ({
+      category,
+      retryable: RETRYABLE_CATEGORIES.includes(category),
+      status,
+      code,
+      retryAfterMs
+    });
+
+    if (status === 429 || code === 'RESOURCE_EXHAUSTED') {
+      return classify('rate_limited');
+    }
+    if (status === 408 || status === 504 || code === 'DEADLINE_EXCEEDED' || (code && TIMEOUT_ERROR_CODES.includes(code))) {
+      return classify('timeout');
+    }
+    if ((status && status >= 500) || code === 'UNAVAILABLE' || code === 'INTERNAL' || code === 'ABORTED' || (code && NETWORK_ERROR_CODES.includes(code))) {
+      return classify('transient');
+    }
+    if (status === 401 || status === 403 || code === 'UNAUTHENTICATED' || code === 'PERMISSION_DENIED') {
+      return classify('auth');
+    }
+    if ((status && status >= 400) || code === 'INVALID_ARGUMENT' || code === 'FAILED_PRECONDITION' || code === 'NOT_FOUND') {
+      return classify('invalid_request');
+    }
+
+    // Без статуса и кода остаются сетевые ошибки fetch и таймауты, известные только по тексту
+    const lowerMessage = message.toLowerCase();
+    if (lowerMessage.includes('timeout')) {
+      return classify('timeout');
+    }
+    if (['fetch failed', 'socket hang up', 'network error'].some(text => lowerMessage.includes(text))) {
+      return classify('transient');
+    }
+
+    return classify('unknown');
+  }
+
+  /**
+   * Состояние circuit breaker провайдеров
+   */
+  static getProviderHealth(): ProviderHealth[] {
+    return Array.from(this.breakers.entries()).map(([provider, breaker]) => ({
+      provider,
+      state: this.currentState(breaker),
+      consecutiveFailures: breaker.consecutiveFailures,
+      openedAt: breaker.openedAt ? new Date(breaker.openedAt) : undefined,
+      lastFailure: breaker.lastFailure
+    }));
+  }
+
+  /**
+   * Метрики попыток и исходов по провайдеру и операции (с момента запуска процесса)
+   */
+  static getMetrics(): Record<string, OperationMetrics> {
+    return Object.fromEntries(this.metrics.entries());
+  }
+
+  /**
+   * Экспоненциальная задержка с джиттером (от половины до полной задержки)
+   * Если провайдер сообщил, сколько ждать, ждем не меньше
+   */
+  private static getRetryDelay(attempt: number, retryAfterMs?: number): number {
+    const base = Math.min(
+      this.INITIAL_RETRY_DELAY * Math.pow(this.BACKOFF_MULTIPLIER, attempt - 1),
+      this.MAX_RETRY_DELAY
+    );
+    const jittered = Math.round(base / 2 + Math.random() * base / 2);
+    return retryAfterMs ? Math.max(jittered, retryAfterMs) : jittered;
+  }
+
+  /**
+   * Retry-After из заголовка ответа (секунды или дата) или retryDelay из RetryInfo Google API
+   */
+  private static parseRetryAfter(err: ProviderErrorShape, message: string): number | undefined {
+    const header = err.response?.headers?.['retry-after'];
+    if (typeof header === 'string' || typeof header === 'number') {
+      const seconds = Number(header);
+      if (!isNaN(seconds)) {
+        return seconds * 1000;
+      }
+      const date = Date.parse(String(header));
+      if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+      }
+    }
+
+    const retryDelay = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/)?.[1];
+    return retryDelay ? Math.round(parseFloat(retryDelay) * 1000) : undefined;
+  }
+
+  /**
+   * Пропустить попытку через circuit breaker провайдера
+   * В открытом состоянии бросает ошибку circuit_open; после RESET_MS пропускает одну пробную попытку
+   */
+  private static acquireCircuit(provider: string, metrics: OperationMetrics): void {
+    const breaker = this.getBreaker(provider);
+    const state = this.currentState(breaker);
+
+    if (state === 'closed') {
+      return;
+    }
+
+    if (state === 'half_open' && !breaker.halfOpenTrialInFlight) {
+      breaker.state = 'half_open';
+      breaker.halfOpenTrialInFlight = true;
+      console.log(`🟡 [CIRCUIT] ${provider}: пробная попытка после отключения`);
+      return;
+    }
+
+    metrics.rejectedByCircuit++;
+    throw new GenerationError(`Провайдер ${provider} временно отключен после серии сбоев`, 'circuit_open', { provider });
+  }
+
+  private static recordSuccess(provider: string): void {
+    const breaker = this.getBreaker(provider);
+    if (breaker.state !== 'closed') {
+      console.log(`🟢 [CIRCUIT] ${provider}: провайдер снова доступен`);
+    }
+    breaker.state = 'closed';
+    breaker.consecutiveFailures = 0;
+    breaker.openedAt = undefined;
+    breaker.halfOpenTrialInFlight = false;
+  }
+
+  private static recordFailure(provider: string, classification: ErrorClassification, error: Error): void {
+    const breaker = this.getBreaker(provider);
+
+    if (!PROVIDER_FAILURE_CATEGORIES.includes(classification.category)) {
+      // Ошибка конкретного запроса: провайдер ответил, значит он работает
+      if (breaker.halfOpenTrialInFlight) {
+        this.recordSuccess(provider);
+      }
+      return;
+    }
+
+    breaker.consecutiveFailures++;
+    breaker.lastFailure = error.message.substring(0, 200);
+
+    if (breaker.halfOpenTrialInFlight || breaker.consecutiveFailures >= this.FAILURE_THRESHOLD) {
+      if (breaker.state !== 'open') {
+        console.warn(`🔴 [CIRCUIT] ${provider}: отключен на ${this.RESET_MS}мс после ${breaker.consecutiveFailures} сбоев подряд`);
+      }
+      breaker.state = 'open';
+      breaker.openedAt = Date.now();
+      breaker.halfOpenTrialInFlight = false;
+    }
+  }
+
+  /**
+   * Открытый breaker по истечении RESET_MS переходит в half_open
+   */
+  private static currentState(breaker: CircuitBreaker): CircuitState {
+    if (breaker.state === 'open' && breaker.openedAt && Date.now() - breaker.openedAt >= this.RESET_MS) {
+      return 'half_open';
+    }
+    return breaker.state;
+  }
+
+  private static getBreaker(provider: string): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = { state: 'closed', consecutiveFailures: 0, halfOpenTrialInFlight: false };
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  private static getOperationMetrics(provider: string, operation: string): OperationMetrics {
+    const key = `${provider}:${operation}`;
+    let metrics = this.metrics.get(key);
+    if (!metrics) {
+      metrics = {
+        calls: 0,
+        attempts: 0,
+        retries: 0,
+        successes: 0,
+        failures: 0,
+        rejectedByCircuit: 0,
+        failuresByCategory: {},
+        totalDurationMs: 0
+      };
+      this.metrics.set(key, metrics);
+    }
+    return metrics;
+  }
+
+  private static sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
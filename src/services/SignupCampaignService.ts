@@ -0,0 +1,128 @@
+import { Op, Transaction } from 'sequelize';
+import { SignupCampaign, User, sequelize } from '../models/index';
+
+export interface SignupContext {
+  languageCode?: string | null;
+  source: string; // referral, organic или значение start_param
+}
+
+export interface CampaignInputResult {
+  attributes?: Partial<SignupCampaign['_creationAttributes']>;
+  error?: string;
+}
+
+/**
+ * Кампании приветственного бонуса
+ * Новому пользователю начисляется бонус действующей кампании, подходящей по языку и источнику регистрации;
+ * если подходят несколько, выбирается кампания с наибольшим приоритетом, при равном — более новая
+ */
+export class SignupCampaignService {
+  static readonly REFERRAL_SOURCE = 'referral';
+  static readonly ORGANIC_SOURCE = 'organic';
+
+  /**
+   * Подобрать кампанию для нового пользователя
+   */
+  static async findCampaign(context: SignupContext, t?: Transaction): Promise<SignupCampaign | null> {
+    const now = new Date();
+    const campaigns = await SignupCampaign.findAll({
+      where: {
+        is_active: true,
+        [Op.and]: [
+          { [Op.or]: [{ starts_at: null }, { starts_at: { [Op.lte]: now } }] },
+          { [Op.or]: [{ ends_at: null }, { ends_at: { [Op.gt]: now } }] }
+        ]
+      },
+      order: [['priority', 'DESC'], ['id', 'DESC']],
+      transaction: t
+    });
+
+    const languageCode = context.languageCode?.toLowerCase();
+    return campaigns.find(campaign =>
+      (!campaign.language_codes || campaign.language_codes.length === 0 || (!!languageCode && campaign.language_codes.includes(languageCode))) &&
+      (!campaign.signup_source || campaign.signup_source === context.source)
+    ) || null;
+  }
+
+  /**
+   * Список кампаний с числом пользователей, получивших бонус
+   */
+  static async list(): Promise<Array<ReturnType<SignupCampaign['toJSON']> & { grantedCount: number }>> {
+    const [campaigns, counts] = await Promise.all([
+      SignupCampaign.findAll({ order: [['priority', 'DESC'], ['id', 'DESC']] }),
+      User.findAll({
+        attributes: ['signup_campaign_id', [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+        where: { signup_campaign_id: { [Op.ne]: null } },
+        group: ['signup_campaign_id'],
+        raw: true
+      }) as unknown as Promise<Array<{ signup_campaign_id: number; count: number }>>
+    ]);
+
+    const countByCampaign = new Map(counts.map(row => [Number(row.signup_campaign_id), Number(row.count)]));
+    return campaigns.map(campaign => ({
+      ...campaign.toJSON(),
+      grantedCount: countByCampaign.get(campaign.id) || 0
+    }));
+  }
+
+  /**
+   * Проверить поля кампании из запроса администратора
+   * partial — для обновления: отсутствующие поля не меняются
+   */
+  static parseInput(body: any, partial: boolean = false): CampaignInputResult {
+    const attributes: CampaignInputResult['attributes'] = {};
+
+    if (body.name !== undefined || !partial) {
+      if (!body.name || typeof body.name !== 'string' || body.name.trim().length === 0) {
+        return { error: 'Необходимо указать name' };
+      }
+      attributes.name = body.name.trim().substring(0, 255);
+    }
+
+    if (body.bonusAmount !== undefined || !partial) {
+      const bonusAmount = Number(body.bonusAmount);
+      if (!Number.isFinite(bonusAmount) || bonusAmount < 0) {
+        return { error: 'bonusAmount должен быть неотрицательным числом' };
+      }
+      attributes.bonus_amount = Math.round(bonusAmount * 100) / 100;
+    }
+
+    for (const [field, attribute] of [['startsAt', 'starts_at'], ['endsAt', 'ends_at']] as const) {
+      if (body[field] === undefined) {
+        continue;
+      }
+      const date = body[field] === null ? null : new Date(body[field]);
+      if (date && isNaN(date.getTime())) {
+        return { error: `Неверный формат ${field}` };
+      }
+      attributes[attribute] = date;
+    }
+
+    if (body.languageCodes !== undefined) {
+      if (body.languageCodes !== null && (!Array.isArray(body.languageCodes) || !body.languageCodes.every((code: unknown) => typeof code === 'string'))) {
+        return { error: 'languageCodes должен быть массивом кодов языков или null' };
+      }
+      attributes.language_codes = body.languageCodes?.length ? body.languageCodes.map((code: string) => code.trim().toLowerCase()) : null;
+    }
+
+    if (body.signupSource !== undefined) {
+      if (body.signupSource !== null && (typeof body.signupSource !== 'string' || body.signupSource.length > 64)) {
+        return { error: 'signupSource должен быть строкой до 64 символов или null' };
+      }
+      attributes.signup_source = body.signupSource || null;
+    }
+
+    if (body.priority !== undefined) {
+      if (!Number.isInteger(body.priority)) {
+        return { error: 'priority должен быть целым числом' };
+      }
+      attributes.priority = body.priority;
+    }
+
+    if (body.isActive !== undefined) {
+      attributes.is_active = Boolean(body.isActive);
+    }
+
+    return { attributes };
+  }
+}
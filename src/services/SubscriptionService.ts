@@ -0,0 +1,243 @@
+import { Op, Transaction } from 'sequelize';
+import { BalanceHold, Subscription, SubscriptionPlan } from '../models/index';
+
+export interface QuotaStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+export interface SubscriptionStatus {
+  planId: number;
+  planCode: string;
+  planName: string;
+  periodStart: Date; // начало текущего периода квот
+  periodEnd: Date; // окончание оплаченного срока подписки
+  quotas: Record<string, QuotaStatus>; // по service_type
+}
+
+export interface PlanInputResult {
+  attributes?: Partial<SubscriptionPlan['_creationAttributes']>;
+  error?: string;
+}
+
+/**
+ * Подписки с месячными квотами на обработку
+ * Запрос, покрытый квотой, резервируется резервом на 0 RUB с subscription_id (см. BalanceService.reserve).
+ * Израсходованная квота — число таких резервов за текущий период (действующих и списанных),
+ * поэтому снятый резерв (ошибка обработки) квоту возвращает. Квоты обновляются каждые period_days дней,
+ * в том числе когда подписка оплачена на несколько периодов вперед
+ */
+export class SubscriptionService {
+  /**
+   * Действующая подписка пользователя с тарифом (null, если подписки нет или период закончился)
+   */
+  static async getActiveSubscription(userId: number, t?: Transaction): Promise<Subscription | null> {
+    return await Subscription.findOne({
+      where: { user_id: userId, current_period_end: { [Op.gt]: new Date() } },
+      include: [{ model: SubscriptionPlan, as: 'plan' }],
+      transaction: t
+    });
+  }
+
+  /**
+   * Подписка, квота которой покрывает запрос (null — запрос оплачивается с баланса)
+   * Вызывается под блокировкой пользователя, поэтому параллельные резервы не превышают квоту
+   */
+  static async findQuotaSubscription(userId: number, serviceType: string, t: Transaction): Promise<Subscription | null> {
+    const subscription = await this.getActiveSubscription(userId, t);
+    if (!subscription) {
+      return null;
+    }
+
+    const limit = this.getPlan(subscription).quotas?.[serviceType] || 0;
+    if (limit <= 0) {
+      return null;
+    }
+
+    const used = await this.countUsage(subscription, serviceType, t);
+    return used < limit ? subscription : null;
+  }
+
+  /**
+   * Состояние подписки и квот для Mini App
+   */
+  static async getStatus(userId: number): Promise<SubscriptionStatus | null> {
+    const subscription = await this.getActiveSubscription(userId);
+    if (!subscription) {
+      return null;
+    }
+
+    const plan = this.getPlan(subscription);
+    const quotas: Record<string, QuotaStatus> = {};
+    for (const [serviceType, limit] of Object.entries(plan.quotas || {})) {
+      const used = await this.countUsage(subscription, serviceType);
+      quotas[serviceType] = { limit, used, remaining: Math.max(0, limit - used) };
+    }
+
+    return {
+      planId: plan.id,
+      planCode: plan.code,
+      planName: plan.name,
+      periodStart: this.getQuotaPeriodStart(subscription),
+      periodEnd: subscription.current_period_end,
+      quotas
+    };
+  }
+
+  /**
+   * Можно ли оплатить тариф: пока действует подписка на другой тариф, сменить его нельзя — оплаченный срок пропал бы
+   * Возвращает текст ошибки или null
+   */
+  static async checkPlanChange(userId: number, plan: SubscriptionPlan, t?: Transaction): Promise<string | null> {
+    const subscription = await this.getActiveSubscription(userId, t);
+    if (!subscription || subscription.plan_id === plan.id) {
+      return null;
+    }
+
+    const currentPlan = this.getPlan(subscription);
+    return `Действует подписка «${currentPlan.name}» до ${subscription.current_period_end.toLocaleDateString('ru-RU')}: сменить тариф можно после ее окончания`;
+  }
+
+  /**
+   * Продлить подписку после оплаты
+   * Продление того же тарифа сдвигает конец текущего периода; истекшая подписка начинает новый период.
+   * Другой тариф при действующей подписке не оформляется (ошибка откатывает транзакцию оплаты, сумма остается на балансе)
+   */
+  static async extend(userId: number, plan: SubscriptionPlan, paymentId: number, t: Transaction): Promise<Subscription> {
+    const now = new Date();
+    const periodMs = plan.period_days * 24 * 60 * 60 * 1000;
+    const subscription = await Subscription.findOne({ where: { user_id: userId }, transaction: t, lock: t.LOCK.UPDATE });
+
+    if (subscription && subscription.plan_id !== plan.id && subscription.current_period_end > now) {
+      throw new Error(`У пользователя ${userId} действует подписка ${subscription.id} на другой тариф до ${subscription.current_period_end.toISOString()}`);
+    }
+
+    if (subscription && subscription.plan_id === plan.id && subscription.current_period_end > now) {
+      await subscription.update({
+        current_period_end: new Date(subscription.current_period_end.getTime() + periodMs),
+        last_payment_id: paymentId
+      }, { transaction: t });
+      console.log(`📅 [SUBSCRIPTION] Подписка ${subscription.id} пользователя ${userId} продлена до ${subscription.current_period_end.toISOString()}`);
+      return subscription;
+    }
+
+    const period = {
+      plan_id: plan.id,
+      current_period_start: now,
+      current_period_end: new Date(now.getTime() + periodMs),
+      last_payment_id: paymentId
+    };
+
+    const result = subscription
+      ? await subscription.update(period, { transaction: t })
+      : await Subscription.create({ user_id: userId, ...period }, { transaction: t });
+
+    console.log(`📅 [SUBSCRIPTION] Пользователь ${userId} подписан на тариф ${plan.code} до ${result.current_period_end.toISOString()}`);
+    return result;
+  }
+
+  static async findActivePlan(planId: number): Promise<SubscriptionPlan | null> {
+    if (!Number.isInteger(planId) || planId <= 0) {
+      return null;
+    }
+    return await SubscriptionPlan.findOne({ where: { id: planId, is_active: true } });
+  }
+
+  static async listPlans(includeInactive: boolean = false): Promise<SubscriptionPlan[]> {
+    return await SubscriptionPlan.findAll({
+      where: includeInactive ? {} : { is_active: true },
+      order: [['price', 'ASC']]
+    });
+  }
+
+  /**
+   * Проверить поля тарифа из запроса администратора
+   * partial — для обновления: отсутствующие поля не меняются
+   */
+  static parseInput(body: any, partial: boolean = false): PlanInputResult {
+    const attributes: PlanInputResult['attributes'] = {};
+
+    if (body.code !== undefined || !partial) {
+      if (!body.code || typeof body.code !== 'string' || !/^[a-z0-9_-]{2,64}$/.test(body.code)) {
+        return { error: 'code должен состоять из 2-64 строчных латинских букв, цифр, _ или -' };
+      }
+      attributes.code = body.code;
+    }
+
+    if (body.name !== undefined || !partial) {
+      if (!body.name || typeof body.name !== 'string' || body.name.trim().length === 0) {
+        return { error: 'Необходимо указать name' };
+      }
+      attributes.name = body.name.trim().substring(0, 255);
+    }
+
+    if (body.price !== undefined || !partial) {
+      if (typeof body.price !== 'number' || !(body.price > 0)) {
+        return { error: 'price должен быть положительным числом' };
+      }
+      attributes.price = Math.round(body.price * 100) / 100;
+    }
+
+    if (body.periodDays !== undefined) {
+      if (!Number.isInteger(body.periodDays) || body.periodDays <= 0) {
+        return { error: 'periodDays должен быть положительным целым числом' };
+      }
+      attributes.period_days = body.periodDays;
+    }
+
+    if (body.quotas !== undefined || !partial) {
+      const quotas = body.quotas;
+      if (!quotas || typeof quotas !== 'object' || Array.isArray(quotas) || Object.keys(quotas).length === 0 ||
+        !Object.values(quotas).every(limit => Number.isInteger(limit) && (limit as number) > 0)) {
+        return { error: 'quotas должен быть объектом { service_type: число запросов за период }' };
+      }
+      attributes.quotas = quotas;
+    }
+
+    if (body.description !== undefined) {
+      attributes.description = body.description ? String(body.description) : null;
+    }
+
+    if (body.isActive !== undefined) {
+      attributes.is_active = Boolean(body.isActive);
+    }
+
+    return { attributes };
+  }
+
+  /**
+   * Тариф подписки, загруженной с include { as: 'plan' }
+   */
+  private static getPlan(subscription: Subscription): SubscriptionPlan {
+    return subscription.plan!;
+  }
+
+  /**
+   * Начало текущего периода квот: current_period_start плюс целое число периодов тарифа
+   */
+  private static getQuotaPeriodStart(subscription: Subscription): Date {
+    const periodMs = this.getPlan(subscription).period_days * 24 * 60 * 60 * 1000;
+    const start = subscription.current_period_start.getTime();
+    const elapsedPeriods = Math.max(0, Math.floor((Date.now() - start) / periodMs));
+    return new Date(start + elapsedPeriods * periodMs);
+  }
+
+  /**
+   * Израсходованная квота: резервы подписки по услуге за текущий период квот, кроме снятых и просроченных
+   */
+  private static async countUsage(subscription: Subscription, serviceType: string, t?: Transaction): Promise<number> {
+    return await BalanceHold.count({
+      where: {
+        subscription_id: subscription.id,
+        service_type: serviceType,
+        createdAt: { [Op.gte]: this.getQuotaPeriodStart(subscription) },
+        [Op.or]: [
+          { status: 'captured' },
+          { status: 'held', expires_at: { [Op.gt]: new Date() } }
+        ]
+      },
+      transaction: t
+    });
+  }
+}
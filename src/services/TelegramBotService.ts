@@ -414,6 +414,110 @@ export class TelegramBotService {
     }
   }
 
+  /**
+   * Создает ссылку на оплату в Telegram Stars (валюта XTR)
+   * @param title - название товара
+   * @param description - описание товара
+   * @param payload - внутренний идентификатор платежа (возвращается в pre_checkout_query и successful_payment)
+   * @param stars - количество Stars
+   * @returns ссылка на счет или null в случае ошибки
+   */
+  static async createStarsInvoiceLink(
+    title: string,
+    description: string,
+    payload: string,
+    stars: number
+  ): Promise<string | null> {
+    try {
+      TelegramBotService.checkBotToken();
+
+      const responseData = await TelegramBotService.makeRequestWithRetry<TelegramBotResponse<string>>(
+        `${TelegramBotService.BASE_URL}/createInvoiceLink`,
+        {
+          title,
+          description,
+          payload,
+          currency: 'XTR',
+          prices: [{ label: title, amount: stars }]
+        },
+        TelegramBotService.MAX_RETRIES,
+        TelegramBotService.TELEGRAM_API_TIMEOUT
+      );
+
+      if (!responseData.ok || !responseData.result) {
+        console.error('❌ [TelegramBot] Ошибка создания счета Stars:', responseData.description);
+        return null;
+      }
+
+      console.log(`⭐ [TelegramBot] Создан счет на ${stars} Stars (${payload})`);
+      return responseData.result;
+    } catch (error: any) {
+      console.error('❌ [TelegramBot] Ошибка при создании счета Stars:', error.response?.data || error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Отвечает на pre_checkout_query (Telegram ждет ответ не более 10 секунд)
+   * @param preCheckoutQueryId - ID запроса
+   * @param ok - можно ли продолжать оплату
+   * @param errorMessage - причина отказа, показывается пользователю
+   */
+  static async answerPreCheckoutQuery(
+    preCheckoutQueryId: string,
+    ok: boolean,
+    errorMessage?: string
+  ): Promise<boolean> {
+    try {
+      TelegramBotService.checkBotToken();
+
+      const responseData = await TelegramBotService.makeRequestWithRetry<TelegramBotResponse<boolean>>(
+        `${TelegramBotService.BASE_URL}/answerPreCheckoutQuery`,
+        {
+          pre_checkout_query_id: preCheckoutQueryId,
+          ok,
+          ...(ok ? {} : { error_message: errorMessage || 'Платеж недоступен' })
+        },
+        1,
+        5000
+      );
+
+      return responseData.ok;
+    } catch (error: any) {
+      console.error('❌ [TelegramBot] Ошибка при ответе на pre_checkout_query:', error.response?.data || error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Возвращает платеж в Telegram Stars
+   * @param telegramId - ID пользователя Telegram, оплатившего счет
+   * @param chargeId - telegram_payment_charge_id из successful_payment
+   */
+  static async refundStarPayment(telegramId: number, chargeId: string): Promise<boolean> {
+    try {
+      TelegramBotService.checkBotToken();
+
+      const responseData = await TelegramBotService.makeRequestWithRetry<TelegramBotResponse<boolean>>(
+        `${TelegramBotService.BASE_URL}/refundStarPayment`,
+        {
+          user_id: telegramId,
+          telegram_payment_charge_id: chargeId
+        },
+        TelegramBotService.MAX_RETRIES,
+        TelegramBotService.TELEGRAM_API_TIMEOUT
+      );
+
+      if (!responseData.ok) {
+        console.error('❌ [TelegramBot] Ошибка возврата Stars:', responseData.description);
+      }
+      return responseData.ok;
+    } catch (error: any) {
+      console.error('❌ [TelegramBot] Ошибка при возврате Stars:', error.response?.data || error.message);
+      return false;
+    }
+  }
+
   /**
    * Создает URL для изображения с учетом особенностей Telegram
    * @param baseUrl - базовый URL сервера
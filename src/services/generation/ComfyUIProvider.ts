@@ -0,0 +1,134 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import axios from 'axios';
+import {
+  ImageGenerationProvider,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  GenerationImage
+} from './ImageGenerationProvider';
+import { GenerationError } from './GenerationError';
+
+/**
+ * Генерация изображений на собственном сервере ComfyUI по HTTP API
+ * Граф (workflow) в формате API берется из COMFYUI_WORKFLOW_PATH; в строковых полях графа
+ * подставляются {{prompt}} и {{image_0}}, {{image_1}}, ... — имена загруженных входных изображений
+ */
+export class ComfyUIProvider implements ImageGenerationProvider {
+  readonly name = 'comfyui' as const;
+
+  private readonly baseUrl = (process.env.COMFYUI_URL || '').replace(/\/$/, '');
+  private readonly workflowPath = process.env.COMFYUI_WORKFLOW_PATH || '';
+  private readonly timeoutMs = parseInt(process.env.COMFYUI_REQUEST_TIMEOUT_MS || '300000');
+  private readonly pollIntervalMs = 1000;
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl && this.workflowPath);
+  }
+
+  async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    const startTime = Date.now();
+    const images = request.images || [];
+    console.log(`🤖 [COMFYUI] Отправляем граф на ${this.baseUrl} (изображений: ${images.length})...`);
+
+    const uploadedNames: string[] = [];
+    for (const image of images) {
+      uploadedNames.push(await this.uploadImage(image));
+    }
+
+    const workflow = this.fillPlaceholders(
+      JSON.parse(fs.readFileSync(this.workflowPath, 'utf8')),
+      request.prompt,
+      uploadedNames
+    );
+
+    const submitted = await axios.post<any>(`${this.baseUrl}/prompt`, {
+      prompt: workflow,
+      client_id: crypto.randomUUID()
+    }, { timeout: 30000 });
+
+    const promptId: string | undefined = submitted.data?.prompt_id;
+    if (!promptId) {
+      throw new GenerationError('ComfyUI не принял граф: ' + JSON.stringify(submitted.data?.node_errors || submitted.data), 'invalid_request', { provider: this.name });
+    }
+
+    // Ждем завершения графа
+    while (Date.now() - startTime < this.timeoutMs) {
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+
+      const history = await axios.get<any>(`${this.baseUrl}/history/${promptId}`, { timeout: 30000 });
+      const entry = history.data?.[promptId];
+      if (!entry) {
+        continue;
+      }
+
+      if (entry.status?.status_str === 'error') {
+        throw new GenerationError('ComfyUI: ошибка выполнения графа', 'transient', { provider: this.name });
+      }
+
+      const outputs: GenerationImage[] = [];
+      for (const output of Object.values<any>(entry.outputs || {})) {
+        for (const file of output.images || []) {
+          if (file.type !== 'output') {
+            continue;
+          }
+          const view = await axios.get<ArrayBuffer>(`${this.baseUrl}/view`, {
+            params: { filename: file.filename, subfolder: file.subfolder, type: file.type },
+            responseType: 'arraybuffer',
+            timeout: 30000
+          });
+          outputs.push({ data: Buffer.from(view.data), mimeType: this.mimeTypeFromFilename(file.filename) });
+        }
+      }
+
+      if (outputs.length === 0) {
+        console.log('❌ [COMFYUI] Граф завершился без изображений');
+        throw new GenerationError('API не вернул изображение', 'no_image', { provider: this.name });
+      }
+
+      return {
+        images: outputs,
+        provider: this.name,
+        model: 'comfyui'
+      };
+    }
+
+    throw new GenerationError(`Timeout: граф ComfyUI не выполнен за ${Math.round(this.timeoutMs / 1000)} сек`, 'timeout', { provider: this.name });
+  }
+
+  /**
+   * Загрузить входное изображение на сервер ComfyUI, вернуть имя файла для графа
+   */
+  private async uploadImage(image: GenerationImage): Promise<string> {
+    const form = new FormData();
+    const extension = image.mimeType === 'image/png' ? 'png' : 'jpg';
+    form.append('image', new Blob([image.data], { type: image.mimeType }), `input_${crypto.randomUUID()}.${extension}`);
+    form.append('overwrite', 'true');
+
+    const response = await axios.post<any>(`${this.baseUrl}/upload/image`, form, { timeout: 60000 });
+    const { name, subfolder } = response.data;
+    return subfolder ? `${subfolder}/${name}` : name;
+  }
+
+  private fillPlaceholders(node: any, prompt: string, imageNames: string[]): any {
+    if (typeof node === 'string') {
+      return node
+        .replace(/\{\{prompt\}\}/g, prompt)
+        .replace(/\{\{image_(\d+)\}\}/g, (match, index) => imageNames[parseInt(index)] ?? match);
+    }
+    if (Array.isArray(node)) {
+      return node.map(item => this.fillPlaceholders(item, prompt, imageNames));
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, this.fillPlaceholders(value, prompt, imageNames)]));
+    }
+    return node;
+  }
+
+  private mimeTypeFromFilename(filename: string): string {
+    const lower = filename.toLowerCase();
+    if (lower.endsWith('.png')) return 'image/png';
+    if (lower.endsWith('.webp')) return 'image/webp';
+    return 'image/jpeg';
+  }
+}
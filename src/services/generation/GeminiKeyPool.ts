@@ -0,0 +1,140 @@
+import { GoogleGenAI } from '@google/genai';
+import { GenerationError } from './GenerationError';
+
+export interface GeminiKeyStats {
+  id: string; // номер ключа в конфигурации
+  key: string; // только последние символы ключа
+  requests: number;
+  successes: number;
+  failures: number;
+  rateLimited: number; // ответов 429 / RESOURCE_EXHAUSTED
+  totalTokens: number;
+  lastUsedAt?: Date;
+  benchedUntil?: Date; // ключ временно не используется
+  benchReason?: string;
+}
+
+export interface GeminiKey {
+  id: string; // состояние ключа хранится по номеру: последние символы у разных ключей могут совпасть
+  label: string; // для логов и статистики
+  client: GoogleGenAI;
+}
+
+interface KeyState extends GeminiKey {
+  stats: Omit<GeminiKeyStats, 'id' | 'key' | 'benchedUntil'>;
+  benchedUntil: number;
+}
+
+/**
+ * Пул API ключей Gemini
+ * Ключи задаются через GEMINI_API_KEYS (через запятую) и/или GEMINI_API_KEY.
+ * Запросы распределяются по кругу; ключ, получивший 429 или отказ в доступе, временно не используется
+ */
+export class GeminiKeyPool {
+  private static readonly BENCH_MS = parseInt(process.env.GEMINI_KEY_BENCH_MS || '60000'); // 1 минута по умолчанию
+  private static readonly AUTH_BENCH_MS = parseInt(process.env.GEMINI_KEY_AUTH_BENCH_MS || '3600000'); // 1 час по умолчанию
+
+  private static keys: KeyState[] | null = null;
+  private static cursor = 0;
+
+  static isConfigured(): boolean {
+    return this.getConfiguredKeys().length > 0;
+  }
+
+  /**
+   * Следующий доступный ключ по кругу
+   * Если все ключи временно отключены, бросает ошибку rate_limited со временем до освобождения ближайшего
+   */
+  static next(): GeminiKey {
+    const keys = this.getKeys();
+    const now = Date.now();
+
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[(this.cursor + i) % keys.length];
+      if (key.benchedUntil <= now) {
+        this.cursor = (this.cursor + i + 1) % keys.length;
+        key.stats.requests++;
+        key.stats.lastUsedAt = new Date();
+        return key;
+      }
+    }
+
+    const retryAfterMs = Math.min(...keys.map(key => key.benchedUntil)) - now;
+    throw new GenerationError(
+      `Все ключи Gemini временно отключены (${keys.length}), ближайший освободится через ${Math.ceil(retryAfterMs / 1000)} сек`,
+      'rate_limited',
+      { provider: 'gemini', retryAfterMs }
+    );
+  }
+
+  static recordSuccess(id: string, totalTokens?: number): void {
+    const key = this.findKey(id);
+    if (key) {
+      key.stats.successes++;
+      key.stats.totalTokens += totalTokens || 0;
+    }
+  }
+
+  /**
+   * Учесть ошибку ключа: при 429 ключ отключается на retryAfterMs (или GEMINI_KEY_BENCH_MS),
+   * при отказе в доступе — на GEMINI_KEY_AUTH_BENCH_MS
+   */
+  static recordFailure(id: string, category: string, retryAfterMs?: number): void {
+    const key = this.findKey(id);
+    if (!key) {
+      return;
+    }
+
+    key.stats.failures++;
+    if (category === 'rate_limited') {
+      key.stats.rateLimited++;
+      this.bench(key, retryAfterMs || this.BENCH_MS, 'rate_limited');
+    } else if (category === 'auth') {
+      this.bench(key, this.AUTH_BENCH_MS, 'auth');
+    }
+  }
+
+  static getStats(): GeminiKeyStats[] {
+    const now = Date.now();
+    return this.getKeys().map(key => ({
+      id: key.id,
+      key: key.label,
+      ...key.stats,
+      benchedUntil: key.benchedUntil > now ? new Date(key.benchedUntil) : undefined,
+      benchReason: key.benchedUntil > now ? key.stats.benchReason : undefined
+    }));
+  }
+
+  private static bench(key: KeyState, ms: number, reason: string): void {
+    key.benchedUntil = Math.max(key.benchedUntil, Date.now() + ms);
+    key.stats.benchReason = reason;
+    console.warn(`🔑 [GEMINI] Ключ ${key.label} отключен на ${ms}мс (${reason})`);
+  }
+
+  private static findKey(id: string): KeyState | undefined {
+    return this.getKeys().find(key => key.id === id);
+  }
+
+  private static getConfiguredKeys(): string[] {
+    const keys = [
+      ...(process.env.GEMINI_API_KEYS || '').split(','),
+      process.env.GEMINI_API_KEY || ''
+    ].map(key => key.trim()).filter(Boolean);
+    return Array.from(new Set(keys));
+  }
+
+  private static getKeys(): KeyState[] {
+    if (!this.keys) {
+      // Без ключей остается заглушка: запрос завершится ошибкой авторизации, как и раньше
+      const apiKeys = this.getConfiguredKeys();
+      this.keys = (apiKeys.length > 0 ? apiKeys : ['test_key']).map((apiKey, index) => ({
+        id: `#${index + 1}`,
+        label: `#${index + 1} ...${apiKey.slice(-4)}`,
+        client: new GoogleGenAI({ apiKey }),
+        benchedUntil: 0,
+        stats: { requests: 0, successes: 0, failures: 0, rateLimited: 0, totalTokens: 0 }
+      }));
+    }
+    return this.keys;
+  }
+}
@@ -0,0 +1,164 @@
+import { GenerateContentResponse } from '@google/genai';
+import {
+  ImageGenerationProvider,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  GenerationImage
+} from './ImageGenerationProvider';
+import { GenerationError } from './GenerationError';
+import { GeminiKeyPool } from './GeminiKeyPool';
+import { GenerationLimiterService, LimitSpec } from '../GenerationLimiterService';
+import { ResilienceService } from '../ResilienceService';
+
+// finishReason, с которым Gemini отказывается генерировать по правилам безопасности
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_SAFETY', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+/**
+ * Генерация изображений через Gemini (generateContent с изображениями во входе и выходе)
+ */
+export class GeminiProvider implements ImageGenerationProvider {
+  readonly name = 'gemini' as const;
+
+  private readonly model = process.env.GEMINI_IMAGE_MODEL || 'gemini-2.5-flash-image-preview';
+  private readonly timeoutMs = parseInt(process.env.GEMINI_REQUEST_TIMEOUT_MS || '180000');
+
+  // Ограничения вызовов (см. docs/GENERATION_PROVIDERS.md), 0 — без ограничения
+  private readonly modelMaxConcurrent = parseInt(process.env.GEMINI_MODEL_MAX_CONCURRENT || '4');
+  private readonly modelRequestsPerMinute = parseInt(process.env.GEMINI_MODEL_REQUESTS_PER_MINUTE || '0');
+  private readonly keyMaxConcurrent = parseInt(process.env.GEMINI_KEY_MAX_CONCURRENT || '0');
+  private readonly keyRequestsPerMinute = parseInt(process.env.GEMINI_KEY_REQUESTS_PER_MINUTE || '60');
+  private readonly rateLimitPauseMs = parseInt(process.env.GEMINI_RATE_LIMIT_PAUSE_MS || '5000');
+
+  isConfigured(): boolean {
+    return GeminiKeyPool.isConfigured();
+  }
+
+  async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    const imageParts = (request.images || []).map(image => ({
+      inlineData: {
+        mimeType: image.mimeType,
+        data: image.data.toString('base64')
+      }
+    }));
+    const textPart = { text: request.prompt };
+    const parts = request.promptPosition === 'after_images'
+      ? [...imageParts, textPart]
+      : [textPart, ...imageParts];
+
+    // Ключ выбирается, когда модель готова принять вызов: к этому моменту ключ мог быть отключен
+    const response = await GenerationLimiterService.run([this.getModelLimit()], async () => {
+      const key = GeminiKeyPool.next();
+      const keyLimit = this.getKeyLimit(key.id);
+      return GenerationLimiterService.run([keyLimit], async (): Promise<GenerateContentResponse> => {
+        console.log(`📸 [GEMINI] Отправляем запрос к ${this.model} с ключом ${key.label} (изображений: ${imageParts.length})...`);
+
+        // Один запрос ограничен по времени, повторы выполняет вызывающий сервис.
+        // По таймауту HTTP запрос прерывается, и слоты модели и ключа освобождаются только после его завершения
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+        try {
+          const result = await key.client.models.generateContent({
+            model: this.model,
+            contents: [{ role: 'user', parts }],
+            config: { abortSignal: controller.signal }
+          });
+          GeminiKeyPool.recordSuccess(key.id, result.usageMetadata?.totalTokenCount);
+          return result;
+        } catch (caught) {
+          const error = controller.signal.aborted
+            ? new GenerationError(`Timeout: запрос превысил ${Math.round(this.timeoutMs / 1000)} сек`, 'timeout', { provider: this.name })
+            : caught;
+          const classification = ResilienceService.classifyError(error);
+          GeminiKeyPool.recordFailure(key.id, classification.category, classification.retryAfterMs);
+          // Квота ключа исчерпана: вызовы, уже ждущие этот ключ, ждут и паузу, а не получают такой же 429
+          if (classification.category === 'rate_limited') {
+            GenerationLimiterService.pause(keyLimit.name, classification.retryAfterMs || this.rateLimitPauseMs);
+          }
+          throw error;
+        } finally {
+          clearTimeout(timer);
+        }
+      });
+    });
+
+    console.log('📸 [GEMINI] Получен ответ от API, кандидатов:', response.candidates?.length || 0);
+
+    if (response.promptFeedback?.blockReason) {
+      console.log('❌ [GEMINI] Запрос заблокирован:', response.promptFeedback.blockReason);
+      throw new GenerationError(`Запрос отклонен моделью: ${response.promptFeedback.blockReason}`, 'safety_block', { provider: this.name, code: response.promptFeedback.blockReason });
+    }
+
+    if (!response.candidates || response.candidates.length === 0) {
+      console.log('❌ [GEMINI] API не вернул кандидатов');
+      throw new GenerationError('API не вернул результат', 'no_image', { provider: this.name });
+    }
+
+    const candidate = response.candidates[0];
+    if (candidate.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+      console.log('❌ [GEMINI] Генерация остановлена:', candidate.finishReason);
+      throw new GenerationError(`Генерация отклонена моделью: ${candidate.finishReason}`, 'safety_block', { provider: this.name, code: candidate.finishReason });
+    }
+
+    if (!candidate.content || !candidate.content.parts) {
+      console.log('❌ [GEMINI] Неверная структура ответа - отсутствует content.parts');
+      throw new GenerationError('Неверная структура ответа API', 'no_image', { provider: this.name });
+    }
+
+    const images: GenerationImage[] = [];
+    const texts: string[] = [];
+    for (const part of candidate.content.parts) {
+      if (part.inlineData && part.inlineData.data) {
+        console.log('✅ [GEMINI] Найдено изображение, MIME:', part.inlineData.mimeType);
+        images.push({
+          data: Buffer.from(part.inlineData.data, 'base64'),
+          mimeType: part.inlineData.mimeType || 'image/jpeg'
+        });
+      } else if (part.text) {
+        texts.push(part.text);
+      }
+    }
+
+    const text = texts.length > 0 ? texts.join('\n') : undefined;
+    if (images.length === 0) {
+      // Например, модель отказалась генерировать и ответила текстом
+      console.log('❌ [GEMINI] В ответе не найдено изображение', text ? `, текст: ${text.substring(0, 100)}...` : '');
+      throw new GenerationError('API не вернул изображение', 'no_image', { provider: this.name });
+    }
+
+    const usage = response.usageMetadata
+      ? {
+        promptTokens: response.usageMetadata.promptTokenCount,
+        outputTokens: response.usageMetadata.candidatesTokenCount,
+        totalTokens: response.usageMetadata.totalTokenCount
+      }
+      : undefined;
+
+    return {
+      images,
+      text,
+      usage,
+      provider: this.name,
+      model: this.model
+    };
+  }
+
+  private getModelLimit(): LimitSpec {
+    return {
+      name: `${this.name}:model:${this.model}`,
+      maxConcurrent: this.modelMaxConcurrent,
+      requestsPerMinute: this.modelRequestsPerMinute
+    };
+  }
+
+  /**
+   * Ограничение на API ключ (в имени — номер ключа, сам ключ не раскрывается)
+   */
+  private getKeyLimit(keyId: string): LimitSpec {
+    return {
+      name: `${this.name}:key:${keyId}`,
+      maxConcurrent: this.keyMaxConcurrent,
+      requestsPerMinute: this.keyRequestsPerMinute
+    };
+  }
+}
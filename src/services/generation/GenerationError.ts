@@ -0,0 +1,34 @@
+/**
+ * Категория ошибки генерации: от нее зависит, повторять ли запрос и считать ли ошибку сбоем провайдера
+ */
+export type GenerationErrorCategory =
+  | 'rate_limited' // 429, RESOURCE_EXHAUSTED — квота или лимит скорости
+  | 'timeout' // запрос не уложился во время
+  | 'transient' // 5xx, UNAVAILABLE, сетевые ошибки
+  | 'safety_block' // модель отказалась генерировать по правилам безопасности
+  | 'no_image' // ответ без изображения
+  | 'invalid_request' // 400, INVALID_ARGUMENT и т.п.
+  | 'auth' // 401/403, неверный или заблокированный ключ
+  | 'circuit_open' // провайдер временно отключен circuit breaker
+  | 'unknown';
+
+export interface GenerationErrorDetails {
+  status?: number; // HTTP статус
+  code?: string; // gRPC статус или код сетевой ошибки
+  retryAfterMs?: number; // сколько ждать по ответу провайдера (Retry-After, RetryInfo)
+  provider?: string;
+}
+
+/**
+ * Ошибка провайдера генерации с известной категорией
+ */
+export class GenerationError extends Error {
+  constructor(
+    message: string,
+    readonly category: GenerationErrorCategory,
+    readonly details: GenerationErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+}
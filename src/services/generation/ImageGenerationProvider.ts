@@ -0,0 +1,46 @@
+export type ImageGenerationProviderName = 'gemini' | 'openai' | 'stability' | 'comfyui' | 'mock';
+
+/**
+ * Тип обработки, для которой вызывается генерация
+ */
+export type GenerationServiceType = 'photo_restore' | 'photo_stylize' | 'era_style' | 'poet_style' | 'image_generate' | 'image_generate_img2img';
+
+export interface GenerationImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  images?: GenerationImage[]; // входные изображения (фото пользователя, референсы)
+  promptPosition?: 'before_images' | 'after_images'; // по умолчанию промпт идет перед изображениями
+}
+
+export interface GenerationUsage {
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ImageGenerationResult {
+  images: GenerationImage[]; // хотя бы одно изображение
+  text?: string; // текстовая часть ответа модели, если есть
+  usage?: GenerationUsage;
+  provider: ImageGenerationProviderName;
+  model: string;
+}
+
+/**
+ * Провайдер генерации изображений: промпт и изображения на входе, изображения и текст на выходе
+ * Если модель не вернула изображение, провайдер бросает ошибку
+ */
+export interface ImageGenerationProvider {
+  readonly name: ImageGenerationProviderName;
+
+  /**
+   * Заданы ли ключи и адреса, без которых провайдер не может работать
+   */
+  isConfigured(): boolean;
+
+  generate(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+}
@@ -0,0 +1,100 @@
+import sharp from 'sharp';
+import {
+  ImageGenerationProvider,
+  ImageGenerationRequest,
+  ImageGenerationResult
+} from './ImageGenerationProvider';
+import { GenerationError } from './GenerationError';
+
+type MockOutcome = 'ok' | '429' | '500' | 'timeout' | 'no_image';
+
+const MOCK_OUTCOMES: MockOutcome[] = ['ok', '429', '500', 'timeout', 'no_image'];
+
+/**
+ * Фейковый провайдер для локальной разработки и тестов, без обращения к внешним API
+ * Возвращает тонированную копию первого входного изображения с водяным знаком MOCK (или пустой холст),
+ * задержку и ошибки можно задать через env или маркер [mock:<исход>] в промпте
+ */
+export class MockProvider implements ImageGenerationProvider {
+  readonly name = 'mock' as const;
+
+  private readonly latencyMs = parseInt(process.env.GENERATION_MOCK_LATENCY_MS || '500');
+  private readonly timeoutMs = parseInt(process.env.GENERATION_MOCK_TIMEOUT_MS || '5000');
+  // Исходы вызовов по кругу, например "429,500,ok": первый вызов — 429, второй — 500, третий — успех, дальше заново
+  private readonly sequence = this.parseSequence(process.env.GENERATION_MOCK_SEQUENCE || 'ok');
+
+  private calls = 0;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    const outcome = this.nextOutcome(request.prompt);
+    console.log(`🧪 [MOCK_GENERATION] Вызов ${this.calls}: ${outcome} (изображений: ${request.images?.length || 0})`);
+
+    if (outcome === 'timeout') {
+      await this.sleep(this.timeoutMs);
+      throw new GenerationError(`Timeout: запрос превысил ${Math.round(this.timeoutMs / 1000)} сек (mock)`, 'timeout', { provider: this.name });
+    }
+
+    await this.sleep(this.latencyMs);
+
+    if (outcome === '429') {
+      throw new GenerationError('429 Too Many Requests: rate limit exceeded (mock)', 'rate_limited', { provider: this.name, status: 429 });
+    }
+    if (outcome === '500') {
+      throw new GenerationError('500 Internal Server Error (mock)', 'transient', { provider: this.name, status: 500 });
+    }
+    if (outcome === 'no_image') {
+      throw new GenerationError('API не вернул изображение', 'no_image', { provider: this.name });
+    }
+
+    return {
+      images: [{ data: await this.render(request), mimeType: 'image/png' }],
+      text: 'mock',
+      usage: { promptTokens: request.prompt.length, outputTokens: 0, totalTokens: request.prompt.length },
+      provider: this.name,
+      model: 'mock'
+    };
+  }
+
+  /**
+   * Маркер в промпте важнее последовательности из env
+   */
+  private nextOutcome(prompt: string): MockOutcome {
+    this.calls++;
+
+    const marker = prompt.match(/\[mock:(ok|429|500|timeout|no_image)\]/);
+    if (marker) {
+      return marker[1] as MockOutcome;
+    }
+
+    return this.sequence[(this.calls - 1) % this.sequence.length];
+  }
+
+  private async render(request: ImageGenerationRequest): Promise<Buffer> {
+    const input = request.images?.[0];
+    const base = input
+      ? sharp(input.data).resize(1024, 1024, { fit: 'inside' }).tint({ r: 255, g: 200, b: 140 })
+      : sharp({ create: { width: 1024, height: 1024, channels: 3, background: { r: 200, g: 200, b: 200 } } });
+
+    const { data, info } = await base.png().toBuffer({ resolveWithObject: true });
+    const watermark = Buffer.from(
+      `<svg width="${info.width}" height="${info.height}">
+        <text x="50%" y="50%" font-size="${Math.round(info.width / 6)}" text-anchor="middle" fill="white" fill-opacity="0.6" font-family="sans-serif">MOCK</text>
+      </svg>`
+    );
+
+    return await sharp(data).composite([{ input: watermark }]).png().toBuffer();
+  }
+
+  private parseSequence(value: string): MockOutcome[] {
+    const outcomes = value.split(',').map(item => item.trim()).filter((item): item is MockOutcome => MOCK_OUTCOMES.includes(item as MockOutcome));
+    return outcomes.length > 0 ? outcomes : ['ok'];
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
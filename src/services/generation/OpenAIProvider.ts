@@ -0,0 +1,82 @@
+import axios from 'axios';
+import {
+  ImageGenerationProvider,
+  ImageGenerationRequest,
+  ImageGenerationResult
+} from './ImageGenerationProvider';
+import { GenerationError } from './GenerationError';
+
+/**
+ * Генерация изображений через OpenAI Images API
+ * Без входных изображений — /images/generations, с изображениями — /images/edits
+ */
+export class OpenAIProvider implements ImageGenerationProvider {
+  readonly name = 'openai' as const;
+
+  private readonly apiKey = process.env.OPENAI_API_KEY || '';
+  private readonly baseUrl = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+  private readonly model = process.env.OPENAI_IMAGE_MODEL || 'gpt-image-1';
+  private readonly size = process.env.OPENAI_IMAGE_SIZE || '1024x1024';
+  private readonly timeoutMs = parseInt(process.env.OPENAI_REQUEST_TIMEOUT_MS || '180000');
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    const images = request.images || [];
+    console.log(`🤖 [OPENAI] Отправляем запрос к ${this.model} (изображений: ${images.length})...`);
+
+    let response;
+    if (images.length === 0) {
+      response = await axios.post<any>(`${this.baseUrl}/images/generations`, {
+        model: this.model,
+        prompt: request.prompt,
+        size: this.size,
+        n: 1
+      }, {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        timeout: this.timeoutMs
+      });
+    } else {
+      const form = new FormData();
+      form.append('model', this.model);
+      form.append('prompt', request.prompt);
+      form.append('size', this.size);
+      images.forEach((image, index) => {
+        form.append('image[]', new Blob([image.data], { type: image.mimeType }), `image_${index}.${this.extension(image.mimeType)}`);
+      });
+
+      response = await axios.post<any>(`${this.baseUrl}/images/edits`, form, {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        timeout: this.timeoutMs
+      });
+    }
+
+    const b64 = response.data?.data?.[0]?.b64_json;
+    if (!b64) {
+      console.log('❌ [OPENAI] В ответе не найдено изображение');
+      throw new GenerationError('API не вернул изображение', 'no_image', { provider: this.name });
+    }
+
+    const usage = response.data.usage
+      ? {
+        promptTokens: response.data.usage.input_tokens,
+        outputTokens: response.data.usage.output_tokens,
+        totalTokens: response.data.usage.total_tokens
+      }
+      : undefined;
+
+    return {
+      images: [{ data: Buffer.from(b64, 'base64'), mimeType: 'image/png' }],
+      text: response.data.data[0].revised_prompt,
+      usage,
+      provider: this.name,
+      model: this.model
+    };
+  }
+
+  private extension(mimeType: string): string {
+    return mimeType === 'image/png' ? 'png' : mimeType === 'image/webp' ? 'webp' : 'jpg';
+  }
+}
@@ -0,0 +1,68 @@
+import axios from 'axios';
+import {
+  ImageGenerationProvider,
+  ImageGenerationRequest,
+  ImageGenerationResult
+} from './ImageGenerationProvider';
+import { GenerationError } from './GenerationError';
+
+/**
+ * Генерация изображений через Stability AI (Stable Image API)
+ * Без входных изображений — text-to-image, с изображением — image-to-image по первому изображению
+ */
+export class StabilityProvider implements ImageGenerationProvider {
+  readonly name = 'stability' as const;
+
+  private readonly apiKey = process.env.STABILITY_API_KEY || '';
+  private readonly baseUrl = process.env.STABILITY_BASE_URL || 'https://api.stability.ai/v2beta/stable-image/generate';
+  private readonly model = process.env.STABILITY_IMAGE_MODEL || 'sd3.5-large';
+  private readonly strength = process.env.STABILITY_IMAGE_STRENGTH || '0.6'; // насколько сильно менять входное изображение (0..1)
+  private readonly timeoutMs = parseInt(process.env.STABILITY_REQUEST_TIMEOUT_MS || '180000');
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    const images = request.images || [];
+    console.log(`🤖 [STABILITY] Отправляем запрос к ${this.model} (изображений: ${images.length})...`);
+
+    const form = new FormData();
+    form.append('model', this.model);
+    form.append('prompt', request.prompt);
+    form.append('output_format', 'png');
+
+    if (images.length > 0) {
+      if (images.length > 1) {
+        console.log(`⚠️ [STABILITY] Поддерживается одно входное изображение, остальные (${images.length - 1}) не отправляются`);
+      }
+      form.append('mode', 'image-to-image');
+      form.append('strength', this.strength);
+      form.append('image', new Blob([images[0].data], { type: images[0].mimeType }), 'image');
+    }
+
+    const response = await axios.post<any>(`${this.baseUrl}/sd3`, form, {
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        Accept: 'application/json'
+      },
+      timeout: this.timeoutMs
+    });
+
+    if (response.data?.finish_reason === 'CONTENT_FILTERED') {
+      console.log('❌ [STABILITY] Результат отклонен фильтром контента');
+      throw new GenerationError('API не вернул изображение: отклонено фильтром контента', 'safety_block', { provider: this.name, code: 'CONTENT_FILTERED' });
+    }
+
+    if (!response.data?.image) {
+      console.log('❌ [STABILITY] В ответе не найдено изображение');
+      throw new GenerationError('API не вернул изображение', 'no_image', { provider: this.name });
+    }
+
+    return {
+      images: [{ data: Buffer.from(response.data.image, 'base64'), mimeType: 'image/png' }],
+      provider: this.name,
+      model: this.model
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import {
+  PaymentProvider,
+  PaymentMethod,
+  CreateInvoiceParams,
+  CreatedInvoice,
+  WebhookRequest,
+  WebhookEvent,
+  RefundParams,
+  RefundResult
+} from './PaymentProvider';
+
+/**
+ * Фейковый провайдер для локальной разработки и тестов
+ * Счет не выставляется никуда, оплату подтверждает webhook, подписанный PAYMENT_CALLBACK_SECRET
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+
+  private readonly callbackSecret = process.env.PAYMENT_CALLBACK_SECRET || 'test_payment_secret';
+  private readonly publicUrl = process.env.PUBLIC_API_URL || 'http://localhost:3001';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  supports(method: PaymentMethod): boolean {
+    return true;
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice> {
+    console.log(`🧪 [FAKE_PAYMENT] Счет ${params.paymentId} на ${params.amount} RUB (${params.paymentMethod})`);
+    return {
+      success: true,
+      providerPaymentId: `fake_${params.paymentId}`,
+      confirmationUrl: `${this.publicUrl}/fake-pay/${params.paymentId}`
+    };
+  }
+
+  /**
+   * Заголовок X-Payment-Signature: HMAC-SHA256 (hex) от сырого тела запроса
+   */
+  async verifyWebhook(request: WebhookRequest): Promise<boolean> {
+    const signatureHeader = request.headers['x-payment-signature'];
+    const signature = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader;
+
+    if (!request.rawBody || !signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(crypto.createHmac('sha256', this.callbackSecret).update(request.rawBody).digest('hex'));
+    const received = Buffer.from(signature);
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  async parseWebhook(request: WebhookRequest): Promise<WebhookEvent | null> {
+    const { payment_id, status, amount } = request.body || {};
+    if (!payment_id || !['succeeded', 'failed', 'cancelled'].includes(status)) {
+      return null;
+    }
+
+    return {
+      paymentId: payment_id,
+      providerPaymentId: `fake_${payment_id}`,
+      status,
+      amount: amount !== undefined ? Number(amount) : undefined
+    };
+  }
+
+  async refund(params: RefundParams): Promise<RefundResult> {
+    console.log(`🧪 [FAKE_PAYMENT] Возврат ${params.amount} RUB по платежу ${params.paymentId}`);
+    return { success: true, providerRefundId: `fake_refund_${params.paymentId}` };
+  }
+}
@@ -0,0 +1,111 @@
+import { IncomingHttpHeaders } from 'http';
+
+export type PaymentMethod = 'card' | 'qiwi' | 'yoomoney' | 'sberpay' | 'tinkoff' | 'telegram_stars';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['card', 'qiwi', 'yoomoney', 'sberpay', 'tinkoff', 'telegram_stars'];
+
+export type PaymentProviderName = 'yookassa' | 'tinkoff' | 'qiwi' | 'telegram_stars' | 'fake';
+
+export interface CreateInvoiceParams {
+  paymentId: string; // наш payment_id (topup_...)
+  amount: number; // RUB
+  description: string;
+  paymentMethod: PaymentMethod;
+  userId: number;
+  returnUrl?: string;
+}
+
+export interface CreatedInvoice {
+  success: boolean;
+  providerPaymentId?: string;
+  confirmationUrl?: string;
+  error?: string;
+}
+
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  rawBody?: Buffer;
+  body: any;
+  ip?: string;
+}
+
+export interface WebhookEvent {
+  paymentId?: string; // наш payment_id, если провайдер возвращает его
+  providerPaymentId?: string;
+  status: 'pending' | 'succeeded' | 'failed' | 'cancelled';
+  amount?: number; // RUB
+  checkoutQueryId?: string; // запрос подтверждения перед оплатой (pre_checkout_query в Telegram)
+}
+
+export interface RefundParams {
+  paymentId: string;
+  refundId: string; // payment_id и номер возврата: ключ идемпотентности у провайдера
+  providerPaymentId: string;
+  amount: number; // RUB
+  totalAmount: number; // полная сумма платежа, RUB
+  telegramId?: number; // плательщик в Telegram (нужен для возврата Stars)
+}
+
+export interface RefundResult {
+  success: boolean;
+  providerRefundId?: string;
+  error?: string;
+}
+
+/**
+ * Что записать в лог об ошибке запроса к провайдеру: тело ответа провайдера, если оно есть, иначе саму ошибку
+ */
+export const describeProviderError = (error: unknown): unknown => {
+  const response = typeof error === 'object' && error !== null && 'response' in error
+    ? (error as { response?: { data?: unknown } }).response
+    : undefined;
+  return response?.data || error;
+};
+
+/**
+ * Платежный провайдер: выставление счета, проверка webhook и возврат средств
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  /**
+   * Ответ, который провайдер ожидает на успешно обработанный webhook (например, "OK" у Тинькофф)
+   * Если не задан, отвечаем JSON
+   */
+  readonly webhookAcknowledgement?: string;
+
+  /**
+   * Заданы ли ключи провайдера; ненастроенный провайдер не используется, а его webhook не принимается
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Поддерживает ли провайдер способ оплаты
+   */
+  supports(method: PaymentMethod): boolean;
+
+  /**
+   * Создать счет на оплату
+   */
+  createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice>;
+
+  /**
+   * Проверить подлинность webhook (подпись, токен или IP провайдера)
+   */
+  verifyWebhook(request: WebhookRequest): Promise<boolean>;
+
+  /**
+   * Разобрать webhook в событие платежа (null — событие не относится к оплате)
+   */
+  parseWebhook(request: WebhookRequest): Promise<WebhookEvent | null>;
+
+  /**
+   * Вернуть средства по платежу
+   */
+  refund(params: RefundParams): Promise<RefundResult>;
+
+  /**
+   * Ответить на запрос подтверждения перед оплатой (только для провайдеров с checkoutQueryId)
+   */
+  answerCheckout?(checkoutQueryId: string, ok: boolean, errorMessage?: string): Promise<void>;
+}
@@ -0,0 +1,118 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import {
+  PaymentProvider,
+  describeProviderError,
+  PaymentMethod,
+  CreateInvoiceParams,
+  CreatedInvoice,
+  WebhookRequest,
+  WebhookEvent,
+  RefundParams,
+  RefundResult
+} from './PaymentProvider';
+
+/**
+ * QIWI P2P счета (API bills v1)
+ * Уведомления подписываются заголовком X-Api-Signature-SHA256 (HMAC-SHA256 секретным ключом)
+ */
+export class QiwiProvider implements PaymentProvider {
+  readonly name = 'qiwi' as const;
+
+  private readonly baseUrl = process.env.QIWI_API_URL || 'https://api.qiwi.com/partner/bill/v1';
+  private readonly secretKey = process.env.QIWI_SECRET_KEY || '';
+  private readonly billLifetimeMinutes = parseInt(process.env.QIWI_BILL_LIFETIME_MINUTES || '60');
+
+  isConfigured(): boolean {
+    return !!this.secretKey;
+  }
+
+  supports(method: PaymentMethod): boolean {
+    return method === 'qiwi';
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice> {
+    try {
+      const expiration = new Date(Date.now() + this.billLifetimeMinutes * 60 * 1000);
+
+      const response = await axios.put<any>(
+        `${this.baseUrl}/bills/${encodeURIComponent(params.paymentId)}`,
+        {
+          amount: { currency: 'RUB', value: params.amount.toFixed(2) },
+          comment: params.description.substring(0, 255),
+          expirationDateTime: expiration.toISOString().replace(/\.\d{3}Z$/, '+00:00'),
+          customFields: { userId: String(params.userId) }
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.secretKey}`,
+            'Accept': 'application/json'
+          },
+          timeout: 15000
+        }
+      );
+
+      const payUrl: string | undefined = response.data.payUrl;
+      return {
+        success: true,
+        providerPaymentId: response.data.billId,
+        confirmationUrl: payUrl && params.returnUrl
+          ? `${payUrl}&successUrl=${encodeURIComponent(params.returnUrl)}`
+          : payUrl
+      };
+    } catch (error) {
+      console.error('❌ [QIWI] Ошибка создания счета:', describeProviderError(error));
+      return { success: false, error: 'Не удалось создать счет QIWI' };
+    }
+  }
+
+  async verifyWebhook(request: WebhookRequest): Promise<boolean> {
+    const signatureHeader = request.headers['x-api-signature-sha256'];
+    const signature = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader;
+    const bill = request.body?.bill;
+
+    if (!this.isConfigured() || !signature || !bill) {
+      return false;
+    }
+
+    const data = [
+      bill.amount?.currency,
+      bill.amount?.value,
+      bill.billId,
+      bill.siteId,
+      bill.status?.value
+    ].join('|');
+
+    const expected = Buffer.from(crypto.createHmac('sha256', this.secretKey).update(data).digest('hex'));
+    const received = Buffer.from(signature);
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  async parseWebhook(request: WebhookRequest): Promise<WebhookEvent | null> {
+    const bill = request.body?.bill;
+    if (!bill?.billId) {
+      return null;
+    }
+
+    const statusMap: Record<string, WebhookEvent['status']> = {
+      PAID: 'succeeded',
+      WAITING: 'pending',
+      REJECTED: 'cancelled',
+      EXPIRED: 'cancelled'
+    };
+
+    return {
+      paymentId: bill.billId,
+      providerPaymentId: bill.billId,
+      status: statusMap[bill.status?.value] || 'failed',
+      amount: parseFloat(bill.amount?.value)
+    };
+  }
+
+  async refund(params: RefundParams): Promise<RefundResult> {
+    // API P2P счетов QIWI не поддерживает возвраты
+    console.warn(`⚠️ [QIWI] Возврат по счету ${params.providerPaymentId} невозможен через API`);
+    return { success: false, error: 'QIWI не поддерживает возврат через API' };
+  }
+}
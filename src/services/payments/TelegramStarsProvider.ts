@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { TelegramBotService } from '../TelegramBotService';
+import {
+  PaymentProvider,
+  PaymentMethod,
+  CreateInvoiceParams,
+  CreatedInvoice,
+  WebhookRequest,
+  WebhookEvent,
+  RefundParams,
+  RefundResult
+} from './PaymentProvider';
+
+/**
+ * Оплата в Telegram Stars через бота
+ * Webhook — это update Bot API (pre_checkout_query и message.successful_payment),
+ * подлинность проверяется заголовком X-Telegram-Bot-Api-Secret-Token
+ */
+export class TelegramStarsProvider implements PaymentProvider {
+  readonly name = 'telegram_stars' as const;
+
+  private readonly webhookSecret = process.env.TELEGRAM_WEBHOOK_SECRET || '';
+  private readonly rubPerStar = parseFloat(process.env.TELEGRAM_STARS_RUB_RATE || '1.3'); // сколько RUB начисляется за 1 Star
+
+  isConfigured(): boolean {
+    return !!this.webhookSecret;
+  }
+
+  supports(method: PaymentMethod): boolean {
+    return method === 'telegram_stars';
+  }
+
+  /**
+   * Перевести Stars в сумму пополнения в RUB
+   */
+  starsToRub(stars: number): number {
+    return Math.round(stars * this.rubPerStar * 100) / 100;
+  }
+
+  /**
+   * Перевести сумму в RUB в количество Stars
+   */
+  rubToStars(amount: number): number {
+    return Math.round(amount / this.rubPerStar);
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice> {
+    const stars = this.rubToStars(params.amount);
+    if (stars < 1) {
+      return { success: false, error: 'Слишком маленькая сумма для оплаты в Stars' };
+    }
+
+    const invoiceLink = await TelegramBotService.createStarsInvoiceLink(
+      'Пополнение баланса',
+      `${params.description}: ${params.amount} RUB`,
+      params.paymentId,
+      stars
+    );
+
+    if (!invoiceLink) {
+      return { success: false, error: 'Не удалось создать счет в Telegram Stars' };
+    }
+
+    // telegram_payment_charge_id появится только после оплаты (successful_payment)
+    return { success: true, confirmationUrl: invoiceLink };
+  }
+
+  async verifyWebhook(request: WebhookRequest): Promise<boolean> {
+    const tokenHeader = request.headers['x-telegram-bot-api-secret-token'];
+    const token = Array.isArray(tokenHeader) ? tokenHeader[0] : tokenHeader;
+
+    if (!this.webhookSecret || !token) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.webhookSecret);
+    const received = Buffer.from(token);
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  async parseWebhook(request: WebhookRequest): Promise<WebhookEvent | null> {
+    const update = request.body || {};
+
+    const preCheckoutQuery = update.pre_checkout_query;
+    if (preCheckoutQuery) {
+      if (preCheckoutQuery.currency !== 'XTR') {
+        await this.answerCheckout(preCheckoutQuery.id, false, 'Поддерживается только оплата в Stars');
+        return null;
+      }
+
+      return {
+        paymentId: preCheckoutQuery.invoice_payload,
+        status: 'pending',
+        amount: this.starsToRub(preCheckoutQuery.total_amount),
+        checkoutQueryId: preCheckoutQuery.id
+      };
+    }
+
+    const successfulPayment = update.message?.successful_payment;
+    if (successfulPayment && successfulPayment.currency === 'XTR') {
+      return {
+        paymentId: successfulPayment.invoice_payload,
+        providerPaymentId: successfulPayment.telegram_payment_charge_id,
+        status: 'succeeded',
+        amount: this.starsToRub(successfulPayment.total_amount)
+      };
+    }
+
+    // Остальные update (обычные сообщения, refunded_payment) к пополнению не относятся
+    return null;
+  }
+
+  async refund(params: RefundParams): Promise<RefundResult> {
+    if (!params.telegramId) {
+      return { success: false, error: 'Не указан пользователь Telegram для возврата' };
+    }
+
+    if (Math.abs(params.amount - params.totalAmount) > 0.001) {
+      return { success: false, error: 'Telegram Stars поддерживает только полный возврат' };
+    }
+
+    const refunded = await TelegramBotService.refundStarPayment(params.telegramId, params.providerPaymentId);
+    return refunded
+      ? { success: true, providerRefundId: params.providerPaymentId }
+      : { success: false, error: 'Не удалось выполнить возврат Stars' };
+  }
+
+  async answerCheckout(checkoutQueryId: string, ok: boolean, errorMessage?: string): Promise<void> {
+    await TelegramBotService.answerPreCheckoutQuery(checkoutQueryId, ok, errorMessage);
+  }
+}
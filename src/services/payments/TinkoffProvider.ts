@@ -0,0 +1,161 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import {
+  PaymentProvider,
+  describeProviderError,
+  PaymentMethod,
+  CreateInvoiceParams,
+  CreatedInvoice,
+  WebhookRequest,
+  WebhookEvent,
+  RefundParams,
+  RefundResult
+} from './PaymentProvider';
+
+/**
+ * Т-Банк (Тинькофф) интернет-эквайринг, API v2
+ * Запросы и уведомления подписываются полем Token (SHA-256 от значений параметров и пароля терминала)
+ */
+export class TinkoffProvider implements PaymentProvider {
+  readonly name = 'tinkoff' as const;
+  readonly webhookAcknowledgement = 'OK';
+
+  private readonly baseUrl = process.env.TINKOFF_API_URL || 'https://securepay.tinkoff.ru/v2';
+  private readonly terminalKey = process.env.TINKOFF_TERMINAL_KEY || '';
+  private readonly password = process.env.TINKOFF_PASSWORD || '';
+
+  isConfigured(): boolean {
+    return !!this.terminalKey && !!this.password;
+  }
+
+  supports(method: PaymentMethod): boolean {
+    return ['tinkoff', 'card'].includes(method);
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice> {
+    try {
+      const payload: Record<string, any> = {
+        TerminalKey: this.terminalKey,
+        Amount: Math.round(params.amount * 100), // в копейках
+        OrderId: params.paymentId,
+        Description: params.description.substring(0, 140),
+        CustomerKey: String(params.userId)
+      };
+      if (params.returnUrl) {
+        payload.SuccessURL = params.returnUrl;
+        payload.FailURL = params.returnUrl;
+      }
+      payload.Token = this.createToken(payload);
+
+      const response = await axios.post<any>(`${this.baseUrl}/Init`, payload, { timeout: 15000 });
+
+      if (!response.data.Success) {
+        console.error('❌ [TINKOFF] Ошибка создания платежа:', response.data.ErrorCode, response.data.Message, response.data.Details);
+        return { success: false, error: response.data.Message || 'Не удалось создать платеж в Т-Банке' };
+      }
+
+      return {
+        success: true,
+        providerPaymentId: String(response.data.PaymentId),
+        confirmationUrl: response.data.PaymentURL
+      };
+    } catch (error) {
+      console.error('❌ [TINKOFF] Ошибка создания платежа:', describeProviderError(error));
+      return { success: false, error: 'Не удалось создать платеж в Т-Банке' };
+    }
+  }
+
+  async verifyWebhook(request: WebhookRequest): Promise<boolean> {
+    // Без ключей подпись с пустым паролем смог бы посчитать кто угодно
+    if (!this.isConfigured()) {
+      return false;
+    }
+
+    const body = request.body || {};
+    if (!body.Token || body.TerminalKey !== this.terminalKey) {
+      return false;
+    }
+
+    const { Token, ...params } = body;
+    const expected = Buffer.from(this.createToken(params));
+    const received = Buffer.from(String(Token));
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  async parseWebhook(request: WebhookRequest): Promise<WebhookEvent | null> {
+    const body = request.body || {};
+    if (!body.OrderId || !body.Status) {
+      return null;
+    }
+
+    let status: WebhookEvent['status'];
+    switch (body.Status) {
+      case 'CONFIRMED':
+        status = 'succeeded';
+        break;
+      case 'CANCELED':
+      case 'DEADLINE_EXPIRED':
+      case 'REVERSED':
+        status = 'cancelled';
+        break;
+      case 'REJECTED':
+      case 'AUTH_FAIL':
+        status = 'failed';
+        break;
+      default:
+        // AUTHORIZED, REFUNDED и прочие промежуточные статусы на зачисление не влияют
+        status = 'pending';
+    }
+
+    return {
+      paymentId: String(body.OrderId),
+      providerPaymentId: String(body.PaymentId),
+      status,
+      amount: Number(body.Amount) / 100
+    };
+  }
+
+  async refund(params: RefundParams): Promise<RefundResult> {
+    try {
+      const payload: Record<string, any> = {
+        TerminalKey: this.terminalKey,
+        PaymentId: params.providerPaymentId,
+        Amount: Math.round(params.amount * 100),
+        ExternalRequestId: params.refundId
+      };
+      payload.Token = this.createToken(payload);
+
+      const response = await axios.post<any>(`${this.baseUrl}/Cancel`, payload, { timeout: 15000 });
+
+      if (!response.data.Success) {
+        console.error('❌ [TINKOFF] Ошибка возврата:', response.data.ErrorCode, response.data.Message);
+        return { success: false, error: response.data.Message || 'Не удалось выполнить возврат в Т-Банке' };
+      }
+
+      return { success: true, providerRefundId: String(response.data.PaymentId) };
+    } catch (error) {
+      console.error('❌ [TINKOFF] Ошибка возврата:', describeProviderError(error));
+      return { success: false, error: 'Не удалось выполнить возврат в Т-Банке' };
+    }
+  }
+
+  /**
+   * Token: значения параметров верхнего уровня + Password, отсортированные по ключу, SHA-256
+   */
+  private createToken(params: Record<string, any>): string {
+    const values: Record<string, string> = { Password: this.password };
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== null && value !== undefined && typeof value !== 'object') {
+        values[key] = String(value);
+      }
+    }
+
+    const concatenated = Object.keys(values)
+      .sort()
+      .map(key => values[key])
+      .join('');
+
+    return crypto.createHash('sha256').update(concatenated).digest('hex');
+  }
+}
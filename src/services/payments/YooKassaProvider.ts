@@ -0,0 +1,181 @@
+import axios from 'axios';
+import {
+  PaymentProvider,
+  describeProviderError,
+  PaymentMethod,
+  CreateInvoiceParams,
+  CreatedInvoice,
+  WebhookRequest,
+  WebhookEvent,
+  RefundParams,
+  RefundResult
+} from './PaymentProvider';
+
+// Диапазоны IPv4, с которых YooKassa отправляет уведомления
+const YOOKASSA_IP_RANGES = ['185.71.76.0/27', '185.71.77.0/27', '77.75.153.0/25', '77.75.156.11/32', '77.75.156.35/32', '77.75.154.128/25'];
+const YOOKASSA_IPV6_PREFIX = '2a02:5180:';
+
+/**
+ * YooKassa: банковские карты, ЮMoney и SberPay
+ * Webhook YooKassa не подписывается, поэтому подлинность проверяется запросом статуса платежа через API
+ */
+export class YooKassaProvider implements PaymentProvider {
+  readonly name = 'yookassa' as const;
+
+  private readonly baseUrl = process.env.YOOKASSA_API_URL || 'https://api.yookassa.ru/v3';
+  private readonly shopId = process.env.YOOKASSA_SHOP_ID || '';
+  private readonly secretKey = process.env.YOOKASSA_SECRET_KEY || '';
+  private readonly checkIp = process.env.YOOKASSA_CHECK_IP === 'true';
+
+  isConfigured(): boolean {
+    return !!this.shopId && !!this.secretKey;
+  }
+
+  supports(method: PaymentMethod): boolean {
+    return ['card', 'yoomoney', 'sberpay'].includes(method);
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice> {
+    try {
+      const response = await axios.post<any>(
+        `${this.baseUrl}/payments`,
+        {
+          amount: { value: params.amount.toFixed(2), currency: 'RUB' },
+          capture: true,
+          confirmation: { type: 'redirect', return_url: params.returnUrl },
+          payment_method_data: { type: this.mapMethod(params.paymentMethod) },
+          description: params.description.substring(0, 128),
+          metadata: { payment_id: params.paymentId, user_id: params.userId }
+        },
+        {
+          auth: { username: this.shopId, password: this.secretKey },
+          headers: { 'Idempotence-Key': params.paymentId },
+          timeout: 15000
+        }
+      );
+
+      return {
+        success: true,
+        providerPaymentId: response.data.id,
+        confirmationUrl: response.data.confirmation?.confirmation_url
+      };
+    } catch (error) {
+      console.error('❌ [YOOKASSA] Ошибка создания платежа:', describeProviderError(error));
+      return { success: false, error: 'Не удалось создать платеж в YooKassa' };
+    }
+  }
+
+  async verifyWebhook(request: WebhookRequest): Promise<boolean> {
+    if (!this.isConfigured()) {
+      return false;
+    }
+
+    if (this.checkIp && !this.isYooKassaIp(request.ip)) {
+      console.warn(`⚠️ [YOOKASSA] Webhook с неизвестного IP: ${request.ip}`);
+      return false;
+    }
+
+    const notifiedPayment = request.body?.object;
+    if (!notifiedPayment?.id) {
+      return false;
+    }
+
+    try {
+      // Сверяем уведомление с актуальным состоянием платежа в YooKassa
+      const response = await axios.get<any>(`${this.baseUrl}/payments/${encodeURIComponent(notifiedPayment.id)}`, {
+        auth: { username: this.shopId, password: this.secretKey },
+        timeout: 15000
+      });
+
+      return response.data.status === notifiedPayment.status
+        && response.data.amount?.value === notifiedPayment.amount?.value
+        && response.data.metadata?.payment_id === notifiedPayment.metadata?.payment_id;
+    } catch (error) {
+      console.error('❌ [YOOKASSA] Ошибка проверки платежа:', describeProviderError(error));
+      return false;
+    }
+  }
+
+  async parseWebhook(request: WebhookRequest): Promise<WebhookEvent | null> {
+    const { event, object } = request.body || {};
+    if (!object || typeof event !== 'string' || !event.startsWith('payment.')) {
+      return null;
+    }
+
+    const statusMap: Record<string, WebhookEvent['status']> = {
+      succeeded: 'succeeded',
+      canceled: 'cancelled',
+      pending: 'pending',
+      waiting_for_capture: 'pending'
+    };
+
+    return {
+      paymentId: object.metadata?.payment_id,
+      providerPaymentId: object.id,
+      status: statusMap[object.status] || 'failed',
+      amount: parseFloat(object.amount?.value)
+    };
+  }
+
+  async refund(params: RefundParams): Promise<RefundResult> {
+    try {
+      const response = await axios.post<any>(
+        `${this.baseUrl}/refunds`,
+        {
+          payment_id: params.providerPaymentId,
+          amount: { value: params.amount.toFixed(2), currency: 'RUB' }
+        },
+        {
+          auth: { username: this.shopId, password: this.secretKey },
+          headers: { 'Idempotence-Key': params.refundId },
+          timeout: 15000
+        }
+      );
+
+      return { success: response.data.status !== 'canceled', providerRefundId: response.data.id };
+    } catch (error) {
+      console.error('❌ [YOOKASSA] Ошибка возврата:', describeProviderError(error));
+      return { success: false, error: 'Не удалось выполнить возврат в YooKassa' };
+    }
+  }
+
+  /**
+   * Способ оплаты YooKassa для нашего payment_method
+   */
+  private mapMethod(method: PaymentMethod): string {
+    switch (method) {
+      case 'yoomoney':
+        return 'yoo_money';
+      case 'sberpay':
+        return 'sberbank';
+      default:
+        return 'bank_card';
+    }
+  }
+
+  /**
+   * Проверить, что запрос пришел с IP YooKassa
+   */
+  private isYooKassaIp(ip?: string): boolean {
+    if (!ip) {
+      return false;
+    }
+
+    const address = ip.replace(/^::ffff:/, '');
+    if (address.toLowerCase().startsWith(YOOKASSA_IPV6_PREFIX)) {
+      return true;
+    }
+
+    const toNumber = (value: string) => value.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
+    if (!/^\d+\.\d+\.\d+\.\d+$/.test(address)) {
+      return false;
+    }
+
+    const ipNumber = toNumber(address);
+    return YOOKASSA_IP_RANGES.some(range => {
+      const [base, bits] = range.split('/');
+      const mask = bits === '32' ? 0xffffffff : (~((1 << (32 - parseInt(bits, 10))) - 1)) >>> 0;
+      return (ipNumber & mask) >>> 0 === (toNumber(base) & mask) >>> 0;
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, test, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { BalanceHold, Payment, User } from '../src/models/index';
+import { BalanceService } from '../src/services/BalanceService';
+import { LedgerService } from '../src/services/LedgerService';
+import { PackService } from '../src/services/PackService';
+import { SubscriptionService } from '../src/services/SubscriptionService';
+import { fakeRow, mockTransactions } from './helpers';
+
+describe('BalanceService: резервы', () => {
+  let user: ReturnType<typeof fakeRow<{ id: number; balance: number }>>;
+
+  beforeEach(() => {
+    user = fakeRow({ id: 1, balance: 100 });
+    mockTransactions();
+    mock.method(User, 'findByPk', async () => user);
+    mock.method(SubscriptionService, 'findQuotaSubscription', async () => null);
+    mock.method(PackService, 'findQuotaPack', async () => null);
+    mock.method(LedgerService, 'getUserBalance', async () => user.balance);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  test('резерв учитывает уже зарезервированные средства', async () => {
+    mock.method(BalanceHold, 'sum', async () => 30);
+    const created: { amount: number }[] = [];
+    mock.method(BalanceHold, 'create', async (values: { amount: number }) => {
+      created.push(values);
+      return fakeRow({ id: 5, ...values });
+    });
+
+    const rejected = await BalanceService.reserve(1, 80, 'Реставрация фото', 'photo_restore');
+    const accepted = await BalanceService.reserve(1, 50, 'Реставрация фото', 'photo_restore');
+
+    assert.equal(rejected.success, false);
+    assert.equal(rejected.available, 70);
+    assert.equal(accepted.success, true);
+    assert.equal(accepted.holdId, 5);
+    assert.equal(accepted.available, 20);
+    assert.deepEqual(created.map(values => values.amount), [50]);
+  });
+
+  test('резерв списывается один раз', async () => {
+    const hold = fakeRow({ id: 5, user_id: 1, amount: 40, status: 'held', description: 'Реставрация фото' });
+    mock.method(BalanceHold, 'findByPk', async () => hold);
+    mock.method(Payment, 'create', async (values: object) => fakeRow({ id: 9, ...values }));
+    const postings: { entryType: string; amount: number }[] = [];
+    mock.method(LedgerService, 'post', async (posting: { entryType: string; amount: number }) => {
+      postings.push(posting);
+      return {};
+    });
+
+    const first = await BalanceService.captureHold(5, 'photo_1');
+    const second = await BalanceService.captureHold(5, 'photo_1');
+
+    assert.equal(first.success, true);
+    assert.equal(first.balance, 60);
+    assert.equal(second.success, false);
+    assert.equal(hold.status, 'captured');
+    assert.equal(user.balance, 60);
+    assert.deepEqual(postings.map(posting => [posting.entryType, posting.amount]), [['job_charge', -40]]);
+  });
+
+  test('резерв запроса, уже списанный предыдущей попыткой, повторно не списывается', async () => {
+    const hold = fakeRow({ id: 5, user_id: 1, amount: 40, status: 'held', description: 'Реставрация фото' });
+    mock.method(BalanceHold, 'findByPk', async () => hold);
+    mock.method(Payment, 'create', async (values: object) => fakeRow({ id: 9, ...values }));
+    const post = mock.method(LedgerService, 'post', async () => ({}));
+
+    const first = await BalanceService.captureRequestHold(5, 'photo_1');
+    const retried = await BalanceService.captureRequestHold(5, 'photo_1');
+
+    assert.equal(first.success, true);
+    assert.equal(retried.success, true);
+    assert.equal(retried.balance, 60);
+    assert.equal(user.balance, 60);
+    assert.equal(post.mock.callCount(), 1);
+  });
+
+  test('квота подписки списывается без изменения баланса', async () => {
+    const hold = fakeRow({ id: 5, user_id: 1, amount: 0, status: 'held', subscription_id: 3 });
+    mock.method(BalanceHold, 'findByPk', async () => hold);
+    const post = mock.method(LedgerService, 'post', async () => ({}));
+
+    const result = await BalanceService.captureHold(5);
+
+    assert.equal(result.success, true);
+    assert.equal(hold.status, 'captured');
+    assert.equal(user.balance, 100);
+    assert.equal(post.mock.callCount(), 0);
+  });
+
+  test('снятый резерв нельзя списать, а списанный — снять', async () => {
+    const released = fakeRow({ id: 5, user_id: 1, amount: 40, status: 'held' });
+    const captured = fakeRow({ id: 6, user_id: 1, amount: 40, status: 'captured' });
+    mock.method(BalanceHold, 'findByPk', async (id: number) => id === 5 ? released : captured);
+
+    assert.equal(await BalanceService.releaseHold(5, 'ошибка обработки'), true);
+    assert.equal(released.status, 'released');
+    assert.equal((await BalanceService.captureHold(5)).success, false);
+
+    assert.equal(await BalanceService.releaseHold(6), false);
+    assert.equal(captured.status, 'captured');
+  });
+});
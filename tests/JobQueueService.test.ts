@@ -0,0 +1,116 @@
+import { describe, test, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiRequest, Job } from '../src/models/index';
+import { BalanceService } from '../src/services/BalanceService';
+import { JobEventsService } from '../src/services/JobEventsService';
+import { JobQueueService } from '../src/services/JobQueueService';
+import { PhotoRestorationService } from '../src/services/PhotoRestorationService';
+import { fakeRow } from './helpers';
+
+const queuedJob = (values: { attempts: number; max_attempts?: number; status?: string }) => fakeRow({
+  id: 11,
+  api_request_id: 21,
+  type: 'photo_restore',
+  payload: { photoId: 1 },
+  status: 'queued',
+  max_attempts: 3,
+  locked_by: null as string | null,
+  run_at: new Date(),
+  ...values
+});
+
+describe('JobQueueService: захват задачи', () => {
+  afterEach(() => mock.restoreAll());
+
+  test('задачу получает только воркер, чье условное обновление прошло', async () => {
+    const job = queuedJob({ attempts: 0 });
+    mock.method(Job, 'findAll', async () => [job]);
+    const conditions: object[] = [];
+    let updatedRows = 0;
+    mock.method(Job, 'update', async (values: object, options: { where: object }) => {
+      conditions.push(options.where);
+      return [updatedRows];
+    });
+
+    const lost = await JobQueueService['claimNextJob']();
+    updatedRows = 1;
+    const claimed = await JobQueueService['claimNextJob']();
+
+    assert.equal(lost, null);
+    assert.equal(claimed, job);
+    assert.deepEqual(conditions[0], { id: 11, status: 'queued', attempts: 0 });
+  });
+
+  test('задача с истекшей арендой и исчерпанными попытками не захватывается, а проваливается', async () => {
+    const job = queuedJob({ attempts: 3, status: 'running' });
+    mock.method(Job, 'findAll', async () => [job]);
+    const update = mock.method(Job, 'update', async () => [1]);
+    mock.method(ApiRequest, 'findByPk', async () => fakeRow({ id: 21, status: 'processing' }));
+    mock.method(ApiRequest, 'findOne', async () => null);
+    const compensate = mock.method(BalanceService, 'compensateFailedRequest', async () => undefined);
+
+    const claimed = await JobQueueService['claimNextJob']();
+
+    assert.equal(claimed, null);
+    assert.equal(update.mock.callCount(), 0);
+    assert.equal(job.status, 'failed');
+    assert.equal(compensate.mock.callCount(), 1);
+  });
+});
+
+describe('JobQueueService: повтор задачи', () => {
+  beforeEach(() => {
+    mock.method(ApiRequest, 'findByPk', async () => fakeRow({ id: 21, status: 'processing' }));
+    mock.method(ApiRequest, 'findOne', async () => null);
+    mock.method(PhotoRestorationService, 'restorePhoto', async () => {
+      throw new Error('Сбой соединения');
+    });
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  test('после сбоя задача возвращается в очередь с задержкой', async () => {
+    const job = queuedJob({ attempts: 1, status: 'running' });
+    const retrying = mock.method(JobEventsService, 'retrying', () => undefined);
+    const startedAt = Date.now();
+
+    await JobQueueService['runJob'](job as unknown as Job);
+
+    assert.equal(job.status, 'queued');
+    assert.equal(job.locked_by, null);
+    assert.ok(job.run_at.getTime() >= startedAt + 30 * 1000);
+    assert.deepEqual(retrying.mock.calls[0].arguments.slice(0, 2), [21, 2]);
+  });
+
+  test('после последней попытки задача проваливается и резерв компенсируется', async () => {
+    const job = queuedJob({ attempts: 3, status: 'running' });
+    const compensate = mock.method(BalanceService, 'compensateFailedRequest', async () => undefined);
+
+    await JobQueueService['runJob'](job as unknown as Job);
+
+    assert.equal(job.status, 'failed');
+    assert.equal(compensate.mock.callCount(), 1);
+  });
+});
+
+describe('JobQueueService: ошибка сервиса', () => {
+  afterEach(() => mock.restoreAll());
+
+  test('запрос, который сервис не пометил, проваливается вместе с задачей и компенсируется', async () => {
+    const apiRequest = fakeRow({ id: 21, status: 'processing', error_message: undefined as string | undefined, cost: 40, createdAt: new Date() });
+    mock.method(ApiRequest, 'findByPk', async () => apiRequest);
+    mock.method(ApiRequest, 'findOne', async () => apiRequest);
+    mock.method(PhotoRestorationService, 'restorePhoto', async () => ({ success: false, error: 'Неверный стиль изображения' }));
+    const compensate = mock.method(BalanceService, 'compensateFailedRequest', async () => undefined);
+    const failed = mock.method(JobEventsService, 'failed', () => undefined);
+    const job = queuedJob({ attempts: 1, status: 'running' });
+
+    await JobQueueService['runJob'](job as unknown as Job);
+
+    assert.equal(job.status, 'failed');
+    assert.equal(apiRequest.status, 'failed');
+    assert.equal(apiRequest.error_message, 'Неверный стиль изображения');
+    assert.equal(compensate.mock.callCount(), 1);
+    assert.equal(failed.mock.callCount(), 1);
+  });
+});
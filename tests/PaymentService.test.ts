@@ -0,0 +1,147 @@
+import { describe, test, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { Payment, User } from '../src/models/index';
+import { BalanceService } from '../src/services/BalanceService';
+import { LedgerService } from '../src/services/LedgerService';
+import { PaymentService } from '../src/services/PaymentService';
+import { PromoCodeService } from '../src/services/PromoCodeService';
+import { RefundParams } from '../src/services/payments/PaymentProvider';
+import { TinkoffProvider } from '../src/services/payments/TinkoffProvider';
+import { fakeRow, mockTransactions } from './helpers';
+
+const completedTopUp = () => fakeRow({
+  id: 7,
+  user_id: 1,
+  payment_id: 'topup_1',
+  amount: 100,
+  status: 'completed',
+  provider: 'yookassa',
+  provider_payment_id: 'yk_1',
+  refunded_amount: 0,
+  refund_count: 0
+});
+
+describe('PaymentService: webhook пополнения', () => {
+  beforeEach(() => {
+    mockTransactions();
+    mock.method(User, 'findByPk', async () => fakeRow({ id: 1, balance: 0 }));
+    mock.method(PromoCodeService, 'applyTopUpBonus', async () => 0);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  test('повторный webhook не зачисляет платеж второй раз', async () => {
+    const payment = fakeRow({ id: 7, user_id: 1, payment_id: 'topup_1', amount: 100, status: 'pending', provider: 'fake' });
+    mock.method(Payment, 'findOne', async () => payment);
+    mock.method(LedgerService, 'getUserBalance', async () => 0);
+    const post = mock.method(LedgerService, 'post', async () => ({}));
+
+    const first = await PaymentService.handleWebhookEvent('fake', { paymentId: 'topup_1', status: 'succeeded', amount: 100 });
+    const second = await PaymentService.handleWebhookEvent('fake', { paymentId: 'topup_1', status: 'succeeded', amount: 100 });
+
+    assert.equal(first.success, true);
+    assert.equal(first.balance, 100);
+    assert.equal(second.success, true);
+    assert.equal(second.alreadyProcessed, true);
+    assert.equal(payment.status, 'completed');
+    assert.equal(post.mock.callCount(), 1);
+  });
+
+  test('webhook с другой суммой не зачисляется', async () => {
+    mock.method(Payment, 'findOne', async () => fakeRow({ id: 7, user_id: 1, payment_id: 'topup_1', amount: 100, status: 'pending', provider: 'fake' }));
+    const complete = mock.method(BalanceService, 'completePendingPayment', async () => ({ success: true }));
+
+    const result = await PaymentService.handleWebhookEvent('fake', { paymentId: 'topup_1', status: 'succeeded', amount: 1 });
+
+    assert.equal(result.success, false);
+    assert.equal(complete.mock.callCount(), 0);
+  });
+});
+
+describe('PaymentService: возврат пополнения', () => {
+  let refunds: RefundParams[];
+  let refundSucceeds: boolean;
+
+  beforeEach(() => {
+    refunds = [];
+    refundSucceeds = true;
+    mockTransactions();
+    mock.method(User, 'findByPk', async () => fakeRow({ id: 1, telegram_id: 42 }));
+    mock.method(PaymentService, 'getProvider', () => ({
+      name: 'yookassa',
+      refund: async (params: RefundParams) => {
+        refunds.push(params);
+        return refundSucceeds ? { success: true, providerRefundId: `yk_refund_${refunds.length}` } : { success: false, error: 'Отказ провайдера' };
+      }
+    }));
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  test('некорректная сумма отклоняется до обращения к платежу', async () => {
+    const findOne = mock.method(Payment, 'findOne', async () => completedTopUp());
+
+    for (const amount of [NaN, -10, 0, Infinity]) {
+      const result = await PaymentService.refundTopUp('topup_1', amount);
+      assert.equal(result.success, false);
+    }
+    assert.equal(findOne.mock.callCount(), 0);
+  });
+
+  test('частичные возвраты в сумме не превышают пополнение', async () => {
+    const payment = completedTopUp();
+    mock.method(Payment, 'findOne', async () => payment);
+    const charge = mock.method(BalanceService, 'chargeInTransaction', async () => ({ balance: 0, paymentId: 1 }));
+
+    assert.equal((await PaymentService.refundTopUp('topup_1', 60)).success, true);
+    assert.equal((await PaymentService.refundTopUp('topup_1', 50)).success, false);
+    assert.equal((await PaymentService.refundTopUp('topup_1')).success, true);
+    assert.equal((await PaymentService.refundTopUp('topup_1')).success, false);
+
+    assert.deepEqual(refunds.map(refund => refund.amount), [60, 40]);
+    assert.equal(charge.mock.callCount(), 2);
+    assert.equal(payment.refunded_amount, 100);
+    assert.equal(payment.status, 'refunded');
+  });
+
+  test('ключ идемпотентности строится из платежа и номера возврата', async () => {
+    mock.method(Payment, 'findOne', async () => completedTopUp());
+    mock.method(BalanceService, 'chargeInTransaction', async () => ({ balance: 0, paymentId: 1 }));
+
+    await PaymentService.refundTopUp('topup_1', 10);
+
+    assert.equal(refunds[0].refundId, 'refund_topup_1_1');
+  });
+
+  test('при отказе провайдера списание отменяется, а номер возврата не переиспользуется', async () => {
+    const payment = completedTopUp();
+    mock.method(Payment, 'findOne', async () => payment);
+    mock.method(Payment, 'findByPk', async () => payment);
+    mock.method(BalanceService, 'chargeInTransaction', async () => ({ balance: 0, paymentId: 1 }));
+    const credit = mock.method(BalanceService, 'creditInTransaction', async () => ({ balance: 100, paymentId: 2 }));
+
+    refundSucceeds = false;
+    const failed = await PaymentService.refundTopUp('topup_1', 30);
+    refundSucceeds = true;
+    const retried = await PaymentService.refundTopUp('topup_1', 30);
+
+    assert.equal(failed.success, false);
+    assert.equal(credit.mock.callCount(), 1);
+    assert.equal(retried.success, true);
+    assert.deepEqual(refunds.map(refund => refund.refundId), ['refund_topup_1_1', 'refund_topup_1_2']);
+    assert.equal(payment.refunded_amount, 30);
+    assert.equal(payment.status, 'completed');
+  });
+});
+
+describe('PaymentService: ненастроенные провайдеры', () => {
+  test('webhook Т-Банка без ключей терминала не принимается даже с подписью от пустого пароля', async () => {
+    const provider = new TinkoffProvider();
+    const body: Record<string, unknown> = { TerminalKey: '', OrderId: 'topup_1', Status: 'CONFIRMED', Amount: 10000 };
+    body.Token = provider['createToken'](body);
+
+    assert.equal(provider.isConfigured(), false);
+    assert.equal(await provider.verifyWebhook({ headers: {}, body }), false);
+    assert.equal(PaymentService.getProvider('tinkoff'), null);
+  });
+});
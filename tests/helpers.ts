@@ -0,0 +1,24 @@
+import { mock } from 'node:test';
+import { sequelize } from '../src/models/index';
+
+/**
+ * Строка модели в памяти: update и reload меняют сам объект, как у экземпляра Sequelize
+ */
+export const fakeRow = <T extends object>(values: T) => {
+  const row = Object.assign(values, {
+    update: async (changes: Partial<T>) => {
+      Object.assign(row, changes);
+      return row;
+    },
+    reload: async () => row
+  });
+  return row;
+};
+
+/**
+ * sequelize.transaction без БД: колбэк получает транзакцию-заглушку с LOCK.UPDATE
+ */
+export const mockTransactions = () => {
+  const transaction = { LOCK: { UPDATE: 'UPDATE' } };
+  return mock.method(sequelize, 'transaction', async (callback: (t: typeof transaction) => Promise<unknown>) => await callback(transaction));
+};